@@ -0,0 +1,197 @@
+/**
+ * Inbound API key authentication
+ * Client keys come from the CLIENT_KEYS env var (JSON) or the CLIENT_KEYS_KV namespace,
+ * stored as SHA-256 hashes. Auth is off when neither is configured
+ */
+
+import { AuthenticatedClient, ClientKeyConfig, ConversionResult, Env, RateLimits } from './types';
+import { compileMatcher } from './routing';
+
+// KV entries are stored under this prefix followed by the key hash
+const CLIENT_KEY_KV_PREFIX = 'client-key:';
+
+// Revoked keys stop working within a minute
+const KV_CACHE_TTL_MS = 60 * 1000;
+
+const RATE_LIMIT_FIELDS: (keyof RateLimits)[] = ['requests_per_minute', 'input_tokens_per_minute', 'output_tokens_per_day'];
+
+class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthConfigError';
+  }
+}
+
+function isAuthEnabled(env: Env): boolean {
+  return Boolean(env.CLIENT_KEYS || env.CLIENT_KEYS_KV);
+}
+
+function extractApiKey(request: Request): string | null {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) return apiKey.trim();
+  
+  const authorization = request.headers.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  return bearer ? bearer[1].trim() : null;
+}
+
+async function hashApiKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function compileClientKey(config: ClientKeyConfig, location: string): AuthenticatedClient {
+  if (!config || typeof config !== 'object') {
+    throw new AuthConfigError(`${location} must be an object`);
+  }
+  if (typeof config.name !== 'string' || !config.name) {
+    throw new AuthConfigError(`${location}.name must be a non-empty string`);
+  }
+  if (config.models !== undefined && (!Array.isArray(config.models) || !config.models.every(model => typeof model === 'string' && model))) {
+    throw new AuthConfigError(`${location}.models must be an array of model ids or patterns`);
+  }
+  if (config.limits !== undefined) {
+    if (!config.limits || typeof config.limits !== 'object') {
+      throw new AuthConfigError(`${location}.limits must be an object`);
+    }
+    RATE_LIMIT_FIELDS.forEach(field => {
+      const limit = config.limits![field];
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new AuthConfigError(`${location}.limits.${field} must be a positive integer`);
+      }
+    });
+  }
+  
+  try {
+    return {
+      name: config.name,
+      models: config.models ? config.models.map(model => compileMatcher(model).pattern) : null,
+      limits: config.limits || null
+    };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid pattern';
+    throw new AuthConfigError(`${location}.models contains an invalid pattern: ${reason}`);
+  }
+}
+
+function parseClientKeys(raw: string, source = 'CLIENT_KEYS'): Map<string, AuthenticatedClient> {
+  let configs: ClientKeyConfig[];
+  
+  try {
+    configs = JSON.parse(raw) as ClientKeyConfig[];
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid JSON';
+    throw new AuthConfigError(`${source} is not valid JSON: ${reason}`);
+  }
+  
+  if (!Array.isArray(configs)) {
+    throw new AuthConfigError(`${source} must be a JSON array of client keys`);
+  }
+  
+  const clients = new Map<string, AuthenticatedClient>();
+  configs.forEach((config, index) => {
+    const location = `${source}[${index}]`;
+    if (typeof config?.key_hash !== 'string' || !/^[0-9a-f]{64}$/i.test(config.key_hash)) {
+      throw new AuthConfigError(`${location}.key_hash must be a hex SHA-256 digest`);
+    }
+    clients.set(config.key_hash.toLowerCase(), compileClientKey(config, location));
+  });
+  
+  return clients;
+}
+
+// Per-isolate caches: the parsed env config and individual KV lookups
+let envKeysCache: { raw: string; clients: Map<string, AuthenticatedClient> } | null = null;
+const kvKeysCache = new Map<string, { client: AuthenticatedClient | null; loadedAt: number }>();
+
+async function findClient(keyHash: string, env: Env): Promise<AuthenticatedClient | null> {
+  if (env.CLIENT_KEYS) {
+    if (envKeysCache?.raw !== env.CLIENT_KEYS) {
+      envKeysCache = { raw: env.CLIENT_KEYS, clients: parseClientKeys(env.CLIENT_KEYS) };
+    }
+    
+    const client = envKeysCache.clients.get(keyHash);
+    if (client) return client;
+  }
+  
+  if (env.CLIENT_KEYS_KV) {
+    const cached = kvKeysCache.get(keyHash);
+    if (cached && Date.now() - cached.loadedAt < KV_CACHE_TTL_MS) {
+      return cached.client;
+    }
+    
+    const kvKey = `${CLIENT_KEY_KV_PREFIX}${keyHash}`;
+    const raw = await env.CLIENT_KEYS_KV.get(kvKey);
+    let client: AuthenticatedClient | null = null;
+    
+    if (raw) {
+      let config: ClientKeyConfig;
+      try {
+        config = JSON.parse(raw) as ClientKeyConfig;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'invalid JSON';
+        throw new AuthConfigError(`CLIENT_KEYS_KV["${kvKey}"] is not valid JSON: ${reason}`);
+      }
+      client = compileClientKey(config, `CLIENT_KEYS_KV["${kvKey}"]`);
+    }
+    
+    kvKeysCache.set(keyHash, { client, loadedAt: Date.now() });
+    return client;
+  }
+  
+  return null;
+}
+
+/**
+ * Resolves the calling client. data is null when auth is disabled;
+ * a failed result carries the authentication_error message
+ */
+async function authenticateRequest(request: Request, env: Env): Promise<ConversionResult<AuthenticatedClient | null>> {
+  if (!isAuthEnabled(env)) {
+    return { success: true, data: null };
+  }
+  
+  const apiKey = extractApiKey(request);
+  if (!apiKey) {
+    return { success: false, error: 'x-api-key header is required' };
+  }
+  
+  const client = await findClient(await hashApiKey(apiKey), env);
+  if (!client) {
+    return { success: false, error: 'invalid x-api-key' };
+  }
+  
+  return { success: true, data: client };
+}
+
+// Admin routes take ADMIN_API_KEY rather than a client key; hashing both sides keeps the comparison constant-time
+async function isAdminRequest(request: Request, env: Env): Promise<boolean> {
+  const apiKey = extractApiKey(request);
+  if (!env.ADMIN_API_KEY || !apiKey) return false;
+  
+  return await hashApiKey(apiKey) === await hashApiKey(env.ADMIN_API_KEY);
+}
+
+function isModelAllowed(client: AuthenticatedClient | null, model: string): boolean {
+  if (!client || !client.models) return true;
+  return client.models.some(pattern => pattern.test(model));
+}
+
+function resetAuthCache(): void {
+  envKeysCache = null;
+  kvKeysCache.clear();
+}
+
+export {
+  AuthConfigError,
+  isAuthEnabled,
+  extractApiKey,
+  hashApiKey,
+  parseClientKeys,
+  authenticateRequest,
+  isAdminRequest,
+  isModelAllowed,
+  resetAuthCache
+};
@@ -0,0 +1,379 @@
+/**
+ * Message Batches: requests stored up front and run in the background with bounded concurrency
+ * Batches, their requests and results go to the BATCHES_KV namespace when bound,
+ * otherwise to per-isolate memory
+ */
+
+import { createStoreSelector } from './store';
+import {
+  BatchRequestRunner,
+  BatchStore,
+  ConversionResult,
+  Env,
+  MessageBatchRecord,
+  MessageBatchRequest,
+  MessageBatchResult,
+  MessageBatchResultLine
+} from './types';
+
+const BATCH_KV_PREFIX = 'batch:';
+const BATCH_REQUESTS_KV_PREFIX = 'batch-requests:';
+const BATCH_RESULTS_KV_PREFIX = 'batch-result:';
+const BATCH_CANCEL_KV_PREFIX = 'batch-cancel:';
+
+// Results stay available for 29 days, as with Anthropic
+const BATCH_RETENTION_SECONDS = 29 * 24 * 60 * 60;
+
+// Requests not finished within a day of creation expire
+const BATCH_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+// KV takes one write per second per key, so progress is saved less often than that
+const BATCH_PROGRESS_INTERVAL_MS = 2000;
+
+// A processing loop renews its lease with every progress save, even while requests are
+// still running. waitUntil only keeps an isolate alive for about 30 seconds after the
+// response, so a loop that stops renewing is taken over by the first poll after this
+const BATCH_LEASE_MS = 5 * BATCH_PROGRESS_INTERVAL_MS;
+
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const MAX_BATCH_REQUESTS = 10000;
+
+const CUSTOM_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+function generateBatchId(): string {
+  return `msgbatch_${Date.now().toString(36)}${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function createBatchRecord(requestCount: number, client: string | null, now = Date.now()): MessageBatchRecord {
+  return {
+    batch: {
+      id: generateBatchId(),
+      type: 'message_batch',
+      processing_status: 'in_progress',
+      request_counts: { processing: requestCount, succeeded: 0, errored: 0, canceled: 0, expired: 0 },
+      ended_at: null,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + BATCH_EXPIRY_MS).toISOString(),
+      archived_at: null,
+      cancel_initiated_at: null,
+      results_url: null
+    },
+    client,
+    leaseExpiresAt: 0
+  };
+}
+
+// Cancellation is stored apart from the record and laid over it on every read
+function markCanceling(record: MessageBatchRecord, canceledAt: string | null): MessageBatchRecord {
+  if (canceledAt && !record.batch.cancel_initiated_at) {
+    record.batch.cancel_initiated_at = canceledAt;
+    if (record.batch.processing_status === 'in_progress') {
+      record.batch.processing_status = 'canceling';
+    }
+  }
+  return record;
+}
+
+/**
+ * Checks the batch envelope: a non-empty requests array with unique custom_ids.
+ * Each request's params are validated by the caller
+ */
+function validateBatchRequests(requests: unknown): ConversionResult<MessageBatchRequest[]> {
+  if (!Array.isArray(requests) || requests.length === 0) {
+    return { success: false, error: 'requests must be a non-empty array' };
+  }
+  if (requests.length > MAX_BATCH_REQUESTS) {
+    return { success: false, error: `requests: a batch holds at most ${MAX_BATCH_REQUESTS} requests` };
+  }
+  
+  const customIds = new Set<string>();
+  for (let i = 0; i < requests.length; i++) {
+    const request = requests[i] as Partial<MessageBatchRequest> | null;
+    if (!request || typeof request.custom_id !== 'string' || !CUSTOM_ID_PATTERN.test(request.custom_id)) {
+      return { success: false, error: `requests[${i}].custom_id must be 1-64 letters, digits, hyphens or underscores` };
+    }
+    if (customIds.has(request.custom_id)) {
+      return { success: false, error: `requests[${i}].custom_id "${request.custom_id}" is used more than once` };
+    }
+    if (!request.params || typeof request.params !== 'object') {
+      return { success: false, error: `requests[${i}].params is required` };
+    }
+    customIds.add(request.custom_id);
+  }
+  
+  return { success: true, data: requests as MessageBatchRequest[] };
+}
+
+function createMemoryBatchStore(): BatchStore {
+  const records = new Map<string, MessageBatchRecord>();
+  const requests = new Map<string, MessageBatchRequest[]>();
+  const results = new Map<string, Map<string, MessageBatchResultLine>>();
+  const cancels = new Map<string, string>();
+  const copy = (record: MessageBatchRecord): MessageBatchRecord =>
+    markCanceling(JSON.parse(JSON.stringify(record)), cancels.get(record.batch.id) || null);
+  
+  return {
+    async create(record: MessageBatchRecord, batchRequests: MessageBatchRequest[]): Promise<void> {
+      records.set(record.batch.id, record);
+      requests.set(record.batch.id, batchRequests);
+      results.set(record.batch.id, new Map());
+    },
+    async get(id: string): Promise<MessageBatchRecord | null> {
+      const record = records.get(id);
+      return record ? copy(record) : null;
+    },
+    async update(record: MessageBatchRecord): Promise<void> {
+      records.set(record.batch.id, JSON.parse(JSON.stringify(record)));
+    },
+    async list(): Promise<MessageBatchRecord[]> {
+      return [...records.values()].map(copy);
+    },
+    async cancel(id: string, canceledAt: string): Promise<void> {
+      cancels.set(id, canceledAt);
+    },
+    async getCancelTime(id: string): Promise<string | null> {
+      return cancels.get(id) || null;
+    },
+    async getRequests(id: string): Promise<MessageBatchRequest[]> {
+      return requests.get(id) || [];
+    },
+    async putResult(id: string, line: MessageBatchResultLine): Promise<void> {
+      results.get(id)?.set(line.custom_id, line);
+    },
+    async getResults(id: string): Promise<MessageBatchResultLine[]> {
+      return [...(results.get(id)?.values() || [])];
+    }
+  };
+}
+
+function createKVBatchStore(kv: KVNamespace): BatchStore {
+  const options = { expirationTtl: BATCH_RETENTION_SECONDS };
+  
+  // The record rides along as metadata so list() needs no extra reads; a cancel
+  // shows there once the processing loop has saved it
+  const putRecord = (record: MessageBatchRecord): Promise<void> =>
+    kv.put(`${BATCH_KV_PREFIX}${record.batch.id}`, JSON.stringify(record), { ...options, metadata: record });
+  
+  return {
+    async create(record: MessageBatchRecord, requests: MessageBatchRequest[]): Promise<void> {
+      await kv.put(`${BATCH_REQUESTS_KV_PREFIX}${record.batch.id}`, JSON.stringify(requests), options);
+      await putRecord(record);
+    },
+    async get(id: string): Promise<MessageBatchRecord | null> {
+      const [record, canceledAt] = await Promise.all([
+        kv.get<MessageBatchRecord>(`${BATCH_KV_PREFIX}${id}`, 'json'),
+        kv.get(`${BATCH_CANCEL_KV_PREFIX}${id}`)
+      ]);
+      return record ? markCanceling(record, canceledAt) : null;
+    },
+    update: putRecord,
+    // Written once by the cancel request and only read by the processing loop
+    async cancel(id: string, canceledAt: string): Promise<void> {
+      await kv.put(`${BATCH_CANCEL_KV_PREFIX}${id}`, canceledAt, options);
+    },
+    async getCancelTime(id: string): Promise<string | null> {
+      return await kv.get(`${BATCH_CANCEL_KV_PREFIX}${id}`);
+    },
+    async list(): Promise<MessageBatchRecord[]> {
+      const records: MessageBatchRecord[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await kv.list<MessageBatchRecord>({ prefix: BATCH_KV_PREFIX, cursor });
+        page.keys.forEach(key => {
+          if (key.metadata) records.push(key.metadata);
+        });
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+      return records;
+    },
+    async getRequests(id: string): Promise<MessageBatchRequest[]> {
+      return await kv.get<MessageBatchRequest[]>(`${BATCH_REQUESTS_KV_PREFIX}${id}`, 'json') || [];
+    },
+    async putResult(id: string, line: MessageBatchResultLine): Promise<void> {
+      // One key per result, so concurrent requests never overwrite each other
+      await kv.put(`${BATCH_RESULTS_KV_PREFIX}${id}:${line.custom_id}`, JSON.stringify(line), options);
+    },
+    async getResults(id: string): Promise<MessageBatchResultLine[]> {
+      const names: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await kv.list({ prefix: `${BATCH_RESULTS_KV_PREFIX}${id}:`, cursor });
+        names.push(...page.keys.map(key => key.name));
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+      
+      const lines = await Promise.all(names.map(name => kv.get<MessageBatchResultLine>(name, 'json')));
+      return lines.filter((line): line is MessageBatchResultLine => line !== null);
+    }
+  };
+}
+
+// Without BATCHES_KV a batch can only be polled from the isolate that created it
+const batchStores = createStoreSelector(createMemoryBatchStore, createKVBatchStore);
+
+function getBatchStore(env: Env): BatchStore {
+  return batchStores.get(env.BATCHES_KV);
+}
+
+function resetBatchStore(): void {
+  batchStores.reset();
+}
+
+function getBatchConcurrency(env: Env): number {
+  const concurrency = Number(env.BATCH_CONCURRENCY);
+  return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_BATCH_CONCURRENCY;
+}
+
+// Unfinished batches whose processing loop has gone away
+function needsProcessing(record: MessageBatchRecord, now = Date.now()): boolean {
+  return record.batch.processing_status !== 'ended' && record.leaseExpiresAt <= now;
+}
+
+/**
+ * Runs every request of a batch that has no result yet, `concurrency` at a time.
+ * Cancellation is picked up from the store between requests; the rest of the
+ * batch is then recorded as canceled, or as expired once expires_at has passed.
+ * Progress is saved at most every BATCH_PROGRESS_INTERVAL_MS, and a failed save
+ * only delays it: requests whose result could not be stored are rerun by the next poll
+ */
+async function processMessageBatch(
+  id: string,
+  store: BatchStore,
+  runRequest: BatchRequestRunner,
+  concurrency = DEFAULT_BATCH_CONCURRENCY
+): Promise<void> {
+  const record = await store.get(id);
+  if (!record || !needsProcessing(record)) return;
+  
+  const batch = record.batch;
+  record.leaseExpiresAt = Date.now() + BATCH_LEASE_MS;
+  await store.update(record);
+  
+  // Resumed loops skip requests an earlier one already finished
+  const requests = await store.getRequests(id);
+  const finished = await store.getResults(id);
+  const finishedIds = new Set(finished.map(line => line.custom_id));
+  const pending = requests.filter(request => !finishedIds.has(request.custom_id));
+  
+  const counts = { processing: pending.length, succeeded: 0, errored: 0, canceled: 0, expired: 0 };
+  finished.forEach(line => counts[line.result.type]++);
+  batch.request_counts = counts;
+  
+  // Cancellation has its own key and is checked before every request
+  const checkCancel = async (): Promise<void> => {
+    try {
+      markCanceling(record, await store.getCancelTime(id));
+    } catch (error) {
+      console.warn(`Batch ${id} cancellation not checked, retrying before the next request:`, error);
+    }
+  };
+  
+  // Progress saves run one at a time and at most every BATCH_PROGRESS_INTERVAL_MS
+  let saving: Promise<void> | null = null;
+  let lastSavedAt = Date.now();
+  const save = async (): Promise<void> => {
+    try {
+      record.leaseExpiresAt = Date.now() + BATCH_LEASE_MS;
+      await store.update(record);
+    } catch (error) {
+      console.warn(`Batch ${id} progress not saved, retrying with the next update:`, error);
+    } finally {
+      lastSavedAt = Date.now();
+    }
+  };
+  const sync = async (force = false): Promise<void> => {
+    if (saving) {
+      if (!force) return;
+      await saving;
+    } else if (!force && Date.now() - lastSavedAt < BATCH_PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    saving = save();
+    try {
+      await saving;
+    } finally {
+      saving = null;
+    }
+  };
+  
+  let unsaved = 0;
+  let next = 0;
+  const runNext = async (): Promise<void> => {
+    while (next < pending.length) {
+      const request = pending[next++];
+      await checkCancel();
+      
+      let result: MessageBatchResult;
+      if (batch.cancel_initiated_at) {
+        result = { type: 'canceled' };
+      } else if (Date.now() >= Date.parse(batch.expires_at)) {
+        result = { type: 'expired' };
+      } else {
+        try {
+          result = await runRequest(request.params);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown processing error';
+          result = { type: 'errored', error: { type: 'error', error: { type: 'api_error', message } } };
+        }
+      }
+      
+      try {
+        await store.putResult(id, { custom_id: request.custom_id, result });
+        counts.processing--;
+        counts[result.type]++;
+      } catch (error) {
+        console.warn(`Batch ${id} result for ${request.custom_id} not saved, it will be rerun:`, error);
+        unsaved++;
+      }
+      await sync();
+    }
+  };
+  
+  // Keeps the lease alive through upstream calls that outlast it
+  const heartbeat = setInterval(() => {
+    void sync();
+  }, BATCH_PROGRESS_INTERVAL_MS);
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, runNext));
+  } finally {
+    clearInterval(heartbeat);
+  }
+  await checkCancel();
+  await saving;
+  
+  // Leaving the batch open with an expired lease lets the next poll pick up what is missing
+  if (unsaved === 0) {
+    batch.processing_status = 'ended';
+    batch.ended_at = new Date().toISOString();
+  }
+  record.leaseExpiresAt = 0;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await store.update(record);
+      return;
+    } catch (error) {
+      // Most likely the write limit, right after a progress save
+      if (attempt >= 2) {
+        console.warn(`Batch ${id} could not be closed, the next poll will finish it:`, error);
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, BATCH_PROGRESS_INTERVAL_MS));
+    }
+  }
+}
+
+export {
+  BATCH_EXPIRY_MS,
+  BATCH_LEASE_MS,
+  MAX_BATCH_REQUESTS,
+  createBatchRecord,
+  validateBatchRequests,
+  createMemoryBatchStore,
+  createKVBatchStore,
+  getBatchStore,
+  resetBatchStore,
+  getBatchConcurrency,
+  needsProcessing,
+  markCanceling,
+  processMessageBatch
+};
@@ -0,0 +1,177 @@
+/**
+ * Prompt caching: Anthropic cache_control breakpoints backed by upstream cached contents
+ * Each cached prefix is keyed on a hash of the model, tools and messages it covers,
+ * and indexed in a PromptCacheStore (KV or in-memory) until the upstream cache expires
+ */
+
+import { createStoreSelector } from './store';
+import { estimateRequestTokens } from './tokenizer';
+import {
+  AnthropicResponse,
+  CacheBreakpoint,
+  Env,
+  GeminiRequest,
+  GeminiUsage,
+  PromptCacheEntry,
+  PromptCacheStore,
+  PromptCacheUse,
+  UpstreamProvider
+} from './types';
+
+const PROMPT_CACHE_KV_PREFIX = 'prompt-cache:';
+
+const CACHE_TTL_SECONDS: Record<CacheBreakpoint['ttl'], number> = {
+  '5m': 5 * 60,
+  '1h': 60 * 60
+};
+
+// Gemini refuses to cache less than this, so smaller prefixes are not worth a round trip
+const MIN_CACHE_TOKENS = 1024;
+
+// Entries this close to expiring are treated as gone
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+function createMemoryPromptCacheStore(): PromptCacheStore {
+  const entries = new Map<string, PromptCacheEntry>();
+  
+  return {
+    async get(key: string): Promise<PromptCacheEntry | null> {
+      return entries.get(key) || null;
+    },
+    async put(key: string, entry: PromptCacheEntry): Promise<void> {
+      entries.set(key, entry);
+    }
+  };
+}
+
+function createKVPromptCacheStore(kv: KVNamespace): PromptCacheStore {
+  return {
+    async get(key: string): Promise<PromptCacheEntry | null> {
+      return await kv.get<PromptCacheEntry>(`${PROMPT_CACHE_KV_PREFIX}${key}`, 'json');
+    },
+    async put(key: string, entry: PromptCacheEntry): Promise<void> {
+      // KV drops the key with the upstream cache; its TTL floor is 60 seconds
+      const expirationTtl = Math.max(60, Math.ceil((entry.expiresAt - Date.now()) / 1000));
+      await kv.put(`${PROMPT_CACHE_KV_PREFIX}${key}`, JSON.stringify(entry), { expirationTtl });
+    }
+  };
+}
+
+// Without PROMPT_CACHE_KV a prefix cached by another isolate is not found, and gets uploaded again
+const promptCacheStores = createStoreSelector(createMemoryPromptCacheStore, createKVPromptCacheStore);
+
+function getPromptCacheStore(env: Env): PromptCacheStore {
+  return promptCacheStores.get(env.PROMPT_CACHE_KV);
+}
+
+function resetPromptCacheStore(): void {
+  promptCacheStores.reset();
+}
+
+async function getCachePrefixKey(geminiRequest: GeminiRequest, messageCount: number): Promise<string> {
+  const prefix = JSON.stringify({
+    model: geminiRequest.model,
+    tools: geminiRequest.tools || [],
+    tool_choice: geminiRequest.tool_choice || null,
+    messages: geminiRequest.messages.slice(0, messageCount)
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(prefix));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Breakpoints that leave at least one message to send and cover enough tokens to cache
+function getCacheableBreakpoints(geminiRequest: GeminiRequest): CacheBreakpoint[] {
+  return (geminiRequest.cache_breakpoints || []).filter(breakpoint =>
+    breakpoint.messageCount < geminiRequest.messages.length &&
+    estimateRequestTokens({ ...geminiRequest, messages: geminiRequest.messages.slice(0, breakpoint.messageCount) }) >= MIN_CACHE_TOKENS
+  );
+}
+
+/**
+ * Points the request at an upstream cache for its longest cached prefix, creating one
+ * for the last breakpoint when none is cached yet. Any failure leaves the request
+ * uncached; caching only ever saves tokens
+ */
+async function applyPromptCache(
+  geminiRequest: GeminiRequest,
+  provider: UpstreamProvider,
+  env: Env,
+  store: PromptCacheStore
+): Promise<PromptCacheUse | null> {
+  if (!provider.createCachedContent) return null;
+  
+  const breakpoints = getCacheableBreakpoints(geminiRequest);
+  if (breakpoints.length === 0) return null;
+  
+  try {
+    const keys = await Promise.all(breakpoints.map(breakpoint => getCachePrefixKey(geminiRequest, breakpoint.messageCount)));
+    
+    // Longest prefix first, as Anthropic looks for hits before writing
+    for (let i = breakpoints.length - 1; i >= 0; i--) {
+      const entry = await store.get(keys[i]);
+      if (!entry || entry.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) continue;
+      
+      // Hits keep the cache alive; past half its TTL it is extended upstream
+      const ttlSeconds = CACHE_TTL_SECONDS[breakpoints[i].ttl];
+      if (entry.expiresAt - Date.now() < ttlSeconds * 500 && provider.extendCachedContent) {
+        const expiresAt = await provider.extendCachedContent(entry.name, ttlSeconds, env);
+        if (!expiresAt) continue;
+        await store.put(keys[i], { ...entry, expiresAt });
+      }
+      
+      return useCache(geminiRequest, entry, breakpoints[i].messageCount, false);
+    }
+    
+    const last = breakpoints[breakpoints.length - 1];
+    const entry = await provider.createCachedContent(geminiRequest, last.messageCount, CACHE_TTL_SECONDS[last.ttl], env);
+    if (!entry) return null;
+    
+    await store.put(keys[keys.length - 1], entry);
+    return useCache(geminiRequest, entry, last.messageCount, true);
+  } catch (error) {
+    console.warn('Prompt cache unavailable, sending the full prompt:', error);
+    return null;
+  }
+}
+
+function useCache(geminiRequest: GeminiRequest, entry: PromptCacheEntry, messageCount: number, created: boolean): PromptCacheUse {
+  geminiRequest.cached_content = { name: entry.name, messageCount, model: geminiRequest.model };
+  return { name: entry.name, messageCount, tokens: entry.tokens, created };
+}
+
+/**
+ * Splits upstream prompt tokens into Anthropic's uncached input, cache writes and cache reads.
+ * Cache fields only appear when the request used caching or the upstream reported cached tokens
+ */
+function convertCacheUsage(usage: GeminiUsage | null | undefined, promptCache: PromptCacheUse | null): Pick<
+  AnthropicResponse['usage'],
+  'input_tokens' | 'cache_creation_input_tokens' | 'cache_read_input_tokens'
+> {
+  const promptTokens = usage?.prompt_tokens || 0;
+  const reportedTokens = usage?.prompt_tokens_details?.cached_tokens;
+  const cachedTokens = Math.min(promptTokens, reportedTokens ?? promptCache?.tokens ?? 0);
+  
+  if (!promptCache && !cachedTokens) {
+    return { input_tokens: promptTokens };
+  }
+  
+  return {
+    input_tokens: promptTokens - cachedTokens,
+    cache_creation_input_tokens: promptCache?.created ? cachedTokens : 0,
+    cache_read_input_tokens: promptCache?.created ? 0 : cachedTokens
+  };
+}
+
+export {
+  CACHE_TTL_SECONDS,
+  MIN_CACHE_TOKENS,
+  createMemoryPromptCacheStore,
+  createKVPromptCacheStore,
+  getPromptCacheStore,
+  resetPromptCacheStore,
+  getCachePrefixKey,
+  applyPromptCache,
+  convertCacheUsage
+};
@@ -0,0 +1,136 @@
+/**
+ * Legacy Text Completions: Human/Assistant prompts become AnthropicRequests for the
+ * /v1/messages pipeline, and its messages and stream events are rewritten as completions
+ */
+
+import {
+  AnthropicMessage,
+  AnthropicRequest,
+  AnthropicResponse,
+  AnthropicStreamChunk,
+  AnthropicStreamTranslator,
+  CompletionRequest,
+  CompletionResponse,
+  ConversionResult,
+  MessagesApiAdapter
+} from './types';
+
+const TURN_PATTERN = /\n\nHuman:|\n\nAssistant:/g;
+
+function mapStopReason(stopReason: AnthropicResponse['stop_reason']): CompletionResponse['stop_reason'] {
+  return stopReason === 'max_tokens' ? 'max_tokens' : 'stop_sequence';
+}
+
+/**
+ * Splits a prompt into Human and Assistant turns. Text before the first Human turn
+ * is the system prompt; text after the final "\n\nAssistant:" prefills the answer
+ */
+function parseCompletionPrompt(prompt: unknown): ConversionResult<Pick<AnthropicRequest, 'system' | 'messages'>> {
+  if (typeof prompt !== 'string') {
+    return { success: false, error: 'Missing required field: prompt' };
+  }
+  
+  const markers = [...prompt.matchAll(TURN_PATTERN)];
+  if (markers[0]?.[0] !== '\n\nHuman:') {
+    return { success: false, error: 'prompt must contain a "\\n\\nHuman:" turn before any "\\n\\nAssistant:" turn' };
+  }
+  if (markers[markers.length - 1][0] !== '\n\nAssistant:') {
+    return { success: false, error: 'prompt must end with a "\\n\\nAssistant:" turn' };
+  }
+  
+  const messages: AnthropicMessage[] = [];
+  markers.forEach((marker, i) => {
+    const role = marker[0] === '\n\nHuman:' ? 'user' : 'assistant';
+    const text = prompt.slice(marker.index! + marker[0].length, markers[i + 1]?.index ?? prompt.length).trim();
+    if (!text) return;
+    
+    // Consecutive turns of one speaker are joined, as the Messages API needs alternating roles
+    const previous = messages[messages.length - 1];
+    if (previous?.role === role) {
+      previous.content = `${previous.content}\n\n${text}`;
+    } else {
+      messages.push({ role, content: text });
+    }
+  });
+  
+  const system = prompt.slice(0, markers[0].index).trim();
+  return { success: true, data: system ? { system, messages } : { messages } };
+}
+
+function convertCompletionToAnthropic(request: CompletionRequest): ConversionResult<AnthropicRequest> {
+  if (!request || typeof request !== 'object') {
+    return { success: false, error: 'Request body must be a JSON object' };
+  }
+  if (!Number.isInteger(request.max_tokens_to_sample) || request.max_tokens_to_sample < 1) {
+    return { success: false, error: 'Missing required field: max_tokens_to_sample' };
+  }
+  
+  const prompt = parseCompletionPrompt(request.prompt);
+  if (!prompt.success || !prompt.data) {
+    return { success: false, error: prompt.error };
+  }
+  
+  const anthropicRequest: AnthropicRequest = {
+    model: request.model,
+    ...prompt.data,
+    max_tokens: request.max_tokens_to_sample,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    stream: request.stream
+  };
+  if (request.stop_sequences?.length) {
+    anthropicRequest.stop_sequences = request.stop_sequences;
+  }
+  
+  return { success: true, data: anthropicRequest };
+}
+
+function convertAnthropicToCompletion(response: AnthropicResponse, model: string = response.model): CompletionResponse {
+  return {
+    type: 'completion',
+    id: response.id.replace(/^msg_/, 'compl_'),
+    completion: response.content.filter(block => block.type === 'text').map(block => block.text || '').join(''),
+    stop_reason: mapStopReason(response.stop_reason),
+    stop: response.stop_sequence,
+    model
+  };
+}
+
+// Legacy `completion` events: one per text delta, then one carrying the stop_reason
+function createCompletionStreamTranslator(model: string): AnthropicStreamTranslator {
+  const frame = (type: string, data: unknown): string => `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  
+  let id = `compl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const completion = (text: string, stopReason: CompletionResponse['stop_reason'] = null, stop: string | null = null): string =>
+    frame('completion', { type: 'completion', id, completion: text, stop_reason: stopReason, stop, model });
+  
+  return {
+    translate(event: AnthropicStreamChunk): string[] {
+      if (event.type === 'message_start' && event.message?.id) {
+        id = event.message.id.replace(/^msg_/, 'compl_');
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        return [completion(event.delta.text)];
+      } else if (event.type === 'message_delta') {
+        return [completion('', mapStopReason(event.delta?.stop_reason || null), event.delta?.stop_sequence || null)];
+      }
+      return [];
+    },
+    finish: () => [],
+    error: error => frame('error', { type: 'error', error })
+  };
+}
+
+const completionAdapter: MessagesApiAdapter<CompletionRequest> = {
+  path: '/v1/complete',
+  convertRequest: convertCompletionToAnthropic,
+  convertResponse: (response, request) => convertAnthropicToCompletion(response, request.model),
+  createStreamTranslator: request => createCompletionStreamTranslator(request.model)
+};
+
+export {
+  parseCompletionPrompt,
+  convertCompletionToAnthropic,
+  convertAnthropicToCompletion,
+  createCompletionStreamTranslator,
+  completionAdapter
+};
@@ -0,0 +1,139 @@
+/**
+ * Upstream error classification
+ * Maps OpenAI-compatible and Google error responses onto Anthropic error types and status codes
+ */
+
+import { AnthropicErrorType, ApiError, ClassifiedError } from './types';
+
+// Google RPC status names, which both the native API and its OpenAI layer return
+const GOOGLE_STATUS_MAPPING: Record<string, { type: AnthropicErrorType; status: number }> = {
+  INVALID_ARGUMENT: { type: 'invalid_request_error', status: 400 },
+  FAILED_PRECONDITION: { type: 'invalid_request_error', status: 400 },
+  OUT_OF_RANGE: { type: 'invalid_request_error', status: 400 },
+  UNAUTHENTICATED: { type: 'authentication_error', status: 401 },
+  PERMISSION_DENIED: { type: 'permission_error', status: 403 },
+  NOT_FOUND: { type: 'not_found_error', status: 404 },
+  RESOURCE_EXHAUSTED: { type: 'rate_limit_error', status: 429 },
+  UNAVAILABLE: { type: 'overloaded_error', status: 529 },
+  DEADLINE_EXCEEDED: { type: 'api_error', status: 504 },
+  INTERNAL: { type: 'api_error', status: 500 }
+};
+
+const MAX_MESSAGE_LENGTH = 500;
+
+function classifyStatus(status: number): { type: AnthropicErrorType; status: number } {
+  switch (status) {
+    case 400:
+    case 422:
+      return { type: 'invalid_request_error', status: 400 };
+    case 401:
+      return { type: 'authentication_error', status: 401 };
+    case 403:
+      return { type: 'permission_error', status: 403 };
+    case 404:
+      return { type: 'not_found_error', status: 404 };
+    case 413:
+      return { type: 'request_too_large', status: 413 };
+    case 429:
+      return { type: 'rate_limit_error', status: 429 };
+    case 503:
+    case 529:
+      return { type: 'overloaded_error', status: 529 };
+    default:
+      return status >= 400 && status < 500
+        ? { type: 'invalid_request_error', status: 400 }
+        : { type: 'api_error', status: status === 504 ? 504 : 500 };
+  }
+}
+
+function parseErrorBody(bodyText: string): { message?: string; googleStatus?: string; retryDelay?: string } {
+  let body: any;
+  try {
+    body = JSON.parse(bodyText);
+  } catch {
+    return { message: bodyText.trim() || undefined };
+  }
+  
+  // Google wraps errors as a one-element array in some streaming responses
+  const payload = Array.isArray(body) ? body[0] : body;
+  const error = payload?.error ?? payload;
+  
+  if (typeof error === 'string') {
+    return { message: error };
+  }
+  
+  const retryInfo = Array.isArray(error?.details)
+    ? error.details.find((detail: any) => typeof detail?.retryDelay === 'string')
+    : undefined;
+  
+  return {
+    message: error?.message ?? payload?.message ?? payload?.detail,
+    googleStatus: typeof error?.status === 'string' ? error.status : undefined,
+    retryDelay: retryInfo?.retryDelay
+  };
+}
+
+function parseRetryDelay(retryDelay: string | undefined): string | undefined {
+  // Google reports delays as durations such as "27s" or "1.5s"
+  const seconds = retryDelay?.match(/^(\d+(?:\.\d+)?)s$/);
+  return seconds ? String(Math.ceil(Number(seconds[1]))) : undefined;
+}
+
+function defaultMessage(type: AnthropicErrorType, status: number): string {
+  switch (type) {
+    case 'rate_limit_error':
+      return 'Upstream rate limit exceeded';
+    case 'overloaded_error':
+      return 'Upstream model is overloaded';
+    case 'authentication_error':
+      return 'Upstream rejected the adapter credentials';
+    case 'request_too_large':
+      return 'Request exceeds the upstream size limit';
+    default:
+      return `Gemini API error: ${status}`;
+  }
+}
+
+function classifyUpstreamError(status: number, bodyText: string, headers?: Headers): ClassifiedError {
+  const parsed = parseErrorBody(bodyText);
+  const mapped = (parsed.googleStatus && GOOGLE_STATUS_MAPPING[parsed.googleStatus]) || classifyStatus(status);
+  
+  let message = parsed.message || defaultMessage(mapped.type, status);
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    message = `${message.slice(0, MAX_MESSAGE_LENGTH)}...`;
+  }
+  
+  const retryAfter = headers?.get('retry-after') || parseRetryDelay(parsed.retryDelay);
+  
+  return {
+    type: mapped.type,
+    message,
+    status: mapped.status,
+    retryAfter: retryAfter || undefined
+  };
+}
+
+// Upstreams report mid-stream failures as a data payload with an error object
+function extractStreamError(data: string): ApiError | null {
+  let payload: any;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  
+  const body = Array.isArray(payload) ? payload[0] : payload;
+  if (!body || typeof body !== 'object' || !body.error) {
+    return null;
+  }
+  
+  const status = typeof body.error.code === 'number' ? body.error.code : 500;
+  const classified = classifyUpstreamError(status, data);
+  
+  return { type: classified.type, message: classified.message };
+}
+
+export {
+  classifyUpstreamError,
+  extractStreamError
+};
@@ -0,0 +1,409 @@
+/**
+ * MCP connector: connects to a request's mcp_servers, lists their tools and runs the model's calls
+ * Speaks Streamable HTTP, falling back to the older HTTP+SSE transport for servers that only offer that
+ */
+
+import {
+  AnthropicContent,
+  AnthropicMCPServer,
+  ConversionResult,
+  GeminiToolCall,
+  JsonRpcMessage,
+  MCPConnection,
+  MCPSession,
+  MCPTool,
+  MCPToolResult,
+  MCPTransport
+} from './types';
+
+const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+const MCP_CLIENT_INFO = { name: 'anthropic-gemini-adapter', version: '1.0.0' };
+
+// Per JSON-RPC round trip; a stuck server fails the request instead of hanging it
+const MCP_REQUEST_TIMEOUT_MS = 30000;
+
+// Upstream turns that may call MCP tools before the model is made to answer
+const MAX_MCP_TOOL_TURNS = 10;
+
+class MCPError extends Error {
+  // HTTP status of the failed exchange, when there was one
+  status?: number;
+  
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'MCPError';
+    this.status = status;
+  }
+}
+
+function validateMCPServers(servers: unknown): ConversionResult<void> {
+  if (!Array.isArray(servers)) {
+    return { success: false, error: 'mcp_servers must be an array' };
+  }
+  
+  const names = new Set<string>();
+  for (const [index, server] of servers.entries()) {
+    const location = `mcp_servers[${index}]`;
+    if (!server || typeof server !== 'object') {
+      return { success: false, error: `${location} must be an object` };
+    }
+    if (server.type !== 'url') {
+      return { success: false, error: `${location}.type must be "url"` };
+    }
+    if (typeof server.url !== 'string' || !/^https?:\/\/\S+$/i.test(server.url)) {
+      return { success: false, error: `${location}.url must be an http(s) URL` };
+    }
+    if (typeof server.name !== 'string' || !server.name) {
+      return { success: false, error: `${location}.name must be a non-empty string` };
+    }
+    if (names.has(server.name)) {
+      return { success: false, error: `${location}.name "${server.name}" is used by more than one server` };
+    }
+    if (server.authorization_token !== undefined && typeof server.authorization_token !== 'string') {
+      return { success: false, error: `${location}.authorization_token must be a string` };
+    }
+    const allowedTools = server.tool_configuration?.allowed_tools;
+    if (allowedTools !== undefined && (!Array.isArray(allowedTools) || !allowedTools.every((tool: unknown) => typeof tool === 'string'))) {
+      return { success: false, error: `${location}.tool_configuration.allowed_tools must be an array of tool names` };
+    }
+    names.add(server.name);
+  }
+  
+  return { success: true };
+}
+
+function getAuthHeaders(server: AnthropicMCPServer): Record<string, string> {
+  return server.authorization_token ? { Authorization: `Bearer ${server.authorization_token}` } : {};
+}
+
+function parseSSEEvent(block: string): { event: string; data: string } {
+  let event = 'message';
+  const data: string[] = [];
+  
+  block.split(/\r?\n/).forEach(line => {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  });
+  
+  return { event, data: data.join('\n') };
+}
+
+function parseJsonRpcMessages(data: string): JsonRpcMessage[] {
+  try {
+    const parsed = JSON.parse(data) as JsonRpcMessage | JsonRpcMessage[];
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return [];
+  }
+}
+
+function unwrapResult(message: JsonRpcMessage | undefined, method: string): unknown {
+  if (!message) {
+    throw new MCPError(`${method} got no response`);
+  }
+  if (message.error) {
+    throw new MCPError(`${method} failed: ${message.error.message}`);
+  }
+  return message.result;
+}
+
+function createStreamableHttpTransport(server: AnthropicMCPServer): MCPTransport {
+  let sessionId: string | null = null;
+  let nextId = 1;
+  
+  const post = async (message: JsonRpcMessage): Promise<Response> => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...getAuthHeaders(server)
+    };
+    if (sessionId) {
+      headers['Mcp-Session-Id'] = sessionId;
+    }
+    
+    const response = await fetch(server.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(MCP_REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new MCPError(`${message.method} returned HTTP ${response.status}`, response.status);
+    }
+    
+    sessionId = response.headers.get('mcp-session-id') || sessionId;
+    return response;
+  };
+  
+  return {
+    async request(method: string, params?: Record<string, unknown>): Promise<unknown> {
+      const id = nextId++;
+      const response = await post({ jsonrpc: '2.0', id, method, params });
+      const body = await response.text();
+      
+      // The server may answer with plain JSON or a short SSE stream ending in the response
+      const messages = (response.headers.get('content-type') || '').includes('text/event-stream')
+        ? body.split(/\r?\n\r?\n/).flatMap(block => parseJsonRpcMessages(parseSSEEvent(block).data))
+        : parseJsonRpcMessages(body);
+      
+      return unwrapResult(messages.find(message => message.id === id), method);
+    },
+    async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+      await post({ jsonrpc: '2.0', method, params });
+    },
+    async close(): Promise<void> {
+      if (!sessionId) return;
+      try {
+        await fetch(server.url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId, ...getAuthHeaders(server) } });
+      } catch (error) {
+        console.warn(`Failed to close MCP session with ${server.name}:`, error);
+      }
+    }
+  };
+}
+
+function createSSEReader(body: ReadableStream): { next(): Promise<{ event: string; data: string } | null>; cancel(): Promise<void> } {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  
+  return {
+    async next(): Promise<{ event: string; data: string } | null> {
+      let boundary = buffer.match(/\r?\n\r?\n/);
+      while (!boundary) {
+        const { done, value } = await reader.read();
+        if (done) return null;
+        buffer += decoder.decode(value, { stream: true });
+        boundary = buffer.match(/\r?\n\r?\n/);
+      }
+      
+      const block = buffer.slice(0, boundary.index);
+      buffer = buffer.slice(boundary.index! + boundary[0].length);
+      return parseSSEEvent(block);
+    },
+    async cancel(): Promise<void> {
+      await reader.cancel();
+    }
+  };
+}
+
+// The SSE stream stays open for the whole session, so each wait on it gets its own deadline instead of a fetch signal
+async function withTimeout<T>(task: Promise<T>, message: string, onTimeout: () => void): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onTimeout();
+      reject(new MCPError(`${message} timed out after ${MCP_REQUEST_TIMEOUT_MS}ms`));
+    }, MCP_REQUEST_TIMEOUT_MS);
+  });
+  
+  try {
+    return await Promise.race([task, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// HTTP+SSE (protocol 2024-11-05): responses arrive on a GET stream, requests are POSTed to the endpoint it names
+async function openLegacySSETransport(server: AnthropicMCPServer): Promise<MCPTransport> {
+  const controller = new AbortController();
+  let events: ReturnType<typeof createSSEReader> | undefined;
+  
+  const connect = async (): Promise<string> => {
+    const response = await fetch(server.url, {
+      method: 'GET',
+      headers: { Accept: 'text/event-stream', ...getAuthHeaders(server) },
+      signal: controller.signal
+    });
+    if (!response.ok || !response.body) {
+      throw new MCPError(`SSE connection returned HTTP ${response.status}`, response.status);
+    }
+    
+    events = createSSEReader(response.body);
+    let event = await events.next();
+    while (event && event.event !== 'endpoint') {
+      event = await events.next();
+    }
+    if (!event) {
+      throw new MCPError('SSE stream closed before naming its message endpoint');
+    }
+    return event.data;
+  };
+  
+  const endpoint = new URL(await withTimeout(connect(), 'SSE connection', () => controller.abort()), server.url).toString();
+  const stream = events!;
+  let nextId = 1;
+  
+  const send = async (message: JsonRpcMessage): Promise<void> => {
+    const posted = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(server) },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(MCP_REQUEST_TIMEOUT_MS)
+    });
+    if (!posted.ok) {
+      throw new MCPError(`${message.method} returned HTTP ${posted.status}`, posted.status);
+    }
+  };
+  
+  const awaitReply = async (id: number, method: string): Promise<unknown> => {
+    for (let next = await stream.next(); next; next = await stream.next()) {
+      const message = next.event === 'message' ? parseJsonRpcMessages(next.data).find(candidate => candidate.id === id) : undefined;
+      if (message) return unwrapResult(message, method);
+    }
+    throw new MCPError(`SSE stream closed before ${method} was answered`);
+  };
+  
+  return {
+    async request(method: string, params?: Record<string, unknown>): Promise<unknown> {
+      const id = nextId++;
+      await send({ jsonrpc: '2.0', id, method, params });
+      // A reply that never comes leaves a read pending on the stream, so the session cannot be reused
+      return await withTimeout(awaitReply(id, method), method, () => void stream.cancel().catch(() => undefined));
+    },
+    notify: (method: string, params?: Record<string, unknown>) => send({ jsonrpc: '2.0', method, params }),
+    close: () => stream.cancel()
+  };
+}
+
+async function initialize(transport: MCPTransport): Promise<void> {
+  await transport.request('initialize', {
+    protocolVersion: MCP_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: MCP_CLIENT_INFO
+  });
+  await transport.notify('notifications/initialized');
+}
+
+async function listTools(transport: MCPTransport): Promise<MCPTool[]> {
+  const tools: MCPTool[] = [];
+  let cursor: string | undefined;
+  
+  do {
+    const page = await transport.request('tools/list', cursor ? { cursor } : undefined) as { tools?: MCPTool[]; nextCursor?: string };
+    tools.push(...(page?.tools || []));
+    cursor = page?.nextCursor;
+  } while (cursor);
+  
+  return tools;
+}
+
+async function connectMCPServer(server: AnthropicMCPServer): Promise<MCPConnection> {
+  let transport = createStreamableHttpTransport(server);
+  
+  try {
+    await initialize(transport);
+  } catch (error) {
+    if (!(error instanceof MCPError) || (error.status !== 404 && error.status !== 405)) {
+      throw error;
+    }
+    // Servers that predate Streamable HTTP reject the POST; retry over HTTP+SSE
+    transport = await openLegacySSETransport(server);
+    await initialize(transport);
+  }
+  
+  const allowedTools = server.tool_configuration?.allowed_tools;
+  const tools = (await listTools(transport)).filter(tool => !allowedTools || allowedTools.includes(tool.name));
+  
+  return {
+    server: server.name,
+    tools,
+    callTool: async (name, input) => await transport.request('tools/call', { name, arguments: input }) as MCPToolResult,
+    close: () => transport.close()
+  };
+}
+
+async function closeMCPSession(session: MCPSession): Promise<void> {
+  await Promise.all(session.connections.map(connection => connection.close()));
+}
+
+/**
+ * Connects to every enabled server and indexes their tools by name.
+ * Throws MCPError when a server is unreachable or two servers offer the same tool
+ */
+async function connectMCPServers(servers: AnthropicMCPServer[]): Promise<MCPSession> {
+  const enabled = servers.filter(server => server.tool_configuration?.enabled !== false);
+  const settled = await Promise.allSettled(enabled.map(connectMCPServer));
+  
+  const session: MCPSession = { connections: [], tools: new Map() };
+  settled.forEach(result => {
+    if (result.status === 'fulfilled') session.connections.push(result.value);
+  });
+  
+  const failedIndex = settled.findIndex(result => result.status === 'rejected');
+  if (failedIndex !== -1) {
+    await closeMCPSession(session);
+    const error = (settled[failedIndex] as PromiseRejectedResult).reason;
+    const reason = error instanceof Error ? error.message : 'connection failed';
+    throw new MCPError(`Failed to connect to MCP server "${enabled[failedIndex].name}": ${reason}`);
+  }
+  
+  for (const connection of session.connections) {
+    for (const tool of connection.tools) {
+      const existing = session.tools.get(tool.name);
+      if (existing) {
+        await closeMCPSession(session);
+        throw new MCPError(`MCP tool "${tool.name}" is offered by both "${existing.connection.server}" and "${connection.server}"`);
+      }
+      session.tools.set(tool.name, { connection, tool });
+    }
+  }
+  
+  return session;
+}
+
+function convertMCPContent(content: MCPToolResult['content']): AnthropicContent[] {
+  return (content || []).map(item => {
+    if (item.type === 'text') {
+      return { type: 'text', text: item.text || '' };
+    }
+    if (item.type === 'image' && item.data) {
+      return { type: 'image', source: { type: 'base64', media_type: item.mimeType || 'image/png', data: item.data } };
+    }
+    if (item.type === 'resource' && item.resource?.text !== undefined) {
+      return { type: 'text', text: item.resource.text };
+    }
+    return { type: 'text', text: JSON.stringify(item) };
+  });
+}
+
+/**
+ * Runs one model tool call against its MCP server and returns the matching
+ * mcp_tool_use and mcp_tool_result blocks. Tool failures become error results
+ */
+async function callMCPTool(session: MCPSession, toolCall: GeminiToolCall): Promise<[AnthropicContent, AnthropicContent]> {
+  const { connection } = session.tools.get(toolCall.function.name)!;
+  const id = `mcptoolu_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  
+  let input: Record<string, any> = {};
+  let result: AnthropicContent;
+  try {
+    input = JSON.parse(toolCall.function.arguments || '{}');
+    const output = await connection.callTool(toolCall.function.name, input);
+    result = { type: 'mcp_tool_result', tool_use_id: id, is_error: Boolean(output?.isError), content: convertMCPContent(output?.content) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'MCP tool call failed';
+    result = { type: 'mcp_tool_result', tool_use_id: id, is_error: true, content: [{ type: 'text', text: message }] };
+  }
+  
+  return [
+    { type: 'mcp_tool_use', id, name: toolCall.function.name, server_name: connection.server, input },
+    result
+  ];
+}
+
+export {
+  MAX_MCP_TOOL_TURNS,
+  MCP_REQUEST_TIMEOUT_MS,
+  MCPError,
+  validateMCPServers,
+  parseSSEEvent,
+  connectMCPServer,
+  connectMCPServers,
+  closeMCPSession,
+  callMCPTool
+};
@@ -0,0 +1,308 @@
+/**
+ * Inbound OpenAI Chat Completions: requests become AnthropicRequests for the /v1/messages
+ * pipeline, and its messages and stream events are rewritten as chat completions and chunks
+ */
+
+import {
+  AnthropicContent,
+  AnthropicMessage,
+  AnthropicRequest,
+  AnthropicResponse,
+  AnthropicStreamChunk,
+  AnthropicStreamTranslator,
+  AnthropicTool,
+  AnthropicToolChoice,
+  ConversionResult,
+  GeminiChoice,
+  GeminiResponse,
+  GeminiStreamChunk,
+  GeminiToolCall,
+  GeminiUsage,
+  MessagesApiAdapter,
+  OpenAIChatContentPart,
+  OpenAIChatMessage,
+  OpenAIChatRequest,
+  OpenAIStreamState
+} from './types';
+
+// OpenAI makes max_tokens optional; Anthropic requires it
+const DEFAULT_MAX_TOKENS = 4096;
+
+const FINISH_REASONS: Record<NonNullable<AnthropicResponse['stop_reason']>, NonNullable<GeminiChoice['finish_reason']>> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls'
+};
+
+function getMessageText(content: OpenAIChatMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return (content || []).map(part => part.text || '').join('');
+}
+
+function convertContentPart(part: OpenAIChatContentPart): AnthropicContent | null {
+  if (part.type === 'text') {
+    return { type: 'text', text: part.text || '' };
+  }
+  if (part.type !== 'image_url' || !part.image_url?.url) return null;
+  
+  const dataUri = part.image_url.url.match(/^data:([^;,]+);base64,(.*)$/);
+  return dataUri
+    ? { type: 'image', source: { type: 'base64', media_type: dataUri[1], data: dataUri[2] } }
+    : { type: 'image', source: { type: 'url', url: part.image_url.url } };
+}
+
+function parseToolArguments(args: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function convertToolChoice(request: OpenAIChatRequest): AnthropicToolChoice | undefined {
+  const parallel = request.parallel_tool_calls === false ? { disable_parallel_tool_use: true } : {};
+  const toolChoice = request.tool_choice;
+  
+  if (toolChoice === 'none') return { type: 'none' };
+  if (toolChoice === 'required') return { type: 'any', ...parallel };
+  if (toolChoice && typeof toolChoice === 'object') return { type: 'tool', name: toolChoice.function?.name, ...parallel };
+  if (toolChoice === 'auto' || request.parallel_tool_calls === false) return { type: 'auto', ...parallel };
+  return undefined;
+}
+
+/**
+ * Rewrites a chat completions request as the equivalent Messages request.
+ * System and developer messages become the system prompt, tool messages
+ * tool_result blocks, and consecutive same-role turns are merged
+ */
+function convertOpenAIToAnthropic(request: OpenAIChatRequest): ConversionResult<AnthropicRequest> {
+  if (!request || !Array.isArray(request.messages)) {
+    return { success: false, error: 'messages must be an array' };
+  }
+  if (request.n !== undefined && request.n !== null && request.n !== 1) {
+    return { success: false, error: 'n: only a single choice is supported' };
+  }
+  
+  const system: string[] = [];
+  const messages: AnthropicMessage[] = [];
+  const append = (role: AnthropicMessage['role'], blocks: AnthropicContent[]): void => {
+    if (blocks.length === 0) return;
+    
+    const previous = messages[messages.length - 1];
+    if (previous && previous.role === role) {
+      (previous.content as AnthropicContent[]).push(...blocks);
+    } else {
+      messages.push({ role, content: blocks });
+    }
+  };
+  
+  for (let i = 0; i < request.messages.length; i++) {
+    const message = request.messages[i];
+    const parts = typeof message.content === 'string'
+      ? [{ type: 'text' as const, text: message.content }]
+      : message.content || [];
+    
+    const unsupported = parts.find(part => part.type !== 'text' && part.type !== 'image_url');
+    if (unsupported) {
+      return { success: false, error: `messages[${i}].content: "${unsupported.type}" parts are not supported` };
+    }
+    
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        system.push(getMessageText(message.content));
+        break;
+      case 'user':
+        append('user', parts.map(convertContentPart).filter((block): block is AnthropicContent => block !== null && block.text !== ''));
+        break;
+      case 'assistant':
+        append('assistant', [
+          ...parts.map(convertContentPart).filter((block): block is AnthropicContent => block !== null && block.text !== ''),
+          ...(message.tool_calls || []).map(toolCall => ({
+            type: 'tool_use' as const,
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: parseToolArguments(toolCall.function.arguments)
+          }))
+        ]);
+        break;
+      case 'tool':
+        if (!message.tool_call_id) {
+          return { success: false, error: `messages[${i}].tool_call_id is required for tool messages` };
+        }
+        append('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: getMessageText(message.content) }]);
+        break;
+      default:
+        return { success: false, error: `messages[${i}].role "${(message as OpenAIChatMessage).role}" is not supported` };
+    }
+  }
+  
+  const anthropicRequest: AnthropicRequest = {
+    model: request.model,
+    messages,
+    max_tokens: request.max_completion_tokens ?? request.max_tokens ?? DEFAULT_MAX_TOKENS,
+    // SDKs send null for unset options; OpenAI's temperature runs to 2, Anthropic's to 1
+    temperature: typeof request.temperature === 'number' ? Math.min(request.temperature, 1) : undefined,
+    top_p: request.top_p ?? undefined,
+    stream: request.stream ?? undefined
+  };
+  
+  if (system.length > 0) {
+    anthropicRequest.system = system.join('\n\n');
+  }
+  if (request.stop !== undefined && request.stop !== null) {
+    anthropicRequest.stop_sequences = Array.isArray(request.stop) ? request.stop : [request.stop];
+  }
+  if (request.tools?.length) {
+    anthropicRequest.tools = request.tools.map(tool => ({
+      name: tool.function?.name,
+      description: tool.function?.description || '',
+      input_schema: (tool.function?.parameters || { type: 'object', properties: {} }) as AnthropicTool['input_schema']
+    }));
+  }
+  
+  const toolChoice = convertToolChoice(request);
+  if (toolChoice) {
+    anthropicRequest.tool_choice = toolChoice;
+  }
+  
+  return { success: true, data: anthropicRequest };
+}
+
+// Cached prompt tokens are part of OpenAI's prompt_tokens
+function convertUsage(usage: Partial<AnthropicResponse['usage']>): GeminiUsage {
+  const promptTokens = (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0);
+  const completionTokens = usage.output_tokens || 0;
+  const converted: GeminiUsage = {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens
+  };
+  if (usage.cache_read_input_tokens !== undefined) {
+    converted.prompt_tokens_details = { cached_tokens: usage.cache_read_input_tokens };
+  }
+  return converted;
+}
+
+function convertAnthropicToOpenAI(response: AnthropicResponse, model: string = response.model): GeminiResponse {
+  const text = response.content.filter(block => block.type === 'text').map(block => block.text || '').join('');
+  const reasoning = response.content.filter(block => block.type === 'thinking').map(block => block.thinking || '').join('');
+  const toolCalls: GeminiToolCall[] = response.content
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id || '',
+      type: 'function',
+      function: { name: block.name || '', arguments: JSON.stringify(block.input || {}) }
+    }));
+  
+  const choice: GeminiChoice = {
+    index: 0,
+    message: { role: 'assistant', content: text || null },
+    finish_reason: response.stop_reason ? FINISH_REASONS[response.stop_reason] : 'stop'
+  };
+  if (reasoning) {
+    choice.message!.reasoning_content = reasoning;
+  }
+  if (toolCalls.length > 0) {
+    choice.message!.tool_calls = toolCalls;
+  }
+  
+  return {
+    id: response.id.replace(/^msg_/, 'chatcmpl-'),
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [choice],
+    usage: convertUsage(response.usage)
+  };
+}
+
+function createOpenAIStreamState(model: string, includeUsage = false): OpenAIStreamState {
+  return {
+    id: `chatcmpl-${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    model,
+    created: Math.floor(Date.now() / 1000),
+    includeUsage,
+    toolCallIndexes: new Map(),
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  };
+}
+
+function convertAnthropicStreamEvent(event: AnthropicStreamChunk, state: OpenAIStreamState): GeminiStreamChunk[] {
+  const chunk = (delta: GeminiChoice['delta'], finishReason?: GeminiChoice['finish_reason']): GeminiStreamChunk => ({
+    id: state.id,
+    object: 'chat.completion.chunk',
+    created: state.created,
+    model: state.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }]
+  });
+  
+  switch (event.type) {
+    case 'message_start':
+      state.usage = convertUsage(event.message?.usage || {});
+      return [chunk({ role: 'assistant', content: '' })];
+    case 'content_block_start': {
+      const block = event.content_block;
+      if (block?.type !== 'tool_use') return [];
+      
+      const index = state.toolCallIndexes.size;
+      state.toolCallIndexes.set(event.index ?? 0, index);
+      return [chunk({ tool_calls: [{ index, id: block.id, type: 'function', function: { name: block.name, arguments: '' } }] })];
+    }
+    case 'content_block_delta':
+      if (event.delta?.type === 'text_delta' && event.delta.text) {
+        return [chunk({ content: event.delta.text })];
+      }
+      if (event.delta?.type === 'thinking_delta' && event.delta.thinking) {
+        return [chunk({ reasoning_content: event.delta.thinking })];
+      }
+      if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+        const index = state.toolCallIndexes.get(event.index ?? 0) ?? 0;
+        return [chunk({ tool_calls: [{ index, function: { arguments: event.delta.partial_json } }] })];
+      }
+      return [];
+    case 'message_delta':
+      // The final counts replace the ones from message_start
+      if (event.usage) {
+        state.usage = convertUsage({ ...event.usage, input_tokens: event.usage.input_tokens ?? state.usage.prompt_tokens });
+      }
+      return [chunk({}, event.delta?.stop_reason ? FINISH_REASONS[event.delta.stop_reason] : 'stop')];
+    case 'message_stop':
+      return state.includeUsage
+        ? [{ id: state.id, object: 'chat.completion.chunk', created: state.created, model: state.model, choices: [], usage: state.usage }]
+        : [];
+    default:
+      return [];
+  }
+}
+
+// chat.completion.chunk events ending in [DONE]; an error ends the stream with an `error` object instead
+function createOpenAIStreamTranslator(state: OpenAIStreamState): AnthropicStreamTranslator {
+  const frame = (data: unknown): string => `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+  
+  return {
+    translate: event => convertAnthropicStreamEvent(event, state).map(frame),
+    finish: () => [frame('[DONE]')],
+    error: error => frame({ error: { message: error.message, type: error.type } })
+  };
+}
+
+const openAIChatAdapter: MessagesApiAdapter<OpenAIChatRequest> = {
+  path: '/v1/chat/completions',
+  convertRequest: convertOpenAIToAnthropic,
+  convertResponse: (response, request) => convertAnthropicToOpenAI(response, request.model),
+  createStreamTranslator: request =>
+    createOpenAIStreamTranslator(createOpenAIStreamState(request.model, request.stream_options?.include_usage === true))
+};
+
+export {
+  DEFAULT_MAX_TOKENS,
+  convertOpenAIToAnthropic,
+  convertAnthropicToOpenAI,
+  createOpenAIStreamState,
+  convertAnthropicStreamEvent,
+  createOpenAIStreamTranslator,
+  openAIChatAdapter
+};
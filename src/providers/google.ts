@@ -0,0 +1,462 @@
+/**
+ * Google native generateContent / streamGenerateContent provider
+ * Translates the internal OpenAI-style shapes to contents/parts and back
+ */
+
+import {
+  Env,
+  GeminiRequest,
+  GeminiResponse,
+  GeminiMessage,
+  GeminiContentPart,
+  GeminiChoice,
+  GeminiToolCall,
+  GeminiStreamChunk,
+  GoogleCandidate,
+  GoogleCachedContent,
+  GoogleContent,
+  GooglePart,
+  GoogleGenerateContentRequest,
+  GoogleGenerateContentResponse,
+  GoogleUsageMetadata,
+  PromptCacheEntry,
+  UpstreamProvider,
+  UpstreamRequest,
+  UpstreamStreamParser
+} from '../types';
+
+const GOOGLE_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+// Finish reasons that mean the output was withheld rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Largest thinking budget any Gemini 2.5 model accepts (2.5 Pro)
+const MAX_THINKING_BUDGET = 32768;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+function toNativeModelName(model: string): string {
+  // Routing tables use provider-prefixed names such as google/gemini-2.5-pro
+  return model.replace(/^google\//, '').replace(/^models\//, '');
+}
+
+function getApiBase(env: Env): string {
+  return (env.GOOGLE_API_BASE || GOOGLE_API_BASE).replace(/\/+$/, '');
+}
+
+function getHeaders(env: Env): Record<string, string> {
+  return {
+    'x-goog-api-key': env.GOOGLE_API_KEY || env.GEMINI_API_KEY,
+    'Content-Type': 'application/json'
+  };
+}
+
+function convertContentPart(part: GeminiContentPart): GooglePart | null {
+  if (part.type === 'text') {
+    return part.text ? { text: part.text } : null;
+  }
+  
+  const url = part.image_url?.url;
+  if (!url) return null;
+  
+  const dataUri = url.match(/^data:([^;,]+);base64,(.*)$/);
+  if (dataUri) {
+    return { inlineData: { mimeType: dataUri[1], data: dataUri[2] } };
+  }
+  
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || '';
+  return { fileData: { mimeType: EXTENSION_MIME_TYPES[extension] || 'image/jpeg', fileUri: url } };
+}
+
+function convertMessageContent(content: GeminiMessage['content']): GooglePart[] {
+  if (typeof content === 'string') {
+    return content ? [{ text: content }] : [];
+  }
+  
+  const parts: GooglePart[] = [];
+  content?.forEach(part => {
+    const converted = convertContentPart(part);
+    if (converted) {
+      parts.push(converted);
+    }
+  });
+  
+  return parts;
+}
+
+function parseToolArguments(args: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function buildGenerateContentRequest(geminiRequest: GeminiRequest): GoogleGenerateContentRequest {
+  const contents: GoogleContent[] = [];
+  const systemParts: GooglePart[] = [];
+  // functionResponse parts need the function name, which tool messages only reference by id
+  const toolCallNames = new Map<string, string>();
+  
+  const appendParts = (role: GoogleContent['role'], parts: GooglePart[]): void => {
+    if (parts.length === 0) return;
+    
+    // Gemini expects alternating turns, so consecutive same-role messages are merged
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+  
+  // A cached prefix only applies to the model it was created for, so fallbacks send everything.
+  // It must also hold every system message, as systemInstruction cannot be sent next to it
+  const cached = geminiRequest.cached_content;
+  const cachedContent = cached?.model === geminiRequest.model
+    && !geminiRequest.messages.slice(cached.messageCount).some(message => message.role === 'system')
+    ? cached
+    : undefined;
+  
+  geminiRequest.messages.forEach((message, index) => {
+    if (cachedContent && index < cachedContent.messageCount) {
+      // Already in the cache; only the tool call names are still needed
+      message.tool_calls?.forEach(toolCall => toolCallNames.set(toolCall.id, toolCall.function.name));
+    } else if (message.role === 'system') {
+      systemParts.push(...convertMessageContent(message.content));
+    } else if (message.role === 'assistant') {
+      const parts = convertMessageContent(message.content);
+      message.tool_calls?.forEach(toolCall => {
+        toolCallNames.set(toolCall.id, toolCall.function.name);
+        parts.push({
+          functionCall: {
+            name: toolCall.function.name,
+            args: parseToolArguments(toolCall.function.arguments)
+          }
+        });
+      });
+      appendParts('model', parts);
+    } else if (message.role === 'tool') {
+      const output = typeof message.content === 'string'
+        ? message.content
+        : convertMessageContent(message.content).map(part => part.text || '').join('\n');
+      appendParts('user', [{
+        functionResponse: {
+          name: toolCallNames.get(message.tool_call_id || '') || 'unknown_function',
+          response: { content: output }
+        }
+      }]);
+    } else {
+      appendParts('user', convertMessageContent(message.content));
+    }
+  });
+  
+  const nativeRequest: GoogleGenerateContentRequest = { contents };
+  
+  // The cache holds the system instruction, tools and tool config, which Gemini refuses to see twice
+  if (cachedContent) {
+    nativeRequest.cachedContent = cachedContent.name;
+  } else if (systemParts.length > 0) {
+    nativeRequest.systemInstruction = { parts: systemParts };
+  }
+  
+  if (!cachedContent && geminiRequest.tools && geminiRequest.tools.length > 0) {
+    nativeRequest.tools = [{
+      functionDeclarations: geminiRequest.tools.map(tool => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        parameters: tool.function.parameters
+      }))
+    }];
+  }
+  
+  if (!cachedContent && geminiRequest.tool_choice) {
+    const toolChoice = geminiRequest.tool_choice;
+    if (toolChoice === 'none') {
+      nativeRequest.toolConfig = { functionCallingConfig: { mode: 'NONE' } };
+    } else if (toolChoice === 'auto') {
+      nativeRequest.toolConfig = { functionCallingConfig: { mode: 'AUTO' } };
+    } else if (toolChoice === 'required') {
+      nativeRequest.toolConfig = { functionCallingConfig: { mode: 'ANY' } };
+    } else if (typeof toolChoice === 'object') {
+      nativeRequest.toolConfig = {
+        functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolChoice.function.name] }
+      };
+    }
+  }
+  
+  nativeRequest.generationConfig = {
+    maxOutputTokens: geminiRequest.max_tokens,
+    temperature: geminiRequest.temperature,
+    topP: geminiRequest.top_p,
+    stopSequences: geminiRequest.stop
+  };
+  if (geminiRequest.thinking_budget !== undefined) {
+    nativeRequest.generationConfig.thinkingConfig = { thinkingBudget: Math.min(geminiRequest.thinking_budget, MAX_THINKING_BUDGET), includeThoughts: true };
+  }
+  
+  return nativeRequest;
+}
+
+function buildRequest(geminiRequest: GeminiRequest, env: Env): UpstreamRequest {
+  const model = toNativeModelName(geminiRequest.model);
+  const url = geminiRequest.stream
+    ? `${getApiBase(env)}/models/${model}:streamGenerateContent?alt=sse`
+    : `${getApiBase(env)}/models/${model}:generateContent`;
+  
+  return {
+    url,
+    init: {
+      method: 'POST',
+      headers: getHeaders(env),
+      body: JSON.stringify(buildGenerateContentRequest(geminiRequest))
+    }
+  };
+}
+
+function generateToolCallId(): string {
+  return `call_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function mapFinishReason(finishReason: string | undefined, hasToolCalls: boolean): GeminiChoice['finish_reason'] {
+  if (!finishReason || finishReason === 'FINISH_REASON_UNSPECIFIED') return undefined;
+  if (finishReason === 'MAX_TOKENS') return 'length';
+  if (BLOCKED_FINISH_REASONS.includes(finishReason)) return 'content_filter';
+  return hasToolCalls ? 'tool_calls' : 'stop';
+}
+
+function convertUsage(usage: GoogleUsageMetadata | undefined): GeminiResponse['usage'] {
+  if (!usage) return undefined;
+  
+  // Thinking is billed as output
+  const promptTokens = usage.promptTokenCount || 0;
+  const completionTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+  
+  const converted: GeminiResponse['usage'] = {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: usage.totalTokenCount || promptTokens + completionTokens
+  };
+  if (usage.cachedContentTokenCount !== undefined) {
+    converted.prompt_tokens_details = { cached_tokens: usage.cachedContentTokenCount };
+  }
+  
+  return converted;
+}
+
+function extractCandidateOutput(candidate: GoogleCandidate | undefined): { text: string; reasoning: string; toolCalls: GeminiToolCall[] } {
+  const textParts: string[] = [];
+  const reasoningParts: string[] = [];
+  const toolCalls: GeminiToolCall[] = [];
+  
+  candidate?.content?.parts?.forEach(part => {
+    if (part.functionCall) {
+      toolCalls.push({
+        id: part.functionCall.id || generateToolCallId(),
+        type: 'function',
+        function: {
+          name: part.functionCall.name,
+          arguments: JSON.stringify(part.functionCall.args || {})
+        }
+      });
+    } else if (part.text && part.thought) {
+      reasoningParts.push(part.text);
+    } else if (part.text) {
+      textParts.push(part.text);
+    }
+  });
+  
+  return { text: textParts.join(''), reasoning: reasoningParts.join(''), toolCalls };
+}
+
+function parseResponse(body: unknown, geminiRequest: GeminiRequest): GeminiResponse {
+  const data = body as GoogleGenerateContentResponse;
+  const response: GeminiResponse = {
+    id: data.responseId || `resp_${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: data.modelVersion || geminiRequest.model,
+    choices: [],
+    usage: convertUsage(data.usageMetadata)
+  };
+  
+  if (data.error) {
+    response.error = { type: data.error.status, message: data.error.message };
+    return response;
+  }
+  
+  const candidate = data.candidates?.[0];
+  if (!candidate) {
+    if (data.promptFeedback?.blockReason) {
+      response.choices.push({
+        index: 0,
+        message: { role: 'assistant', content: null },
+        finish_reason: 'content_filter'
+      });
+    }
+    return response;
+  }
+  
+  const { text, reasoning, toolCalls } = extractCandidateOutput(candidate);
+  const choice: GeminiChoice = {
+    index: 0,
+    message: {
+      role: 'assistant',
+      content: text || null
+    },
+    finish_reason: mapFinishReason(candidate.finishReason, toolCalls.length > 0) || 'stop'
+  };
+  
+  if (reasoning) {
+    choice.message!.reasoning_content = reasoning;
+  }
+  if (toolCalls.length > 0) {
+    choice.message!.tool_calls = toolCalls;
+  }
+  
+  response.choices.push(choice);
+  return response;
+}
+
+function createStreamParser(geminiRequest: GeminiRequest): UpstreamStreamParser {
+  // Function calls arrive whole, so indices only need to keep counting across chunks
+  let toolCallCount = 0;
+  
+  return (data: string) => {
+    const nativeChunk = JSON.parse(data) as GoogleGenerateContentResponse;
+    const candidate = nativeChunk.candidates?.[0];
+    const { text, reasoning, toolCalls } = extractCandidateOutput(candidate);
+    
+    const chunk: GeminiStreamChunk = {
+      id: nativeChunk.responseId || `chunk_${Date.now()}`,
+      object: 'chat.completion.chunk',
+      created: Math.floor(Date.now() / 1000),
+      model: nativeChunk.modelVersion || geminiRequest.model,
+      choices: [{
+        index: 0,
+        delta: {
+          content: text || undefined,
+          reasoning_content: reasoning || undefined,
+          tool_calls: toolCalls.length > 0
+            ? toolCalls.map(toolCall => ({ ...toolCall, index: toolCallCount++ }))
+            : undefined
+        },
+        finish_reason: mapFinishReason(candidate?.finishReason, toolCallCount > 0)
+      }],
+      usage: convertUsage(nativeChunk.usageMetadata)
+    };
+    
+    return { chunks: [chunk], done: false };
+  };
+}
+
+async function countTokens(geminiRequest: GeminiRequest, env: Env): Promise<number | null> {
+  const model = toNativeModelName(geminiRequest.model);
+  
+  try {
+    const response = await fetch(`${getApiBase(env)}/models/${model}:countTokens`, {
+      method: 'POST',
+      headers: getHeaders(env),
+      body: JSON.stringify({
+        generateContentRequest: {
+          model: `models/${model}`,
+          ...buildGenerateContentRequest(geminiRequest)
+        }
+      })
+    });
+    
+    if (!response.ok) {
+      console.warn(`Google countTokens failed: ${response.status} ${response.statusText}`);
+      return null;
+    }
+    
+    const data = await response.json() as { totalTokens?: number };
+    return typeof data.totalTokens === 'number' ? data.totalTokens : null;
+  } catch (error) {
+    console.warn('Google countTokens failed:', error);
+    return null;
+  }
+}
+
+async function createCachedContent(
+  geminiRequest: GeminiRequest,
+  messageCount: number,
+  ttlSeconds: number,
+  env: Env
+): Promise<PromptCacheEntry | null> {
+  const model = toNativeModelName(geminiRequest.model);
+  const { contents, systemInstruction, tools, toolConfig } = buildGenerateContentRequest({
+    ...geminiRequest,
+    messages: geminiRequest.messages.slice(0, messageCount),
+    cached_content: undefined
+  });
+  
+  try {
+    const response = await fetch(`${getApiBase(env)}/cachedContents`, {
+      method: 'POST',
+      headers: getHeaders(env),
+      body: JSON.stringify({ model: `models/${model}`, contents, systemInstruction, tools, toolConfig, ttl: `${ttlSeconds}s` })
+    });
+    
+    if (!response.ok) {
+      console.warn(`Google cachedContents create failed: ${response.status} ${response.statusText}`);
+      return null;
+    }
+    
+    const data = await response.json() as GoogleCachedContent;
+    if (!data.name) return null;
+    
+    return {
+      name: data.name,
+      tokens: data.usageMetadata?.totalTokenCount || 0,
+      expiresAt: data.expireTime ? Date.parse(data.expireTime) : Date.now() + ttlSeconds * 1000
+    };
+  } catch (error) {
+    console.warn('Google cachedContents create failed:', error);
+    return null;
+  }
+}
+
+async function extendCachedContent(name: string, ttlSeconds: number, env: Env): Promise<number | null> {
+  try {
+    const response = await fetch(`${getApiBase(env)}/${name}?updateMask=ttl`, {
+      method: 'PATCH',
+      headers: getHeaders(env),
+      body: JSON.stringify({ ttl: `${ttlSeconds}s` })
+    });
+    
+    if (!response.ok) {
+      console.warn(`Google cachedContents update failed: ${response.status} ${response.statusText}`);
+      return null;
+    }
+    
+    const data = await response.json() as GoogleCachedContent;
+    return data.expireTime ? Date.parse(data.expireTime) : Date.now() + ttlSeconds * 1000;
+  } catch (error) {
+    console.warn('Google cachedContents update failed:', error);
+    return null;
+  }
+}
+
+const googleProvider: UpstreamProvider = {
+  name: 'google',
+  buildRequest,
+  parseResponse,
+  createStreamParser,
+  countTokens,
+  createCachedContent,
+  extendCachedContent
+};
+
+export {
+  GOOGLE_API_BASE,
+  googleProvider,
+  buildGenerateContentRequest
+};
@@ -0,0 +1,23 @@
+/**
+ * Upstream provider registry
+ * Routes pick a provider by name; see ModelRouteRule.provider
+ */
+
+import { ProviderName, UpstreamProvider } from '../types';
+import { openAIProvider } from './openai';
+import { googleProvider } from './google';
+
+const PROVIDERS: Record<ProviderName, UpstreamProvider> = {
+  openai: openAIProvider,
+  google: googleProvider
+};
+
+function getProvider(name: ProviderName): UpstreamProvider {
+  return PROVIDERS[name] || openAIProvider;
+}
+
+export {
+  getProvider,
+  openAIProvider,
+  googleProvider
+};
@@ -0,0 +1,82 @@
+/**
+ * OpenAI-compatible chat completions provider
+ * The internal request/response shapes already use this wire format
+ */
+
+import {
+  Env,
+  GeminiRequest,
+  GeminiResponse,
+  GeminiStreamChunk,
+  UpstreamProvider,
+  UpstreamRequest,
+  UpstreamStreamParser
+} from '../types';
+
+const OPENAI_COMPATIBLE_API_BASE = 'https://api.aimlapi.com/v1/chat/completions';
+
+// Gemini's OpenAI endpoint maps low/medium/high to these thinking budgets
+const REASONING_EFFORT_BUDGETS: [number, 'low' | 'medium' | 'high'][] = [
+  [1024, 'low'],
+  [8192, 'medium']
+];
+
+function getReasoningEffort(thinkingBudget: number): 'low' | 'medium' | 'high' {
+  return REASONING_EFFORT_BUDGETS.find(([budget]) => thinkingBudget <= budget)?.[1] || 'high';
+}
+
+// Internal fields are swapped for their wire equivalents, if any
+function toWireRequest(geminiRequest: GeminiRequest): Record<string, unknown> {
+  const body: Record<string, unknown> = { ...geminiRequest };
+  delete body.thinking_budget;
+  delete body.cache_breakpoints;
+  delete body.cached_content;
+  delete body.tool_annotations;
+  
+  if (geminiRequest.thinking_budget !== undefined) {
+    body.reasoning_effort = getReasoningEffort(geminiRequest.thinking_budget);
+  }
+  
+  return body;
+}
+
+function buildRequest(geminiRequest: GeminiRequest, env: Env): UpstreamRequest {
+  return {
+    url: env.GEMINI_API_BASE || OPENAI_COMPATIBLE_API_BASE,
+    init: {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${env.GEMINI_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(toWireRequest(geminiRequest))
+    }
+  };
+}
+
+function parseResponse(body: unknown): GeminiResponse {
+  return body as GeminiResponse;
+}
+
+function createStreamParser(): UpstreamStreamParser {
+  return (data: string) => {
+    if (data === '[DONE]') {
+      return { chunks: [], done: true };
+    }
+    
+    return { chunks: [JSON.parse(data) as GeminiStreamChunk], done: false };
+  };
+}
+
+const openAIProvider: UpstreamProvider = {
+  name: 'openai',
+  buildRequest,
+  parseResponse,
+  createStreamParser
+};
+
+export {
+  OPENAI_COMPATIBLE_API_BASE,
+  getReasoningEffort,
+  openAIProvider
+};
@@ -0,0 +1,300 @@
+/**
+ * Per-key rate limits: requests and input tokens per minute, output tokens per day
+ * Counters are fixed windows kept in a RateLimitStore (Durable Object or in-memory)
+ */
+
+import { createStoreSelector } from './store';
+import {
+  AnthropicResponse,
+  AuthenticatedClient,
+  Env,
+  RateLimitCounter,
+  RateLimitDecision,
+  RateLimitReservation,
+  RateLimits,
+  RateLimitStatus,
+  RateLimitStore,
+  RateLimitWindow
+} from './types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const RATE_LIMIT_RULES: { name: RateLimitStatus['name']; limit: keyof RateLimits; windowMs: number; description: string }[] = [
+  { name: 'requests', limit: 'requests_per_minute', windowMs: MINUTE_MS, description: 'requests per minute' },
+  { name: 'input-tokens', limit: 'input_tokens_per_minute', windowMs: MINUTE_MS, description: 'input tokens per minute' },
+  { name: 'output-tokens', limit: 'output_tokens_per_day', windowMs: DAY_MS, description: 'output tokens per day' }
+];
+
+interface StoredWindow {
+  windowStart: number;
+  count: number;
+}
+
+type CounterUpdate = Omit<RateLimitCounter, 'limit'>;
+
+function getWindowStart(windowMs: number, now = Date.now()): number {
+  return Math.floor(now / windowMs) * windowMs;
+}
+
+function getCounterKey(client: AuthenticatedClient, name: RateLimitStatus['name']): string {
+  return `${client.name}:${name}`;
+}
+
+// Counter keys end in ":<limit name>", so what precedes it is the client
+function getCounterClient(key: string): string {
+  return key.slice(0, key.lastIndexOf(':'));
+}
+
+function getCurrentWindow(stored: StoredWindow | undefined, windowMs: number): StoredWindow {
+  const windowStart = getWindowStart(windowMs);
+  return stored && stored.windowStart === windowStart ? stored : { windowStart, count: 0 };
+}
+
+function toRateLimitWindow(window: StoredWindow, windowMs: number): RateLimitWindow {
+  return { count: window.count, resetAt: window.windowStart + windowMs };
+}
+
+function exceedsLimit(count: number, counter: RateLimitCounter): boolean {
+  const remaining = Math.max(0, counter.limit - count);
+  // Without a reservation the daily output quota only blocks once it is used up
+  return counter.amount > 0 ? counter.amount > remaining : remaining === 0;
+}
+
+/**
+ * Adds each amount to its current window, never going below zero. With limits,
+ * nothing is added unless every counter has room for its amount
+ */
+function applyCounters(
+  counters: CounterUpdate[],
+  current: StoredWindow[],
+  limits?: number[]
+): { allowed: boolean; windows: StoredWindow[] } {
+  const allowed = !limits || !counters.some((counter, index) =>
+    exceedsLimit(current[index].count, { ...counter, limit: limits[index] }));
+  if (!allowed) return { allowed, windows: current };
+  
+  return {
+    allowed,
+    windows: current.map((window, index) => ({
+      windowStart: window.windowStart,
+      count: Math.max(0, window.count + counters[index].amount)
+    }))
+  };
+}
+
+function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, StoredWindow>();
+  
+  // No awaits in between, so a reservation cannot interleave with another in this isolate
+  const update = (counters: CounterUpdate[], limits?: number[]): RateLimitReservation => {
+    const current = counters.map(counter => getCurrentWindow(windows.get(counter.key), counter.windowMs));
+    const result = applyCounters(counters, current, limits);
+    if (result.allowed) {
+      counters.forEach((counter, index) => windows.set(counter.key, result.windows[index]));
+    }
+    return {
+      allowed: result.allowed,
+      windows: result.windows.map((window, index) => toRateLimitWindow(window, counters[index].windowMs))
+    };
+  };
+  
+  return {
+    async get(key: string, windowMs: number): Promise<RateLimitWindow> {
+      return toRateLimitWindow(getCurrentWindow(windows.get(key), windowMs), windowMs);
+    },
+    async add(key: string, amount: number, windowMs: number): Promise<RateLimitWindow> {
+      return update([{ key, amount, windowMs }]).windows[0];
+    },
+    async reserve(counters: RateLimitCounter[]): Promise<RateLimitReservation> {
+      return update(counters, counters.map(counter => counter.limit));
+    }
+  };
+}
+
+function createDurableObjectRateLimitStore(namespace: DurableObjectNamespace): RateLimitStore {
+  // One object per client, so a reservation across its counters is a single serialized request
+  const call = async (
+    action: 'get' | 'add' | 'reserve',
+    counters: CounterUpdate[] | RateLimitCounter[]
+  ): Promise<RateLimitReservation> => {
+    const stub = namespace.get(namespace.idFromName(getCounterClient(counters[0].key)));
+    const response = await stub.fetch(`https://rate-limiter/${action}`, {
+      method: 'POST',
+      body: JSON.stringify({ counters })
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Rate limiter ${action} failed: ${response.status}`);
+    }
+    
+    return await response.json() as RateLimitReservation;
+  };
+  
+  return {
+    get: async (key, windowMs) => (await call('get', [{ key, amount: 0, windowMs }])).windows[0],
+    add: async (key, amount, windowMs) => (await call('add', [{ key, amount, windowMs }])).windows[0],
+    reserve: async counters => counters.length > 0 ? await call('reserve', counters) : { allowed: true, windows: [] }
+  };
+}
+
+/**
+ * Durable Object backing createDurableObjectRateLimitStore
+ * Bind it as RATE_LIMITER (see wrangler.toml)
+ */
+class RateLimiterDurableObject {
+  private state: DurableObjectState;
+  
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+  
+  async fetch(request: Request): Promise<Response> {
+    const action = new URL(request.url).pathname.slice(1);
+    if (action !== 'get' && action !== 'add' && action !== 'reserve') {
+      return new Response('Not found', { status: 404 });
+    }
+    const { counters } = await request.json() as { counters: RateLimitCounter[] };
+    
+    // The input gate holds other requests back while storage is read and written,
+    // so no reservation can slip in between this check and its writes
+    const stored = await Promise.all(counters.map(counter => this.state.storage.get<StoredWindow>(counter.key)));
+    const current = counters.map((counter, index) => getCurrentWindow(stored[index], counter.windowMs));
+    
+    let result = { allowed: true, windows: current };
+    if (action !== 'get') {
+      result = applyCounters(counters, current, action === 'reserve' ? counters.map(counter => counter.limit) : undefined);
+      if (result.allowed) {
+        await Promise.all(counters.map((counter, index) => this.state.storage.put(counter.key, result.windows[index])));
+      }
+    }
+    
+    const reservation: RateLimitReservation = {
+      allowed: result.allowed,
+      windows: result.windows.map((window, index) => toRateLimitWindow(window, counters[index].windowMs))
+    };
+    return new Response(JSON.stringify(reservation), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+// Without RATE_LIMITER each isolate counts only the requests it served itself
+const rateLimitStores = createStoreSelector(createMemoryRateLimitStore, createDurableObjectRateLimitStore);
+
+function getRateLimitStore(env: Env): RateLimitStore {
+  return rateLimitStores.get(env.RATE_LIMITER);
+}
+
+function resetRateLimitStore(): void {
+  rateLimitStores.reset();
+}
+
+/**
+ * Checks every configured limit and, when all pass, counts the request and
+ * reserves its estimated input tokens and up to max_tokens of output in the same
+ * store call. Returns null for clients without limits
+ */
+async function checkRateLimits(
+  client: AuthenticatedClient | null,
+  estimatedInputTokens: number,
+  store: RateLimitStore,
+  reservedOutputTokens = 0
+): Promise<RateLimitDecision | null> {
+  const limits = client?.limits;
+  if (!client || !limits) return null;
+  
+  const rules = RATE_LIMIT_RULES.filter(rule => limits[rule.limit] !== undefined);
+  if (rules.length === 0) return null;
+  
+  const cost = (name: RateLimitStatus['name']): number => {
+    if (name === 'requests') return 1;
+    if (name === 'input-tokens') return estimatedInputTokens;
+    return reservedOutputTokens;
+  };
+  
+  const counters: RateLimitCounter[] = rules.map(rule => ({
+    key: getCounterKey(client, rule.name),
+    windowMs: rule.windowMs,
+    amount: cost(rule.name),
+    limit: limits[rule.limit]!
+  }));
+  const reservation = await store.reserve(counters);
+  
+  const statuses: RateLimitStatus[] = rules.map((rule, index) => ({
+    name: rule.name,
+    limit: counters[index].limit,
+    remaining: Math.max(0, counters[index].limit - reservation.windows[index].count),
+    resetAt: reservation.windows[index].resetAt
+  }));
+  
+  if (!reservation.allowed) {
+    const exceeded = statuses.find((_status, index) => exceedsLimit(reservation.windows[index].count, counters[index]));
+    return { allowed: false, exceeded, statuses };
+  }
+  
+  return { allowed: true, statuses };
+}
+
+/**
+ * Settles the input and output token reservations against actual usage.
+ * Pass zero usage for failed upstream calls to release the reservations
+ */
+async function recordRateLimitUsage(
+  client: AuthenticatedClient | null,
+  estimatedInputTokens: number,
+  usage: AnthropicResponse['usage'],
+  store: RateLimitStore,
+  reservedOutputTokens = 0
+): Promise<void> {
+  const limits = client?.limits;
+  if (!client || !limits) return;
+  
+  const updates: Promise<RateLimitWindow>[] = [];
+  
+  if (limits.input_tokens_per_minute !== undefined && usage.input_tokens !== estimatedInputTokens) {
+    updates.push(store.add(getCounterKey(client, 'input-tokens'), usage.input_tokens - estimatedInputTokens, MINUTE_MS));
+  }
+  if (limits.output_tokens_per_day !== undefined && usage.output_tokens !== reservedOutputTokens) {
+    updates.push(store.add(getCounterKey(client, 'output-tokens'), usage.output_tokens - reservedOutputTokens, DAY_MS));
+  }
+  
+  try {
+    await Promise.all(updates);
+  } catch (error) {
+    console.error('Failed to record rate limit usage:', error);
+  }
+}
+
+function createRateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {};
+  
+  decision.statuses.forEach(status => {
+    headers[`anthropic-ratelimit-${status.name}-limit`] = String(status.limit);
+    headers[`anthropic-ratelimit-${status.name}-remaining`] = String(status.remaining);
+    headers[`anthropic-ratelimit-${status.name}-reset`] = new Date(status.resetAt).toISOString();
+  });
+  
+  if (decision.exceeded) {
+    headers['retry-after'] = String(Math.max(1, Math.ceil((decision.exceeded.resetAt - Date.now()) / 1000)));
+  }
+  
+  return headers;
+}
+
+function describeRateLimit(status: RateLimitStatus): string {
+  const rule = RATE_LIMIT_RULES.find(candidate => candidate.name === status.name)!;
+  return `This request would exceed your rate limit of ${status.limit} ${rule.description}`;
+}
+
+export {
+  createMemoryRateLimitStore,
+  createDurableObjectRateLimitStore,
+  RateLimiterDurableObject,
+  getRateLimitStore,
+  resetRateLimitStore,
+  checkRateLimits,
+  recordRateLimitUsage,
+  createRateLimitHeaders,
+  describeRateLimit
+};
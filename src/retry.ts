@@ -0,0 +1,239 @@
+/**
+ * Upstream retries with exponential backoff, then failover to fallback models
+ * Streaming calls are only retried while nothing has been sent to the client
+ */
+
+import { Env, GeminiModel, RetryOptions, UpstreamCallResult, UpstreamRequest } from './types';
+import { extractStreamError } from './errors';
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 60000
+};
+
+// Request timeout, rate limiting and server-side failures (including Anthropic's 529)
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function parseOption(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function getRetryOptions(env: Env): RetryOptions {
+  return {
+    maxRetries: Math.floor(parseOption(env.UPSTREAM_MAX_RETRIES, DEFAULT_RETRY_OPTIONS.maxRetries)),
+    baseDelayMs: parseOption(env.UPSTREAM_RETRY_BASE_MS, DEFAULT_RETRY_OPTIONS.baseDelayMs),
+    maxDelayMs: parseOption(env.UPSTREAM_RETRY_MAX_MS, DEFAULT_RETRY_OPTIONS.maxDelayMs),
+    timeoutMs: parseOption(env.UPSTREAM_TIMEOUT_MS, DEFAULT_RETRY_OPTIONS.timeoutMs) || DEFAULT_RETRY_OPTIONS.timeoutMs
+  };
+}
+
+function parseRetryAfter(retryAfter: string | null): number | null {
+  if (!retryAfter) return null;
+  
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  
+  // HTTP-date form
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), or null when upstream asked
+ * for a longer wait than maxDelayMs and the next fallback model should be used instead
+ */
+function computeBackoffDelay(
+  attempt: number,
+  options: RetryOptions,
+  retryAfter: string | null = null,
+  random: () => number = Math.random
+): number | null {
+  const requested = parseRetryAfter(retryAfter);
+  if (requested !== null) {
+    return requested <= options.maxDelayMs ? requested : null;
+  }
+  
+  // Full jitter keeps concurrent isolates from retrying in lockstep
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function createSyntheticErrorResponse(status: number, message: string): Response {
+  return new Response(JSON.stringify({ error: { code: status, message } }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+function replayStream(prefix: Uint8Array[], reader: ReadableStreamDefaultReader<Uint8Array>): ReadableStream<Uint8Array> {
+  const pending = [...prefix];
+  
+  return new ReadableStream<Uint8Array>({
+    async pull(controller): Promise<void> {
+      const next = pending.shift();
+      if (next) {
+        controller.enqueue(next);
+        return;
+      }
+      
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason): Promise<void> {
+      return reader.cancel(reason);
+    }
+  });
+}
+
+/**
+ * Reads a streaming response up to its first data event. An upstream error there
+ * becomes a failed response that can still be retried; anything else is replayed unchanged
+ */
+async function awaitFirstStreamEvent(response: Response): Promise<Response> {
+  const reader = response.body?.getReader();
+  if (!reader) return response;
+  
+  const decoder = new TextDecoder();
+  const received: Uint8Array[] = [];
+  let buffer = '';
+  let firstData: string | undefined;
+  
+  while (firstData === undefined) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    
+    received.push(value);
+    buffer += decoder.decode(value, { stream: true });
+    
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    
+    firstData = lines
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .find(data => data.length > 0);
+  }
+  
+  if (firstData !== undefined && extractStreamError(firstData)) {
+    await reader.cancel();
+    const code = JSON.parse(firstData)?.error?.code;
+    return new Response(firstData, {
+      status: typeof code === 'number' && code >= 400 ? code : 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  
+  return new Response(replayStream(received, reader), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
+
+// An unread body holds the upstream connection open until it is garbage collected
+async function discardBody(response: Response): Promise<void> {
+  try {
+    await response.body?.cancel();
+  } catch {
+    // Already closed or locked by a reader
+  }
+}
+
+/**
+ * Makes one call, giving up after timeoutMs. The timeout covers the response headers
+ * and, when streaming, the first event; a stream that stalls after that is not cut off
+ */
+async function attemptUpstream(upstreamRequest: UpstreamRequest, timeoutMs: number, streaming: boolean): Promise<Response> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  
+  const timeout = new Promise<Response>(resolve => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve(createSyntheticErrorResponse(504, `Upstream request timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  
+  const call = (async (): Promise<Response> => {
+    const response = await fetch(upstreamRequest.url, { ...upstreamRequest.init, signal: controller.signal });
+    return streaming && response.ok ? awaitFirstStreamEvent(response) : response;
+  })();
+  
+  try {
+    return await Promise.race([call, timeout]);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'network error';
+    return createSyntheticErrorResponse(502, `Upstream request failed: ${reason}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Calls each model in turn, retrying retryable failures with backoff before
+ * moving on. Non-retryable errors (bad requests, auth) are returned immediately
+ */
+async function callUpstreamWithRetry(
+  models: GeminiModel[],
+  buildRequest: (model: GeminiModel) => UpstreamRequest,
+  options: RetryOptions,
+  streaming = false
+): Promise<UpstreamCallResult> {
+  let attempts = 0;
+  let lastResult: UpstreamCallResult | null = null;
+  
+  for (const model of models) {
+    const upstreamRequest = buildRequest(model);
+    
+    for (let retry = 0; retry <= options.maxRetries; retry++) {
+      // Only the last failure is returned, so earlier ones are never read
+      if (lastResult) await discardBody(lastResult.response);
+      attempts++;
+      const response = await attemptUpstream(upstreamRequest, options.timeoutMs, streaming);
+      lastResult = { response, model, attempts };
+      
+      if (response.ok || !isRetryableStatus(response.status)) {
+        return lastResult;
+      }
+      
+      console.warn(`Upstream ${model} failed with ${response.status} (attempt ${retry + 1}/${options.maxRetries + 1})`);
+      
+      if (retry === options.maxRetries) break;
+      
+      const delay = computeBackoffDelay(retry, options, response.headers.get('retry-after'));
+      if (delay === null) break;
+      await sleep(delay);
+    }
+  }
+  
+  if (!lastResult) {
+    throw new Error('No upstream models to call');
+  }
+  
+  return lastResult;
+}
+
+export {
+  DEFAULT_RETRY_OPTIONS,
+  isRetryableStatus,
+  getRetryOptions,
+  computeBackoffDelay,
+  awaitFirstStreamEvent,
+  callUpstreamWithRetry,
+  sleep
+};
@@ -0,0 +1,233 @@
+/**
+ * Model routing: maps requested Claude models to upstream Gemini models
+ * Rules come from the MODEL_ROUTES env var (JSON) or the MODEL_ROUTES_KV namespace,
+ * falling back to the built-in table below
+ */
+
+import {
+  Env,
+  GeminiModel,
+  ModelRoute,
+  ModelRouteRule,
+  RoutingConfig,
+  RoutingTable,
+  CompiledRouteRule,
+  ProviderName
+} from './types';
+
+const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
+  default: 'google/gemini-2.5-flash',
+  rules: [
+    // Claude 3 Sonnet variants -> Gemini 2.5 Flash
+    { match: 'claude-3-sonnet', model: 'google/gemini-2.5-flash' },
+    { match: 'claude-3-sonnet-20240229', model: 'google/gemini-2.5-flash' },
+    { match: 'claude-3.5-sonnet', model: 'google/gemini-2.5-flash' },
+    { match: 'claude-3.5-sonnet-20240620', model: 'google/gemini-2.5-flash' },
+    { match: 'claude-3.5-sonnet-20241022', model: 'google/gemini-2.5-flash' },
+    
+    // Claude 3 Opus variants -> Gemini 2.5 Pro
+    { match: 'claude-3-opus', model: 'google/gemini-2.5-pro', fallbacks: ['google/gemini-2.5-flash'] },
+    { match: 'claude-3-opus-20240229', model: 'google/gemini-2.5-pro', fallbacks: ['google/gemini-2.5-flash'] },
+    
+    // Claude 3 Haiku variants -> Gemini 2.5 Flash Lite
+    { match: 'claude-3-haiku', model: 'google/gemini-2.5-flash-lite' },
+    { match: 'claude-3-haiku-20240307', model: 'google/gemini-2.5-flash-lite' },
+    
+    // Claude 4 variants (future-proofing) -> Best available Gemini models
+    { match: 'claude-4-opus', model: 'google/gemini-2.5-pro', fallbacks: ['google/gemini-2.5-flash'] },
+    { match: 'claude-4-sonnet', model: 'google/gemini-2.5-flash' },
+    { match: 'claude-4-haiku', model: 'google/gemini-2.5-flash-lite' },
+    
+    // Pattern-based fallback mapping by model family
+    { match: '*opus*', model: 'google/gemini-2.5-pro', fallbacks: ['google/gemini-2.5-flash'] },
+    { match: '*sonnet*', model: 'google/gemini-2.5-flash' },
+    { match: '*haiku*', model: 'google/gemini-2.5-flash-lite' }
+  ]
+};
+
+const PROVIDER_NAMES: ProviderName[] = ['openai', 'google'];
+
+// Key read from MODEL_ROUTES_KV
+const ROUTING_KV_KEY = 'model-routes';
+
+// KV is eventually consistent anyway, so re-reading it once a minute is plenty
+const KV_CACHE_TTL_MS = 60 * 1000;
+
+class RoutingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoutingConfigError';
+  }
+}
+
+function compileMatcher(match: string): { kind: CompiledRouteRule['kind']; pattern: RegExp } {
+  // /regex/flags
+  const regexSyntax = match.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexSyntax) {
+    // Stateful flags would make repeated test() calls alternate results
+    const flags = regexSyntax[2].replace(/[gy]/g, '');
+    return { kind: 'pattern', pattern: new RegExp(regexSyntax[1], flags) };
+  }
+  
+  // Globs: * matches any run of characters, ? a single character
+  const source = match
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  
+  return {
+    kind: /[*?]/.test(match) ? 'pattern' : 'exact',
+    pattern: new RegExp(`^${source}$`, 'i')
+  };
+}
+
+function isModelList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(model => typeof model === 'string' && model.length > 0);
+}
+
+function compileRule(rule: ModelRouteRule, location: string): CompiledRouteRule {
+  if (!rule || typeof rule !== 'object') {
+    throw new RoutingConfigError(`${location} must be an object`);
+  }
+  if (typeof rule.match !== 'string' || !rule.match) {
+    throw new RoutingConfigError(`${location}.match must be a non-empty string`);
+  }
+  if (typeof rule.model !== 'string' || !rule.model) {
+    throw new RoutingConfigError(`${location}.model must be a non-empty string`);
+  }
+  if (rule.provider !== undefined && !PROVIDER_NAMES.includes(rule.provider)) {
+    throw new RoutingConfigError(`${location}.provider must be one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  if (rule.max_tokens_cap !== undefined && (!Number.isInteger(rule.max_tokens_cap) || rule.max_tokens_cap < 1)) {
+    throw new RoutingConfigError(`${location}.max_tokens_cap must be a positive integer`);
+  }
+  if (rule.temperature_scale !== undefined && (typeof rule.temperature_scale !== 'number' || rule.temperature_scale < 0)) {
+    throw new RoutingConfigError(`${location}.temperature_scale must be a non-negative number`);
+  }
+  if (rule.fallbacks !== undefined && !isModelList(rule.fallbacks)) {
+    throw new RoutingConfigError(`${location}.fallbacks must be an array of upstream model names`);
+  }
+  
+  try {
+    return { ...rule, ...compileMatcher(rule.match) };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid pattern';
+    throw new RoutingConfigError(`${location}.match is not a valid pattern: ${reason}`);
+  }
+}
+
+function compileRoutingConfig(config: RoutingConfig, source = 'routing config'): RoutingTable {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new RoutingConfigError(`${source} must be a JSON object with "default" and "rules"`);
+  }
+  if (typeof config.default !== 'string' || !config.default) {
+    throw new RoutingConfigError(`${source}: "default" must name an upstream model`);
+  }
+  if (config.default_provider !== undefined && !PROVIDER_NAMES.includes(config.default_provider)) {
+    throw new RoutingConfigError(`${source}: "default_provider" must be one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  if (config.default_fallbacks !== undefined && !isModelList(config.default_fallbacks)) {
+    throw new RoutingConfigError(`${source}: "default_fallbacks" must be an array of upstream model names`);
+  }
+  if (!Array.isArray(config.rules)) {
+    throw new RoutingConfigError(`${source}: "rules" must be an array`);
+  }
+  
+  return {
+    defaultModel: config.default,
+    defaultProvider: config.default_provider || 'openai',
+    defaultFallbacks: config.default_fallbacks,
+    rules: config.rules.map((rule, index) => compileRule(rule, `${source}: rules[${index}]`))
+  };
+}
+
+function parseRoutingConfig(raw: string, source: string): RoutingTable {
+  let config: RoutingConfig;
+  
+  try {
+    config = JSON.parse(raw) as RoutingConfig;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid JSON';
+    throw new RoutingConfigError(`${source} is not valid JSON: ${reason}`);
+  }
+  
+  return compileRoutingConfig(config, source);
+}
+
+const DEFAULT_ROUTING_TABLE = compileRoutingConfig(DEFAULT_ROUTING_CONFIG, 'built-in routing config');
+
+// Per-isolate cache of the active routing table
+let routingCache: { source: string; table: RoutingTable; loadedAt: number } | null = null;
+
+async function loadRoutingTable(env: Env): Promise<RoutingTable> {
+  if (env.MODEL_ROUTES_KV) {
+    if (routingCache?.source === 'kv' && Date.now() - routingCache.loadedAt < KV_CACHE_TTL_MS) {
+      return routingCache.table;
+    }
+    
+    const raw = await env.MODEL_ROUTES_KV.get(ROUTING_KV_KEY);
+    const table = raw ? parseRoutingConfig(raw, `MODEL_ROUTES_KV["${ROUTING_KV_KEY}"]`) : DEFAULT_ROUTING_TABLE;
+    routingCache = { source: 'kv', table, loadedAt: Date.now() };
+    return table;
+  }
+  
+  if (env.MODEL_ROUTES) {
+    if (routingCache?.source === env.MODEL_ROUTES) {
+      return routingCache.table;
+    }
+    
+    const table = parseRoutingConfig(env.MODEL_ROUTES, 'MODEL_ROUTES');
+    routingCache = { source: env.MODEL_ROUTES, table, loadedAt: Date.now() };
+    return table;
+  }
+  
+  return DEFAULT_ROUTING_TABLE;
+}
+
+function resetRoutingCache(): void {
+  routingCache = null;
+}
+
+function resolveModelRoute(claudeModel: string, routingTable: RoutingTable = DEFAULT_ROUTING_TABLE): ModelRoute {
+  const rule = routingTable.rules.find(candidate => candidate.pattern.test(claudeModel));
+  
+  if (!rule) {
+    return {
+      geminiModel: routingTable.defaultModel,
+      provider: routingTable.defaultProvider,
+      matchedBy: 'default',
+      fallbacks: routingTable.defaultFallbacks
+    };
+  }
+  
+  return {
+    geminiModel: rule.model,
+    provider: rule.provider || routingTable.defaultProvider,
+    matchedBy: rule.kind,
+    rule: rule.match,
+    maxTokensCap: rule.max_tokens_cap,
+    temperatureScale: rule.temperature_scale,
+    fallbacks: rule.fallbacks
+  };
+}
+
+function getGeminiModel(claudeModel: string, routingTable: RoutingTable = DEFAULT_ROUTING_TABLE): GeminiModel {
+  return resolveModelRoute(claudeModel, routingTable).geminiModel;
+}
+
+export {
+  DEFAULT_ROUTING_CONFIG,
+  DEFAULT_ROUTING_TABLE,
+  RoutingConfigError,
+  compileMatcher,
+  compileRoutingConfig,
+  parseRoutingConfig,
+  loadRoutingTable,
+  resetRoutingCache,
+  resolveModelRoute,
+  getGeminiModel
+};
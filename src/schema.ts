@@ -0,0 +1,224 @@
+/**
+ * JSON Schema to the OpenAPI subset Gemini accepts for function parameters
+ * Refs are inlined, nullable unions become `nullable`, and anything else Gemini would
+ * reject is rewritten or dropped with a warning that names what was lost
+ */
+
+import { SchemaSanitizeResult } from './types';
+
+// Gemini only knows these formats; others fail the whole request
+const SUPPORTED_FORMATS: Record<string, string[]> = {
+  string: ['enum', 'date-time'],
+  number: ['float', 'double'],
+  integer: ['int32', 'int64']
+};
+
+const PASSTHROUGH_KEYWORDS = [
+  'description',
+  'title',
+  'minItems',
+  'maxItems',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minProperties',
+  'maxProperties'
+];
+
+// Handled explicitly below, so never reported as unsupported
+const HANDLED_KEYWORDS = ['type', 'nullable', '$ref', 'anyOf', 'oneOf', 'allOf', 'format', 'enum', 'const', 'properties', 'required', 'items'];
+
+// Meaningless once refs are inlined; dropped without a warning
+const METADATA_KEYWORDS = ['$schema', '$id', '$comment', '$defs', 'definitions'];
+
+// Refs followed in one chain before a recursive schema is cut off
+const MAX_REF_DEPTH = 8;
+
+interface SanitizeContext {
+  root: Record<string, any>;
+  warnings: string[];
+  refs: string[];
+}
+
+function isSchemaObject(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function resolveRef(ref: string, root: Record<string, any>): Record<string, any> | null {
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return null;
+  
+  let target: unknown = root;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = isSchemaObject(target) ? target[key] : undefined;
+  }
+  
+  return isSchemaObject(target) ? target : null;
+}
+
+function mergeAllOf(branches: Record<string, any>[]): Record<string, any> {
+  return branches.reduce<Record<string, any>>((merged, branch) => ({
+    ...branch,
+    ...merged,
+    properties: { ...branch.properties, ...merged.properties },
+    required: [...(merged.required || []), ...(branch.required || [])]
+  }), {});
+}
+
+function sanitizeNode(node: unknown, path: string, context: SanitizeContext): Record<string, any> {
+  const warn = (message: string): void => {
+    context.warnings.push(`${path}: ${message}`);
+  };
+  
+  if (!isSchemaObject(node)) {
+    warn(`${JSON.stringify(node)} is not a schema object; replaced with an empty object schema`);
+    return { type: 'object' };
+  }
+  
+  // Inline $ref, letting sibling keywords override the target
+  if (typeof node.$ref === 'string') {
+    const { $ref: ref, ...siblings } = node;
+    if (context.refs.includes(ref) || context.refs.length >= MAX_REF_DEPTH) {
+      warn(`recursive $ref "${ref}" cut off; replaced with an empty object schema`);
+      return { type: 'object', ...(siblings.description && { description: siblings.description }) };
+    }
+    const target = resolveRef(ref, context.root);
+    if (!target) {
+      warn(`$ref "${ref}" could not be resolved; replaced with an empty object schema`);
+      return { type: 'object' };
+    }
+    
+    context.refs.push(ref);
+    const inlined = sanitizeNode({ ...target, ...siblings }, path, context);
+    context.refs.pop();
+    return inlined;
+  }
+  
+  if (Array.isArray(node.allOf)) {
+    const { allOf, ...rest } = node;
+    const branches = allOf.map((branch: unknown) => isSchemaObject(branch) && typeof branch.$ref === 'string'
+      ? resolveRef(branch.$ref, context.root) || {}
+      : branch);
+    return sanitizeNode(mergeAllOf([rest, ...branches.filter(isSchemaObject)]), path, context);
+  }
+  
+  let nullable = node.nullable === true;
+  
+  // anyOf/oneOf: null branches become `nullable`, string constants an enum, anything else the first option
+  const unionKeyword = Array.isArray(node.anyOf) ? 'anyOf' : Array.isArray(node.oneOf) ? 'oneOf' : null;
+  if (unionKeyword) {
+    const rest = Object.fromEntries(Object.entries(node).filter(([keyword]) => keyword !== 'anyOf' && keyword !== 'oneOf'));
+    const branches: unknown[] = node[unionKeyword];
+    const options = branches.filter(branch => !(isSchemaObject(branch) && branch.type === 'null'));
+    nullable = nullable || options.length < branches.length;
+    
+    let merged: Record<string, any>;
+    if (options.length > 1 && options.every(option => isSchemaObject(option) && typeof option.const === 'string')) {
+      merged = { type: 'string', enum: options.map(option => (option as Record<string, any>).const), ...rest };
+    } else {
+      if (options.length > 1) {
+        warn(`${unionKeyword} with ${options.length} options narrowed to the first`);
+      }
+      merged = { ...(isSchemaObject(options[0]) ? options[0] : {}), ...rest };
+    }
+    
+    const sanitized = sanitizeNode(merged, path, context);
+    return nullable ? { ...sanitized, nullable: true } : sanitized;
+  }
+  
+  let type = node.type;
+  if (Array.isArray(type)) {
+    const types = type.filter((candidate: string) => candidate !== 'null');
+    nullable = nullable || types.length < type.length;
+    if (types.length > 1) {
+      warn(`type ${JSON.stringify(type)} narrowed to "${types[0]}"`);
+    }
+    type = types[0];
+  }
+  if (!type) {
+    type = node.properties ? 'object' : node.items ? 'array' : node.enum || typeof node.const === 'string' ? 'string' : undefined;
+  }
+  
+  const result: Record<string, any> = {};
+  if (type) result.type = type;
+  if (nullable) result.nullable = true;
+  
+  PASSTHROUGH_KEYWORDS.forEach(keyword => {
+    if (node[keyword] !== undefined) result[keyword] = node[keyword];
+  });
+  
+  if (node.format !== undefined) {
+    if (SUPPORTED_FORMATS[type]?.includes(node.format)) {
+      result.format = node.format;
+    } else {
+      warn(`format "${node.format}" is not supported; removed`);
+    }
+  }
+  
+  if (Array.isArray(node.enum)) {
+    if (type === 'string' || node.enum.every((value: unknown) => typeof value === 'string')) {
+      result.enum = node.enum.filter((value: unknown) => value !== null).map(String);
+    } else {
+      // Gemini only takes string enums, so the allowed values move into the description
+      warn('non-string enum removed; allowed values moved to the description');
+      const allowed = `Allowed values: ${node.enum.map((value: unknown) => JSON.stringify(value)).join(', ')}`;
+      result.description = result.description ? `${result.description} (${allowed})` : allowed;
+    }
+  } else if (node.const !== undefined) {
+    if (typeof node.const === 'string') {
+      result.enum = [node.const];
+    } else {
+      warn(`const ${JSON.stringify(node.const)} is not supported; removed`);
+    }
+  }
+  
+  if (isSchemaObject(node.properties)) {
+    result.properties = {};
+    Object.entries(node.properties).forEach(([name, property]) => {
+      result.properties[name] = sanitizeNode(property, `${path}/properties/${name}`, context);
+    });
+  }
+  
+  if (Array.isArray(node.required)) {
+    const required = [...new Set<string>(node.required)];
+    const missing = required.filter(name => !result.properties || !(name in result.properties));
+    if (missing.length > 0) {
+      warn(`required ${missing.map(name => `"${name}"`).join(', ')} not in properties; removed`);
+    }
+    const present = required.filter(name => !missing.includes(name));
+    if (present.length > 0) result.required = present;
+  }
+  
+  if (Array.isArray(node.items)) {
+    warn('tuple items narrowed to the first item schema');
+    if (node.items.length > 0) result.items = sanitizeNode(node.items[0], `${path}/items/0`, context);
+  } else if (node.items !== undefined) {
+    result.items = sanitizeNode(node.items, `${path}/items`, context);
+  }
+  
+  Object.keys(node).forEach(keyword => {
+    if (!HANDLED_KEYWORDS.includes(keyword) && !PASSTHROUGH_KEYWORDS.includes(keyword) && !METADATA_KEYWORDS.includes(keyword)) {
+      warn(`${keyword} is not supported; removed`);
+    }
+  });
+  
+  return result;
+}
+
+/**
+ * Rewrites a tool's input schema for Gemini. The input is left untouched;
+ * each warning names a JSON pointer and what was changed there
+ */
+function sanitizeSchema(schema: Record<string, any>): SchemaSanitizeResult {
+  const context: SanitizeContext = { root: schema, warnings: [], refs: [] };
+  return { schema: sanitizeNode(schema, '#', context), warnings: context.warnings };
+}
+
+export {
+  SUPPORTED_FORMATS,
+  resolveRef,
+  sanitizeSchema
+};
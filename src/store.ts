@@ -0,0 +1,25 @@
+/**
+ * Store selection shared by the stateful modules: a binding-backed store when the
+ * binding is configured, otherwise one in-memory store kept for the isolate's lifetime
+ */
+
+import { StoreSelector } from './types';
+
+function createStoreSelector<Binding, Store>(
+  createMemoryStore: () => Store,
+  createBoundStore: (binding: Binding) => Store
+): StoreSelector<Binding, Store> {
+  let memoryStore = createMemoryStore();
+  
+  return {
+    get: binding => binding ? createBoundStore(binding) : memoryStore,
+    // Tests start each case from an empty memory store
+    reset: () => {
+      memoryStore = createMemoryStore();
+    }
+  };
+}
+
+export {
+  createStoreSelector
+};
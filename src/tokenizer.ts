@@ -0,0 +1,74 @@
+/**
+ * Local token estimation for converted Gemini requests
+ * Used when no upstream counting facility is configured
+ */
+
+import { GeminiRequest, GeminiMessage, GeminiTool } from './types';
+
+// Gemini bills every image as at least one 258-token tile
+const IMAGE_TOKENS = 258;
+
+// Role markers and message separators added by the chat template
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const REQUEST_OVERHEAD_TOKENS = 3;
+
+// CJK ideographs, kana and hangul mostly tokenize to one token per character
+const WIDE_CHAR_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+function estimateTokens(text: string): number {
+  if (!text) return 0;
+  
+  const wideChars = text.match(WIDE_CHAR_PATTERN)?.length || 0;
+  const otherChars = text.length - wideChars;
+  
+  // Roughly four characters of Latin text per token
+  return wideChars + Math.ceil(otherChars / 4);
+}
+
+function estimateMessageTokens(message: GeminiMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  
+  if (typeof message.content === 'string') {
+    tokens += estimateTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    message.content.forEach(part => {
+      if (part.type === 'image_url') {
+        tokens += IMAGE_TOKENS;
+      } else {
+        tokens += estimateTokens(part.text || '');
+      }
+    });
+  }
+  
+  message.tool_calls?.forEach(toolCall => {
+    tokens += estimateTokens(toolCall.function.name) + estimateTokens(toolCall.function.arguments);
+  });
+  
+  return tokens;
+}
+
+function estimateToolTokens(tool: GeminiTool): number {
+  return estimateTokens(tool.function.name) +
+    estimateTokens(tool.function.description || '') +
+    estimateTokens(JSON.stringify(tool.function.parameters || {}));
+}
+
+function estimateRequestTokens(geminiRequest: GeminiRequest): number {
+  let tokens = REQUEST_OVERHEAD_TOKENS;
+  
+  geminiRequest.messages.forEach(message => {
+    tokens += estimateMessageTokens(message);
+  });
+  
+  geminiRequest.tools?.forEach(tool => {
+    tokens += estimateToolTokens(tool);
+  });
+  
+  return tokens;
+}
+
+export {
+  estimateTokens,
+  estimateMessageTokens,
+  estimateRequestTokens
+};
@@ -0,0 +1,146 @@
+/**
+ * Tool definitions as clients send them: Anthropic tools (input_schema) or
+ * MCP tools straight from a tools/list response (inputSchema, annotations),
+ * and the mapping between their names and the ones Gemini accepts
+ */
+
+import { AnthropicRequest, AnthropicTool, MCPTool, MCPToolAnnotations, NormalizedTool, ToolNameMap } from './types';
+
+// Stricter than Gemini's documented rule, which not every model behind the OpenAI endpoint honors
+const UPSTREAM_TOOL_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+const MAX_UPSTREAM_TOOL_NAME_LENGTH = 64;
+
+function isMCPToolDefinition(tool: AnthropicTool | MCPTool): tool is MCPTool {
+  return !('input_schema' in tool) && 'inputSchema' in tool;
+}
+
+function normalizeTool(tool: AnthropicTool | MCPTool): NormalizedTool {
+  // Tools without a schema take no arguments
+  const emptyParameters: NormalizedTool['parameters'] = { type: 'object', properties: {} };
+  
+  if (!isMCPToolDefinition(tool)) {
+    return {
+      name: tool.name,
+      description: tool.description || '',
+      parameters: tool.input_schema || emptyParameters,
+      source: 'anthropic'
+    };
+  }
+  
+  const title = tool.title || tool.annotations?.title;
+  const normalized: NormalizedTool = {
+    name: tool.name,
+    description: tool.description || title || '',
+    parameters: tool.inputSchema || emptyParameters,
+    source: 'mcp'
+  };
+  if (title) {
+    normalized.title = title;
+  }
+  if (tool.annotations) {
+    normalized.annotations = { ...tool.annotations };
+  }
+  
+  return normalized;
+}
+
+function normalizeTools(tools: (AnthropicTool | MCPTool)[]): NormalizedTool[] {
+  return tools.map(normalizeTool);
+}
+
+// Annotations by client tool name; tools without any are left out
+function collectToolAnnotations(tools: (AnthropicTool | MCPTool)[]): Record<string, MCPToolAnnotations> {
+  const annotations: Record<string, MCPToolAnnotations> = {};
+  normalizeTools(tools).forEach(tool => {
+    if (tool.annotations) annotations[tool.name] = tool.annotations;
+  });
+  return annotations;
+}
+
+// FNV-1a; names must map the same way in every request without async crypto
+function hashToolName(name: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function sanitizeToolName(name: string, attempt = 0): string {
+  const suffix = `_${hashToolName(attempt > 0 ? `${name}#${attempt}` : name)}`;
+  let base = name.replace(/[^A-Za-z0-9_]+/g, '_');
+  if (!/^[A-Za-z_]/.test(base)) {
+    base = `_${base}`;
+  }
+  return `${base.slice(0, MAX_UPSTREAM_TOOL_NAME_LENGTH - suffix.length)}${suffix}`;
+}
+
+/**
+ * Two-way mapping between client tool names and upstream function names. Valid names
+ * pass through; others get a sanitized name with a hash of the original, so the same
+ * set of names always maps the same way and no two originals share an upstream name
+ */
+function createToolNameMap(names: string[] = []): ToolNameMap {
+  const toUpstream = new Map<string, string>();
+  const toClient = new Map<string, string>();
+  
+  const add = (name: string): string => {
+    const known = toUpstream.get(name);
+    if (known) return known;
+    
+    let attempt = 0;
+    let upstreamName = UPSTREAM_TOOL_NAME_PATTERN.test(name) ? name : sanitizeToolName(name);
+    while (toClient.has(upstreamName)) {
+      upstreamName = sanitizeToolName(name, ++attempt);
+    }
+    
+    toUpstream.set(name, upstreamName);
+    toClient.set(upstreamName, name);
+    return upstreamName;
+  };
+  
+  // Valid names first, so they keep their own name whatever order they arrive in
+  const map: ToolNameMap = {
+    add: newNames => {
+      newNames.filter(name => UPSTREAM_TOOL_NAME_PATTERN.test(name)).forEach(add);
+      newNames.filter(name => !UPSTREAM_TOOL_NAME_PATTERN.test(name)).forEach(add);
+    },
+    toUpstream: add,
+    toClient: upstreamName => toClient.get(upstreamName) || upstreamName
+  };
+  map.add(names);
+  
+  return map;
+}
+
+// Every tool name a request mentions: its tools, tool_choice and tool calls in the history
+function collectToolNames(request: AnthropicRequest): string[] {
+  const names = (request.tools || []).map(tool => tool.name);
+  
+  if (typeof request.tool_choice === 'object' && request.tool_choice.type === 'tool') {
+    names.push(request.tool_choice.name);
+  }
+  
+  request.messages?.forEach(message => {
+    if (!Array.isArray(message.content)) return;
+    message.content.forEach(block => {
+      if ((block.type === 'tool_use' || block.type === 'mcp_tool_use') && block.name) {
+        names.push(block.name);
+      }
+    });
+  });
+  
+  return [...new Set(names)];
+}
+
+export {
+  UPSTREAM_TOOL_NAME_PATTERN,
+  collectToolNames,
+  createToolNameMap,
+  sanitizeToolName,
+  isMCPToolDefinition,
+  normalizeTool,
+  normalizeTools,
+  collectToolAnnotations
+};
@@ -9,18 +9,38 @@ export interface AnthropicMessage {
 }
 
 export interface AnthropicContent {
-  type: 'text' | 'image' | 'tool_use' | 'tool_result';
+  type: 'text' | 'image' | 'tool_use' | 'tool_result' | 'mcp_tool_use' | 'mcp_tool_result' | 'thinking' | 'redacted_thinking';
   text?: string;
+  thinking?: string;
+  // Anthropic signs thinking blocks; Gemini reasoning carries no signature, so it is always empty
+  signature?: string;
+  id?: string;
   source?: {
-    type: 'base64';
-    media_type: string;
-    data: string;
+    type: 'base64' | 'url';
+    media_type?: string;
+    data?: string;
+    url?: string;
   };
   tool_use_id?: string;
   name?: string;
   input?: Record<string, any>;
   content?: string | AnthropicContent[];
   is_error?: boolean;
+  // MCP server that ran an mcp_tool_use block
+  server_name?: string;
+  cache_control?: AnthropicCacheControl;
+}
+
+// Marks the end of a cacheable prompt prefix
+export interface AnthropicCacheControl {
+  type: 'ephemeral';
+  ttl?: '5m' | '1h';
+}
+
+export interface AnthropicSystemBlock {
+  type: 'text';
+  text: string;
+  cache_control?: AnthropicCacheControl;
 }
 
 export interface AnthropicTool {
@@ -31,19 +51,47 @@ export interface AnthropicTool {
     properties: Record<string, any>;
     required?: string[];
   };
+  cache_control?: AnthropicCacheControl;
 }
 
+// Bare strings are the older form; current clients send the objects
+export type AnthropicToolChoice =
+  | 'auto'
+  | 'any'
+  | 'none'
+  | { type: 'auto' | 'any' | 'none'; disable_parallel_tool_use?: boolean }
+  | { type: 'tool'; name: string; disable_parallel_tool_use?: boolean };
+
+export type AnthropicThinkingConfig =
+  | { type: 'enabled'; budget_tokens: number }
+  | { type: 'disabled' };
+
 export interface AnthropicRequest {
   model: string;
   messages: AnthropicMessage[];
   max_tokens?: number;
   temperature?: number;
   top_p?: number;
-  system?: string;
-  tools?: AnthropicTool[];
-  tool_choice?: 'auto' | 'any' | { type: 'tool'; name: string };
+  system?: string | AnthropicSystemBlock[];
+  // MCP tool definitions from a tools/list response are accepted as they are
+  tools?: (AnthropicTool | MCPTool)[];
+  tool_choice?: AnthropicToolChoice;
+  thinking?: AnthropicThinkingConfig;
   stop_sequences?: string[];
   stream?: boolean;
+  mcp_servers?: AnthropicMCPServer[];
+}
+
+// Remote MCP server whose tools the adapter runs on the model's behalf
+export interface AnthropicMCPServer {
+  type: 'url';
+  url: string;
+  name: string;
+  authorization_token?: string;
+  tool_configuration?: {
+    enabled?: boolean;
+    allowed_tools?: string[];
+  };
 }
 
 export interface AnthropicResponse {
@@ -52,11 +100,14 @@ export interface AnthropicResponse {
   role: 'assistant';
   content: AnthropicContent[];
   model: string;
-  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use';
+  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | null;
   stop_sequence: string | null;
   usage: {
+    // Excludes tokens written to or read from the prompt cache
     input_tokens: number;
     output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
   };
 }
 
@@ -66,19 +117,71 @@ export interface AnthropicStreamChunk {
   index?: number;
   content_block?: AnthropicContent;
   delta?: {
-    type: 'text_delta' | 'input_json_delta';
+    type?: 'text_delta' | 'input_json_delta' | 'thinking_delta' | 'signature_delta';
     text?: string;
     partial_json?: string;
+    thinking?: string;
+    signature?: string;
+    stop_reason?: AnthropicResponse['stop_reason'];
+    stop_sequence?: string | null;
   };
   usage?: {
+    input_tokens?: number;
     output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
   };
+  error?: ApiError;
+}
+
+// Tracks one streamed message while upstream chunks are translated into the
+// Anthropic event sequence (message_start ... message_stop)
+export interface StreamState {
+  messageId: string;
+  model: string;
+  // Restores client tool names on streamed tool_use blocks
+  toolNames: ToolNameMap;
+  started: boolean;
+  finished: boolean;
+  nextBlockIndex: number;
+  openBlock: {
+    index: number;
+    type: 'text' | 'thinking';
+  } | null;
+  // One entry per upstream tool call, buffered until the stream finishes and then
+  // sent as its own tool_use block
+  toolBlocks: {
+    upstreamIndex?: number;
+    id: string;
+    name: string;
+    arguments: string;
+    // Calls past the first when parallel tool use is disabled are swallowed
+    dropped?: boolean;
+  }[];
+  singleToolCall: boolean;
+  promptCache: PromptCacheUse | null;
+  cachedTokens: number;
+  stopReason: AnthropicResponse['stop_reason'];
+  inputTokens: number;
+  outputTokens: number;
+  // Local count of streamed text and tool input, for upstreams that omit usage
+  estimatedOutputTokens: number;
 }
 
 // Gemini API Types
+export interface GeminiContentPart {
+  type: 'text' | 'image_url';
+  text?: string;
+  image_url?: {
+    url: string;
+  };
+}
+
 export interface GeminiMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | GeminiContentPart[] | null;
+  tool_calls?: GeminiToolCall[];
+  tool_call_id?: string;
 }
 
 export interface GeminiTool {
@@ -103,6 +206,18 @@ export interface GeminiToolCall {
   };
 }
 
+// Streamed tool calls arrive in fragments keyed by index; only the first
+// fragment of each call carries its id and function name
+export interface GeminiToolCallDelta {
+  index?: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 export interface GeminiRequest {
   model: string;
   messages: GeminiMessage[];
@@ -110,9 +225,31 @@ export interface GeminiRequest {
   temperature?: number;
   top_p?: number;
   tools?: GeminiTool[];
-  tool_choice?: 'none' | 'auto' | { type: 'function'; function: { name: string } };
+  tool_choice?: 'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } };
+  // Not a wire field: each provider turns it into its own reasoning control
+  thinking_budget?: number;
+  // Not a wire field: where the client's cache_control breakpoints fall upstream
+  cache_breakpoints?: CacheBreakpoint[];
+  // Not a wire field: upstream cache holding the first messageCount messages and the tools
+  cached_content?: {
+    name: string;
+    messageCount: number;
+    // Caches belong to one model; fallback models get the whole request
+    model: string;
+  };
+  // Not a wire field: MCP annotations by client tool name, for policy checks
+  tool_annotations?: Record<string, MCPToolAnnotations>;
   stop?: string[];
   stream?: boolean;
+  stream_options?: {
+    include_usage: boolean;
+  };
+}
+
+// A cacheable prefix: the tools plus the first messageCount upstream messages
+export interface CacheBreakpoint {
+  messageCount: number;
+  ttl: '5m' | '1h';
 }
 
 export interface GeminiChoice {
@@ -120,12 +257,14 @@ export interface GeminiChoice {
   message?: {
     role: 'assistant';
     content: string | null;
+    reasoning_content?: string | null;
     tool_calls?: GeminiToolCall[];
   };
   delta?: {
     role?: 'assistant';
     content?: string;
-    tool_calls?: GeminiToolCall[];
+    reasoning_content?: string | null;
+    tool_calls?: GeminiToolCallDelta[];
   };
   finish_reason?: 'stop' | 'length' | 'tool_calls' | 'content_filter';
 }
@@ -136,11 +275,7 @@ export interface GeminiResponse {
   created: number;
   model: string;
   choices: GeminiChoice[];
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: GeminiUsage;
   error?: {
     type: string;
     message: string;
@@ -153,30 +288,632 @@ export interface GeminiStreamChunk {
   created: number;
   model: string;
   choices: GeminiChoice[];
+  usage?: GeminiUsage | null;
+}
+
+export interface GeminiUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // Part of prompt_tokens served from a cache
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+}
+
+// Inbound OpenAI Chat Completions Types
+// Responses and chunks reuse GeminiResponse and GeminiStreamChunk, which already follow the OpenAI wire format
+export interface OpenAIChatContentPart {
+  type: 'text' | 'image_url' | 'input_audio' | 'file';
+  text?: string;
+  image_url?: {
+    url: string;
+    detail?: 'auto' | 'low' | 'high';
+  };
+}
+
+export interface OpenAIChatMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content?: string | OpenAIChatContentPart[] | null;
+  tool_calls?: GeminiToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+export interface OpenAIChatTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, any>;
+  };
+}
+
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIChatMessage[];
+  max_tokens?: number | null;
+  // Newer name for max_tokens; wins when both are set
+  max_completion_tokens?: number | null;
+  temperature?: number | null;
+  top_p?: number | null;
+  stop?: string | string[] | null;
+  n?: number | null;
+  stream?: boolean | null;
+  stream_options?: {
+    include_usage?: boolean;
+  };
+  tools?: OpenAIChatTool[];
+  tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } } | null;
+  parallel_tool_calls?: boolean | null;
+}
+
+// Carried across Anthropic stream events while they are rewritten as chat.completion.chunk objects
+export interface OpenAIStreamState {
+  id: string;
+  model: string;
+  created: number;
+  includeUsage: boolean;
+  // Anthropic content block index -> OpenAI tool call index
+  toolCallIndexes: Map<number, number>;
+  usage: GeminiUsage;
+}
+
+// Legacy Text Completions Types
+export interface CompletionRequest {
+  model: string;
+  // "\n\nHuman: ...\n\nAssistant:" turns
+  prompt: string;
+  max_tokens_to_sample: number;
+  stop_sequences?: string[];
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+}
+
+export interface CompletionResponse {
+  type: 'completion';
+  id: string;
+  completion: string;
+  stop_reason: 'stop_sequence' | 'max_tokens' | null;
+  // The stop sequence that ended the completion, when known
+  stop: string | null;
+  model: string;
+}
+
+// APIs served on top of the Messages pipeline
+// Rewrites Anthropic stream events as the SSE frames of another API
+export interface AnthropicStreamTranslator {
+  translate(event: AnthropicStreamChunk): string[];
+  // Frames that end a stream that finished normally
+  finish(): string[];
+  // The frame that ends the stream on an error event or a failed read
+  error(error: ApiError): string;
+}
+
+export interface MessagesApiAdapter<T> {
+  path: string;
+  convertRequest(request: T): ConversionResult<AnthropicRequest>;
+  convertResponse(response: AnthropicResponse, request: T): unknown;
+  createStreamTranslator(request: T): AnthropicStreamTranslator;
+}
+
+// Google native generateContent API Types
+export interface GooglePart {
+  text?: string;
+  // Set on thought summaries when includeThoughts is on
+  thought?: boolean;
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
+  fileData?: {
+    mimeType: string;
+    fileUri: string;
+  };
+  functionCall?: {
+    id?: string;
+    name: string;
+    args?: Record<string, any>;
+  };
+  functionResponse?: {
+    id?: string;
+    name: string;
+    response: Record<string, any>;
+  };
+}
+
+export interface GoogleContent {
+  role: 'user' | 'model';
+  parts: GooglePart[];
+}
+
+export interface GoogleFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters?: Record<string, any>;
+}
+
+export interface GoogleGenerateContentRequest {
+  contents: GoogleContent[];
+  // cachedContents resource holding the request's prefix
+  cachedContent?: string;
+  systemInstruction?: {
+    parts: GooglePart[];
+  };
+  tools?: {
+    functionDeclarations: GoogleFunctionDeclaration[];
+  }[];
+  toolConfig?: {
+    functionCallingConfig: {
+      mode: 'AUTO' | 'ANY' | 'NONE';
+      allowedFunctionNames?: string[];
+    };
+  };
+  generationConfig?: {
+    maxOutputTokens?: number;
+    temperature?: number;
+    topP?: number;
+    stopSequences?: string[];
+    thinkingConfig?: {
+      thinkingBudget: number;
+      includeThoughts: boolean;
+    };
+  };
+}
+
+export interface GoogleCandidate {
+  content?: {
+    role?: 'model';
+    parts?: GooglePart[];
+  };
+  finishReason?: string;
+  index?: number;
+}
+
+export interface GoogleUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+// cachedContents resource, as returned on create and update
+export interface GoogleCachedContent {
+  name?: string;
+  expireTime?: string;
+  usageMetadata?: {
+    totalTokenCount?: number;
+  };
+}
+
+export interface GoogleGenerateContentResponse {
+  candidates?: GoogleCandidate[];
+  promptFeedback?: {
+    blockReason?: string;
+  };
+  usageMetadata?: GoogleUsageMetadata;
+  modelVersion?: string;
+  responseId?: string;
+  error?: {
+    code: number;
+    message: string;
+    status: string;
+  };
+}
+
+// Upstream Provider Types
+export type ProviderName = 'openai' | 'google';
+
+export interface UpstreamRequest {
+  url: string;
+  init: RequestInit;
+}
+
+// Turns one SSE data payload into internal stream chunks; done marks an end-of-stream sentinel
+export type UpstreamStreamParser = (data: string) => {
+  chunks: GeminiStreamChunk[];
+  done: boolean;
+};
+
+// Each provider translates between its wire format and the internal
+// OpenAI-style GeminiRequest/GeminiResponse/GeminiStreamChunk shapes
+export interface UpstreamProvider {
+  name: ProviderName;
+  buildRequest(geminiRequest: GeminiRequest, env: Env): UpstreamRequest;
+  parseResponse(body: unknown, geminiRequest: GeminiRequest): GeminiResponse;
+  createStreamParser(geminiRequest: GeminiRequest): UpstreamStreamParser;
+  countTokens?(geminiRequest: GeminiRequest, env: Env): Promise<number | null>;
+  // Explicit prompt caching; providers without it rely on whatever the upstream caches implicitly
+  createCachedContent?(geminiRequest: GeminiRequest, messageCount: number, ttlSeconds: number, env: Env): Promise<PromptCacheEntry | null>;
+  extendCachedContent?(name: string, ttlSeconds: number, env: Env): Promise<number | null>;
+}
+
+export interface RetryOptions {
+  // Retries per model, on top of the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
+export interface UpstreamCallResult {
+  response: Response;
+  // Model that produced `response`, which is the last one tried when every attempt failed
+  model: GeminiModel;
+  attempts: number;
 }
 
 // MCP Types
 export interface MCPTool {
   name: string;
-  description: string;
+  title?: string;
+  description?: string;
   inputSchema: {
     type: 'object';
     properties: Record<string, any>;
     required?: string[];
   };
+  annotations?: MCPToolAnnotations;
+}
+
+// Hints from the MCP server about a tool's behaviour; untrusted unless the server is
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+// Either tool shape, as the rest of the adapter sees it
+export interface NormalizedTool {
+  name: string;
+  description: string;
+  parameters: AnthropicTool['input_schema'];
+  source: 'anthropic' | 'mcp';
+  title?: string;
+  // Kept for policy checks; never sent upstream
+  annotations?: MCPToolAnnotations;
+}
+
+// Client tool names <-> the function names sent upstream
+export interface ToolNameMap {
+  add: (names: string[]) => void;
+  // Unknown names are added on first use
+  toUpstream: (name: string) => string;
+  // Unknown upstream names are returned unchanged
+  toClient: (upstreamName: string) => string;
+}
+
+export interface SchemaSanitizeResult {
+  schema: Record<string, any>;
+  // One entry per dropped or rewritten feature, prefixed with its JSON pointer
+  warnings: string[];
+}
+
+export interface MCPToolResult {
+  content: {
+    type: 'text' | 'image' | 'audio' | 'resource';
+    text?: string;
+    data?: string;
+    mimeType?: string;
+    resource?: {
+      uri: string;
+      text?: string;
+    };
+  }[];
+  isError?: boolean;
+}
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+// One connection per MCP server, over Streamable HTTP or the older HTTP+SSE transport
+export interface MCPTransport {
+  request(method: string, params?: Record<string, unknown>): Promise<unknown>;
+  notify(method: string, params?: Record<string, unknown>): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface MCPConnection {
+  server: string;
+  // Already narrowed to tool_configuration.allowed_tools
+  tools: MCPTool[];
+  callTool(name: string, input: Record<string, any>): Promise<MCPToolResult>;
+  close(): Promise<void>;
+}
+
+// Every MCP server of one request; tool names are unique across servers
+export interface MCPSession {
+  connections: MCPConnection[];
+  tools: Map<string, { connection: MCPConnection; tool: MCPTool }>;
 }
 
 // Environment Types
 export interface Env {
   GEMINI_API_KEY: string;
+  // Model routing config as JSON; MODEL_ROUTES_KV takes precedence when bound
+  MODEL_ROUTES?: string;
+  MODEL_ROUTES_KV?: KVNamespace;
+  // Optional upstream endpoint used by /v1/messages/count_tokens
+  COUNT_TOKENS_API_URL?: string;
+  // Override the OpenAI-compatible chat completions URL
+  GEMINI_API_BASE?: string;
+  // Google native API base and key; the key defaults to GEMINI_API_KEY
+  GOOGLE_API_BASE?: string;
+  GOOGLE_API_KEY?: string;
+  // Upstream retry policy; see src/retry.ts for defaults
+  UPSTREAM_MAX_RETRIES?: string;
+  UPSTREAM_RETRY_BASE_MS?: string;
+  UPSTREAM_RETRY_MAX_MS?: string;
+  UPSTREAM_TIMEOUT_MS?: string;
+  // Client keys as a JSON array of ClientKeyConfig; either setting turns on inbound auth
+  CLIENT_KEYS?: string;
+  CLIENT_KEYS_KV?: KVNamespace;
+  // Durable Object namespace holding rate limit counters; without it limits are per isolate
+  RATE_LIMITER?: DurableObjectNamespace;
+  // Usage accounting: records go to KV when bound; /admin/usage needs ADMIN_API_KEY
+  USAGE_KV?: KVNamespace;
+  ADMIN_API_KEY?: string;
+  // JSON price table overriding DEFAULT_MODEL_PRICES, keyed by upstream model
+  MODEL_PRICES?: string;
+  // Prompt cache index shared across isolates; without it each isolate keeps its own
+  PROMPT_CACHE_KV?: KVNamespace;
+  // Message batches and their results; without it batches only live as long as the isolate
+  BATCHES_KV?: KVNamespace;
+  // Batch requests sent upstream at once (default 4)
+  BATCH_CONCURRENCY?: string;
+}
+
+// Store Types
+// Picks a store for an optional binding, falling back to one kept in memory
+export interface StoreSelector<Binding, Store> {
+  get(binding: Binding | undefined): Store;
+  reset(): void;
+}
+
+// Client Auth Types
+export interface ClientKeyConfig {
+  name: string;
+  // Hex SHA-256 of the key, so plaintext keys never sit in config
+  key_hash: string;
+  // Model ids, globs or /regex/ the key may use; omitted means every model
+  models?: string[];
+  limits?: RateLimits;
+}
+
+export interface AuthenticatedClient {
+  name: string;
+  // null when the key may use every model
+  models: RegExp[] | null;
+  limits: RateLimits | null;
+}
+
+// Rate Limit Types
+export interface RateLimits {
+  requests_per_minute?: number;
+  input_tokens_per_minute?: number;
+  output_tokens_per_day?: number;
+}
+
+// Fixed-window counter; resetAt is when the window ends (epoch ms)
+export interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+// One counter of a reservation: amount is what the request would add to it
+export interface RateLimitCounter {
+  key: string;
+  windowMs: number;
+  amount: number;
+  limit: number;
+}
+
+// The counters after the reservation, or as they were when it was refused
+export interface RateLimitReservation {
+  allowed: boolean;
+  windows: RateLimitWindow[];
+}
+
+// Backing state for rate limits, shared by every isolate when Durable Objects are used
+export interface RateLimitStore {
+  get(key: string, windowMs: number): Promise<RateLimitWindow>;
+  add(key: string, amount: number, windowMs: number): Promise<RateLimitWindow>;
+  // Checks and adds in one step; the counters must all belong to one client
+  reserve(counters: RateLimitCounter[]): Promise<RateLimitReservation>;
+}
+
+export interface RateLimitStatus {
+  // Matches the anthropic-ratelimit-<name>-* header names
+  name: 'requests' | 'input-tokens' | 'output-tokens';
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  exceeded?: RateLimitStatus;
+  statuses: RateLimitStatus[];
+}
+
+// Usage Accounting Types
+export interface UsageRecord {
+  timestamp: string;
+  // Client key name, or null when auth is off
+  client: string | null;
+  model: string;
+  upstream_model: GeminiModel;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  status: number;
+  stream: boolean;
+}
+
+// Prompt Cache Types
+export interface PromptCacheEntry {
+  // Upstream cachedContents resource
+  name: string;
+  tokens: number;
+  expiresAt: number;
+}
+
+export interface PromptCacheStore {
+  get(key: string): Promise<PromptCacheEntry | null>;
+  put(key: string, entry: PromptCacheEntry): Promise<void>;
+}
+
+// The cached prefix one request runs against
+export interface PromptCacheUse {
+  name: string;
+  messageCount: number;
+  tokens: number;
+  // Written by this request rather than read
+  created: boolean;
+}
+
+// Message Batch Types
+export interface MessageBatchRequest {
+  custom_id: string;
+  params: AnthropicRequest;
+}
+
+export interface MessageBatchRequestCounts {
+  processing: number;
+  succeeded: number;
+  errored: number;
+  canceled: number;
+  expired: number;
+}
+
+export interface MessageBatch {
+  id: string;
+  type: 'message_batch';
+  processing_status: 'in_progress' | 'canceling' | 'ended';
+  request_counts: MessageBatchRequestCounts;
+  ended_at: string | null;
+  created_at: string;
+  expires_at: string;
+  archived_at: string | null;
+  cancel_initiated_at: string | null;
+  results_url: string | null;
+}
+
+export type MessageBatchResult =
+  | { type: 'succeeded'; message: AnthropicResponse }
+  | { type: 'errored'; error: ErrorResponse }
+  | { type: 'canceled' }
+  | { type: 'expired' };
+
+// One line of the JSONL results file
+export interface MessageBatchResultLine {
+  custom_id: string;
+  result: MessageBatchResult;
+}
+
+export interface MessageBatchRecord {
+  batch: MessageBatch;
+  // Owning client key; batches are only visible to the key that created them
+  client: string | null;
+  // While a processing loop holds the lease no other one starts (epoch ms)
+  leaseExpiresAt: number;
+}
+
+export interface BatchStore {
+  create(record: MessageBatchRecord, requests: MessageBatchRequest[]): Promise<void>;
+  get(id: string): Promise<MessageBatchRecord | null>;
+  update(record: MessageBatchRecord): Promise<void>;
+  list(): Promise<MessageBatchRecord[]>;
+  // Cancellation has its own key, so progress updates can never overwrite it
+  cancel(id: string, canceledAt: string): Promise<void>;
+  getCancelTime(id: string): Promise<string | null>;
+  getRequests(id: string): Promise<MessageBatchRequest[]>;
+  putResult(id: string, line: MessageBatchResultLine): Promise<void>;
+  getResults(id: string): Promise<MessageBatchResultLine[]>;
+}
+
+// Runs one batch request through the regular /v1/messages pipeline
+export type BatchRequestRunner = (params: AnthropicRequest) => Promise<MessageBatchResult>;
+
+export interface UsageStore {
+  record(record: UsageRecord): Promise<void>;
+  // Records whose timestamp falls on one of the given UTC days (YYYY-MM-DD)
+  list(days: string[]): Promise<UsageRecord[]>;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageSummary {
+  date: string;
+  client: string | null;
+  model: string;
+  upstream_model: GeminiModel;
+  requests: number;
+  errors: number;
+  input_tokens: number;
+  output_tokens: number;
+  average_latency_ms: number;
+  // null when the upstream model has no price
+  estimated_cost_usd: number | null;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  data: UsageSummary[];
+  totals: {
+    requests: number;
+    errors: number;
+    input_tokens: number;
+    output_tokens: number;
+    estimated_cost_usd: number;
+  };
+}
+
+export interface CountTokensResponse {
+  input_tokens: number;
 }
 
 // Error Types
+export type AnthropicErrorType =
+  | 'invalid_request_error'
+  | 'authentication_error'
+  | 'permission_error'
+  | 'not_found_error'
+  | 'request_too_large'
+  | 'rate_limit_error'
+  | 'api_error'
+  | 'overloaded_error';
+
 export interface ApiError {
   type: string;
   message: string;
 }
 
+export interface ClassifiedError {
+  type: AnthropicErrorType;
+  message: string;
+  status: number;
+  retryAfter?: string;
+}
+
 export interface ErrorResponse {
   type: 'error';
   error: ApiError;
@@ -186,10 +923,66 @@ export interface ErrorResponse {
 export type ClaudeModel = string;
 export type GeminiModel = string;
 
-export interface ModelMapping {
-  [key: ClaudeModel]: GeminiModel;
+export interface ModelRouteRule {
+  // Exact model id, glob ("claude-3-*") or regex ("/^claude-.*-opus/i")
+  match: string;
+  model: GeminiModel;
+  provider?: ProviderName;
+  max_tokens_cap?: number;
+  temperature_scale?: number;
+  // Upstream models tried in order once retries against `model` run out
+  fallbacks?: GeminiModel[];
+}
+
+export interface RoutingConfig {
+  default: GeminiModel;
+  default_provider?: ProviderName;
+  default_fallbacks?: GeminiModel[];
+  rules: ModelRouteRule[];
+}
+
+export interface CompiledRouteRule extends ModelRouteRule {
+  kind: 'exact' | 'pattern';
+  pattern: RegExp;
+}
+
+export interface RoutingTable {
+  defaultModel: GeminiModel;
+  defaultProvider: ProviderName;
+  defaultFallbacks?: GeminiModel[];
+  rules: CompiledRouteRule[];
 }
 
+export interface ModelRoute {
+  geminiModel: GeminiModel;
+  provider: ProviderName;
+  matchedBy: 'exact' | 'pattern' | 'default';
+  rule?: string;
+  maxTokensCap?: number;
+  temperatureScale?: number;
+  fallbacks?: GeminiModel[];
+}
+
+// Anthropic model object, extended with the upstream model it routes to
+export interface ModelInfo {
+  type: 'model';
+  id: ClaudeModel;
+  display_name: string;
+  created_at: string;
+  upstream_model: GeminiModel;
+  routed_by: ModelRoute['matchedBy'];
+}
+
+// One page of an Anthropic list endpoint
+export interface ListResponse<T> {
+  data: T[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
+
+export type ModelListResponse = ListResponse<ModelInfo>;
+
 // Conversion Result Types
 export interface ConversionResult<T> {
   success: boolean;
@@ -0,0 +1,229 @@
+/**
+ * Usage accounting: one record per completed request, aggregated for /admin/usage
+ * Records go to the USAGE_KV namespace when bound, otherwise to per-isolate memory
+ */
+
+import { createStoreSelector } from './store';
+import { Env, ModelPrice, UsageRecord, UsageReport, UsageStore, UsageSummary } from './types';
+
+// Published list prices in USD per million tokens (prompts up to 200k tokens)
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'google/gemini-2.5-pro': { input: 1.25, output: 10 },
+  'google/gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'google/gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'google/gemini-2.0-flash': { input: 0.1, output: 0.4 }
+};
+
+const USAGE_KV_PREFIX = 'usage:';
+
+// KV records expire on their own after roughly a quarter
+const USAGE_RETENTION_SECONDS = 92 * 24 * 60 * 60;
+
+const MAX_REPORT_DAYS = 92;
+
+class PriceTableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PriceTableError';
+  }
+}
+
+function parsePriceTable(raw: string): Record<string, ModelPrice> {
+  let table: Record<string, ModelPrice>;
+  
+  try {
+    table = JSON.parse(raw) as Record<string, ModelPrice>;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid JSON';
+    throw new PriceTableError(`MODEL_PRICES is not valid JSON: ${reason}`);
+  }
+  
+  if (!table || typeof table !== 'object' || Array.isArray(table)) {
+    throw new PriceTableError('MODEL_PRICES must be an object keyed by upstream model');
+  }
+  
+  Object.entries(table).forEach(([model, price]) => {
+    if (typeof price?.input !== 'number' || typeof price?.output !== 'number' || price.input < 0 || price.output < 0) {
+      throw new PriceTableError(`MODEL_PRICES["${model}"] must have non-negative "input" and "output" prices`);
+    }
+  });
+  
+  return table;
+}
+
+function getPriceTable(env: Env): Record<string, ModelPrice> {
+  return env.MODEL_PRICES ? { ...DEFAULT_MODEL_PRICES, ...parsePriceTable(env.MODEL_PRICES) } : DEFAULT_MODEL_PRICES;
+}
+
+function estimateCost(upstreamModel: string, inputTokens: number, outputTokens: number, prices: Record<string, ModelPrice>): number | null {
+  // Price tables may use bare Google model names
+  const price = prices[upstreamModel] || prices[upstreamModel.replace(/^google\//, '')];
+  if (!price) return null;
+  
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+function createMemoryUsageStore(): UsageStore {
+  const records: UsageRecord[] = [];
+  
+  return {
+    async record(record: UsageRecord): Promise<void> {
+      records.push(record);
+    },
+    async list(days: string[]): Promise<UsageRecord[]> {
+      return records.filter(record => days.includes(record.timestamp.slice(0, 10)));
+    }
+  };
+}
+
+function createKVUsageStore(kv: KVNamespace): UsageStore {
+  return {
+    async record(record: UsageRecord): Promise<void> {
+      // Append-only keys avoid read-modify-write races; the record rides along as metadata so list() returns it
+      const key = `${USAGE_KV_PREFIX}${record.timestamp.slice(0, 10)}:${record.timestamp}:${Math.random().toString(36).substr(2, 9)}`;
+      await kv.put(key, '', { metadata: record, expirationTtl: USAGE_RETENTION_SECONDS });
+    },
+    async list(days: string[]): Promise<UsageRecord[]> {
+      const records: UsageRecord[] = [];
+      
+      for (const day of days) {
+        let cursor: string | undefined;
+        do {
+          const page = await kv.list<UsageRecord>({ prefix: `${USAGE_KV_PREFIX}${day}:`, cursor });
+          page.keys.forEach(key => {
+            if (key.metadata) records.push(key.metadata);
+          });
+          cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+      }
+      
+      return records;
+    }
+  };
+}
+
+// Without USAGE_KV, /admin/usage only reports requests served by this isolate
+const usageStores = createStoreSelector(createMemoryUsageStore, createKVUsageStore);
+
+function getUsageStore(env: Env): UsageStore {
+  return usageStores.get(env.USAGE_KV);
+}
+
+function resetUsageStore(): void {
+  usageStores.reset();
+}
+
+async function recordUsage(store: UsageStore, record: UsageRecord): Promise<void> {
+  try {
+    await store.record(record);
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
+
+/**
+ * Expands an inclusive YYYY-MM-DD range into its days, or returns null
+ * for malformed, reversed or overlong ranges
+ */
+function getReportDays(from: string, to: string): string[] | null {
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (!datePattern.test(from) || !datePattern.test(to)) return null;
+  
+  const start = Date.parse(`${from}T00:00:00Z`);
+  const end = Date.parse(`${to}T00:00:00Z`);
+  if (Number.isNaN(start) || Number.isNaN(end) || start > end) return null;
+  
+  const days: string[] = [];
+  for (let day = start; day <= end; day += 24 * 60 * 60 * 1000) {
+    days.push(new Date(day).toISOString().slice(0, 10));
+    if (days.length > MAX_REPORT_DAYS) return null;
+  }
+  
+  return days;
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+function aggregateUsage(
+  records: UsageRecord[],
+  from: string,
+  to: string,
+  prices: Record<string, ModelPrice>
+): UsageReport {
+  const groups = new Map<string, UsageSummary & { totalLatency: number }>();
+  
+  records.forEach(record => {
+    const date = record.timestamp.slice(0, 10);
+    const groupKey = JSON.stringify([date, record.client, record.model, record.upstream_model]);
+    
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = {
+        date,
+        client: record.client,
+        model: record.model,
+        upstream_model: record.upstream_model,
+        requests: 0,
+        errors: 0,
+        input_tokens: 0,
+        output_tokens: 0,
+        average_latency_ms: 0,
+        estimated_cost_usd: null,
+        totalLatency: 0
+      };
+      groups.set(groupKey, group);
+    }
+    
+    group.requests++;
+    if (record.status >= 400) group.errors++;
+    group.input_tokens += record.input_tokens;
+    group.output_tokens += record.output_tokens;
+    group.totalLatency += record.latency_ms;
+  });
+  
+  const data: UsageSummary[] = [...groups.values()]
+    .map(({ totalLatency, ...summary }) => {
+      const cost = estimateCost(summary.upstream_model, summary.input_tokens, summary.output_tokens, prices);
+      return {
+        ...summary,
+        average_latency_ms: Math.round(totalLatency / summary.requests),
+        estimated_cost_usd: cost === null ? null : roundCost(cost)
+      };
+    })
+    .sort((a, b) =>
+      a.date.localeCompare(b.date) ||
+      (a.client || '').localeCompare(b.client || '') ||
+      a.model.localeCompare(b.model) ||
+      a.upstream_model.localeCompare(b.upstream_model)
+    );
+  
+  return {
+    from,
+    to,
+    data,
+    totals: {
+      requests: data.reduce((sum, row) => sum + row.requests, 0),
+      errors: data.reduce((sum, row) => sum + row.errors, 0),
+      input_tokens: data.reduce((sum, row) => sum + row.input_tokens, 0),
+      output_tokens: data.reduce((sum, row) => sum + row.output_tokens, 0),
+      estimated_cost_usd: roundCost(data.reduce((sum, row) => sum + (row.estimated_cost_usd || 0), 0))
+    }
+  };
+}
+
+export {
+  DEFAULT_MODEL_PRICES,
+  PriceTableError,
+  parsePriceTable,
+  getPriceTable,
+  estimateCost,
+  createMemoryUsageStore,
+  createKVUsageStore,
+  getUsageStore,
+  resetUsageStore,
+  recordUsage,
+  getReportDays,
+  aggregateUsage
+};
@@ -0,0 +1,264 @@
+/**
+ * Request validation mirroring the Anthropic Messages API rules
+ * Errors name the offending field as a dotted path, e.g. `messages.3.content.0.tool_use_id`,
+ * so requests fail here with a precise message instead of confusingly upstream
+ */
+
+import { validateMCPServers } from './mcp';
+import { AnthropicContent, AnthropicMessage, AnthropicRequest, ConversionResult } from './types';
+
+const CONTENT_TYPES: Record<AnthropicContent['type'], AnthropicMessage['role'][]> = {
+  text: ['user', 'assistant'],
+  image: ['user'],
+  tool_use: ['assistant'],
+  tool_result: ['user'],
+  mcp_tool_use: ['assistant'],
+  mcp_tool_result: ['assistant'],
+  thinking: ['assistant'],
+  redacted_thinking: ['assistant']
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+function checkNumberRange(value: unknown, field: string, min: number, max: number): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max) {
+    return `${field}: must be a number between ${min} and ${max}`;
+  }
+  return null;
+}
+
+function checkTextBlock(block: Record<string, any>, path: string): string | null {
+  if (typeof block.text !== 'string') return `${path}.text: must be a string`;
+  if (!block.text) return `${path}.text: text content blocks must be non-empty`;
+  return null;
+}
+
+function checkImageBlock(block: Record<string, any>, path: string): string | null {
+  const source = block.source;
+  if (!isObject(source)) return `${path}.source: must be an object`;
+  if (source.type === 'base64') {
+    if (!isNonEmptyString(source.media_type)) return `${path}.source.media_type: must be a non-empty string`;
+    if (!isNonEmptyString(source.data)) return `${path}.source.data: must be a non-empty string`;
+    return null;
+  }
+  if (source.type === 'url') {
+    return isNonEmptyString(source.url) ? null : `${path}.source.url: must be a non-empty string`;
+  }
+  return `${path}.source.type: must be "base64" or "url"`;
+}
+
+function checkToolResultContent(content: unknown, path: string): string | null {
+  if (content === undefined || typeof content === 'string') return null;
+  if (!Array.isArray(content)) return `${path}: must be a string or an array of content blocks`;
+  
+  for (let i = 0; i < content.length; i++) {
+    const block = content[i];
+    const blockPath = `${path}.${i}`;
+    if (!isObject(block)) return `${blockPath}: must be an object`;
+    if (block.type === 'text') {
+      const error = checkTextBlock(block, blockPath);
+      if (error) return error;
+    } else if (block.type === 'image') {
+      const error = checkImageBlock(block, blockPath);
+      if (error) return error;
+    } else {
+      return `${blockPath}.type: tool_result content must be "text" or "image" blocks`;
+    }
+  }
+  return null;
+}
+
+// toolUseIds holds the tool_use ids of the message before this one
+function checkContentBlock(
+  block: unknown,
+  path: string,
+  role: AnthropicMessage['role'],
+  toolUseIds: Set<string>
+): string | null {
+  if (!isObject(block)) return `${path}: must be an object`;
+  
+  const type = block.type as AnthropicContent['type'];
+  if (!Object.prototype.hasOwnProperty.call(CONTENT_TYPES, type)) {
+    return `${path}.type: unknown content type "${String(type)}"`;
+  }
+  if (!CONTENT_TYPES[type].includes(role)) {
+    return `${path}.type: "${type}" blocks are not allowed in ${role} messages`;
+  }
+  
+  switch (type) {
+    case 'text':
+      return checkTextBlock(block, path);
+    case 'image':
+      return checkImageBlock(block, path);
+    case 'tool_use':
+    case 'mcp_tool_use':
+      if (!isNonEmptyString(block.id)) return `${path}.id: must be a non-empty string`;
+      if (!isNonEmptyString(block.name)) return `${path}.name: must be a non-empty string`;
+      if (!isObject(block.input)) return `${path}.input: must be an object`;
+      return null;
+    case 'tool_result':
+      if (!isNonEmptyString(block.tool_use_id)) return `${path}.tool_use_id: must be a non-empty string`;
+      if (!toolUseIds.has(block.tool_use_id)) {
+        return `${path}.tool_use_id: no tool_use block with id "${block.tool_use_id}" in the previous message`;
+      }
+      if (block.is_error !== undefined && typeof block.is_error !== 'boolean') return `${path}.is_error: must be a boolean`;
+      return checkToolResultContent(block.content, `${path}.content`);
+    case 'mcp_tool_result':
+      if (!isNonEmptyString(block.tool_use_id)) return `${path}.tool_use_id: must be a non-empty string`;
+      return checkToolResultContent(block.content, `${path}.content`);
+    case 'thinking':
+      return typeof block.thinking === 'string' ? null : `${path}.thinking: must be a string`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Roles must alternate, every message but a final assistant prefill needs content,
+ * and each tool_result must answer a tool_use from the message right before it
+ */
+function checkMessages(messages: unknown[]): string | null {
+  let toolUseIds = new Set<string>();
+  
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    const path = `messages.${i}`;
+    if (!isObject(message)) return `${path}: must be an object`;
+    if (message.role !== 'user' && message.role !== 'assistant') {
+      return `${path}.role: must be "user" or "assistant"`;
+    }
+    if (i > 0 && (messages[i - 1] as AnthropicMessage).role === message.role) {
+      return `${path}.role: roles must alternate between "user" and "assistant", but found multiple "${message.role}" roles in a row`;
+    }
+    
+    const isFinalAssistant = i === messages.length - 1 && message.role === 'assistant';
+    const content = message.content;
+    if (typeof content === 'string') {
+      if (!content && !isFinalAssistant) {
+        return `${path}.content: all messages must have non-empty content except for the optional final assistant message`;
+      }
+      toolUseIds = new Set();
+      continue;
+    }
+    if (!Array.isArray(content)) return `${path}.content: must be a string or an array of content blocks`;
+    if (content.length === 0 && !isFinalAssistant) {
+      return `${path}.content: all messages must have non-empty content except for the optional final assistant message`;
+    }
+    
+    for (let j = 0; j < content.length; j++) {
+      const error = checkContentBlock(content[j], `${path}.content.${j}`, message.role, toolUseIds);
+      if (error) return error;
+    }
+    
+    toolUseIds = new Set(content.filter(block => block.type === 'tool_use').map(block => block.id as string));
+  }
+  return null;
+}
+
+function checkTools(tools: unknown): string | null {
+  if (tools === undefined) return null;
+  if (!Array.isArray(tools)) return 'tools: must be an array';
+  
+  const names = new Set<string>();
+  for (let i = 0; i < tools.length; i++) {
+    const tool = tools[i];
+    if (!isObject(tool)) return `tools.${i}: must be an object`;
+    if (!isNonEmptyString(tool.name)) return `tools.${i}.name: must be a non-empty string`;
+    if (names.has(tool.name)) return `tools.${i}.name: tool names must be unique, found "${tool.name}" more than once`;
+    
+    // MCP tool definitions carry inputSchema instead of input_schema
+    const schema = tool.input_schema ?? tool.inputSchema;
+    if (!isObject(schema) || schema.type !== 'object') {
+      return `tools.${i}.input_schema: must be a JSON schema with type "object"`;
+    }
+    names.add(tool.name);
+  }
+  return null;
+}
+
+function checkSamplingParameters(request: AnthropicRequest): string | null {
+  if (request.max_tokens !== undefined && (!Number.isInteger(request.max_tokens) || request.max_tokens < 1)) {
+    return 'max_tokens: must be an integer of at least 1';
+  }
+  
+  const rangeError = checkNumberRange(request.temperature, 'temperature', 0, 1) || checkNumberRange(request.top_p, 'top_p', 0, 1);
+  if (rangeError) return rangeError;
+  
+  if (request.stop_sequences !== undefined) {
+    if (!Array.isArray(request.stop_sequences)) return 'stop_sequences: must be an array of strings';
+    const index = request.stop_sequences.findIndex(sequence => typeof sequence !== 'string' || !sequence.trim());
+    if (index !== -1) return `stop_sequences.${index}: stop sequences must contain non-whitespace characters`;
+  }
+  
+  if (request.stream !== undefined && typeof request.stream !== 'boolean') {
+    return 'stream: must be a boolean';
+  }
+  return null;
+}
+
+function validateAnthropicRequest(request: AnthropicRequest): ConversionResult<void> {
+  if (!request.model) {
+    return { success: false, error: 'Missing required field: model' };
+  }
+  
+  if (!request.messages || !Array.isArray(request.messages)) {
+    return { success: false, error: 'Missing or invalid messages field' };
+  }
+  
+  if (request.messages.length === 0) {
+    return { success: false, error: 'Messages array cannot be empty' };
+  }
+  
+  const fieldError = checkSamplingParameters(request) || checkMessages(request.messages) || checkTools(request.tools);
+  if (fieldError) {
+    return { success: false, error: fieldError };
+  }
+  
+  if (request.tool_choice !== undefined) {
+    const toolChoice = request.tool_choice;
+    const type = typeof toolChoice === 'object' && toolChoice !== null ? toolChoice.type : toolChoice;
+    if (!['auto', 'any', 'none', 'tool'].includes(type as string) || (type === 'tool' && typeof toolChoice !== 'object')) {
+      return { success: false, error: 'tool_choice.type must be one of "auto", "any", "none" or "tool"' };
+    }
+    if (typeof toolChoice === 'object' && toolChoice.type === 'tool' && !toolChoice.name) {
+      return { success: false, error: 'tool_choice.name is required when tool_choice.type is "tool"' };
+    }
+  }
+  
+  if (request.system !== undefined && typeof request.system !== 'string') {
+    const valid = Array.isArray(request.system)
+      && request.system.every(block => block?.type === 'text' && typeof block.text === 'string');
+    if (!valid) {
+      return { success: false, error: 'system must be a string or an array of text blocks' };
+    }
+  }
+  
+  if (request.thinking !== undefined) {
+    const thinking = request.thinking;
+    if (thinking?.type !== 'enabled' && thinking?.type !== 'disabled') {
+      return { success: false, error: 'thinking.type must be "enabled" or "disabled"' };
+    }
+    if (thinking.type === 'enabled') {
+      if (!Number.isInteger(thinking.budget_tokens) || thinking.budget_tokens < 1024) {
+        return { success: false, error: 'thinking.budget_tokens must be an integer of at least 1024' };
+      }
+      if (request.max_tokens !== undefined && thinking.budget_tokens >= request.max_tokens) {
+        return { success: false, error: 'thinking.budget_tokens must be less than max_tokens' };
+      }
+    }
+  }
+  
+  if (request.mcp_servers !== undefined) {
+    return validateMCPServers(request.mcp_servers);
+  }
+  
+  return { success: true };
+}
+
+export {
+  validateAnthropicRequest
+};
@@ -9,64 +9,86 @@ import {
   AnthropicMessage,
   AnthropicContent,
   AnthropicTool,
+  AnthropicCacheControl,
   AnthropicStreamChunk,
   GeminiRequest,
   GeminiResponse,
   GeminiMessage,
+  GeminiContentPart,
   GeminiTool,
   GeminiToolCall,
+  GeminiToolCallDelta,
   GeminiStreamChunk,
+  GeminiChoice,
+  StreamState,
+  PromptCacheUse,
+  ToolNameMap,
+  CacheBreakpoint,
   MCPTool,
+  MCPSession,
   Env,
   ErrorResponse,
-  ModelMapping,
-  ConversionResult
+  ModelRoute,
+  ModelInfo,
+  ListResponse,
+  RoutingTable,
+  AuthenticatedClient,
+  UpstreamCallResult,
+  UpstreamStreamParser,
+  ConversionResult,
+  CountTokensResponse,
+  MessageBatch,
+  MessageBatchRecord,
+  MessageBatchResult,
+  BatchStore,
+  BatchRequestRunner,
+  AnthropicStreamTranslator,
+  MessagesApiAdapter
 } from './types';
-
-const MODEL_MAPPING: ModelMapping = {
-  // Claude 3 Sonnet variants -> Gemini 2.5 Flash
-  'claude-3-sonnet': 'google/gemini-2.5-flash',
-  'claude-3-sonnet-20240229': 'google/gemini-2.5-flash',
-  'claude-3.5-sonnet': 'google/gemini-2.5-flash',
-  'claude-3.5-sonnet-20240620': 'google/gemini-2.5-flash',
-  'claude-3.5-sonnet-20241022': 'google/gemini-2.5-flash',
-  
-  // Claude 3 Opus variants -> Gemini 2.5 Pro
-  'claude-3-opus': 'google/gemini-2.5-pro',
-  'claude-3-opus-20240229': 'google/gemini-2.5-pro',
-  
-  // Claude 3 Haiku variants -> Gemini 2.5 Flash Lite
-  'claude-3-haiku': 'google/gemini-2.5-flash-lite',
-  'claude-3-haiku-20240307': 'google/gemini-2.5-flash-lite',
-  
-  // Claude 4 variants (future-proofing) -> Best available Gemini models
-  'claude-4-opus': 'google/gemini-2.5-pro',
-  'claude-4-sonnet': 'google/gemini-2.5-flash',
-  'claude-4-haiku': 'google/gemini-2.5-flash-lite'
-};
-
-function getGeminiModel(claudeModel: string): string {
-  // Direct mapping first
-  if (MODEL_MAPPING[claudeModel]) {
-    return MODEL_MAPPING[claudeModel];
-  }
-  
-  // Pattern-based fallback mapping
-  const lowerModel = claudeModel.toLowerCase();
-  
-  if (lowerModel.includes('opus')) {
-    return 'google/gemini-2.5-pro';
-  } else if (lowerModel.includes('sonnet')) {
-    return 'google/gemini-2.5-flash';
-  } else if (lowerModel.includes('haiku')) {
-    return 'google/gemini-2.5-flash-lite';
-  }
-  
-  // Default fallback
-  return 'google/gemini-2.5-flash';
-}
-
-const GEMINI_API_BASE = 'https://api.aimlapi.com/v1/chat/completions';
+import { estimateTokens, estimateRequestTokens } from './tokenizer';
+import {
+  DEFAULT_ROUTING_TABLE,
+  RoutingConfigError,
+  loadRoutingTable,
+  resolveModelRoute,
+  getGeminiModel
+} from './routing';
+import { getProvider } from './providers';
+import { normalizeTools, collectToolNames, collectToolAnnotations, createToolNameMap } from './tools';
+import { sanitizeSchema } from './schema';
+import { applyPromptCache, convertCacheUsage, getPromptCacheStore } from './cache';
+import { classifyUpstreamError, extractStreamError } from './errors';
+import { callUpstreamWithRetry, getRetryOptions, sleep } from './retry';
+import { AuthConfigError, authenticateRequest, isAdminRequest, isModelAllowed } from './auth';
+import { completionAdapter } from './complete';
+import { openAIChatAdapter } from './openai';
+import { MAX_MCP_TOOL_TURNS, MCPError, connectMCPServers, closeMCPSession, callMCPTool } from './mcp';
+import { validateAnthropicRequest } from './validation';
+import {
+  RateLimiterDurableObject,
+  getRateLimitStore,
+  checkRateLimits,
+  recordRateLimitUsage,
+  createRateLimitHeaders,
+  describeRateLimit
+} from './ratelimit';
+import {
+  PriceTableError,
+  getPriceTable,
+  getUsageStore,
+  recordUsage,
+  getReportDays,
+  aggregateUsage
+} from './usage';
+import {
+  createBatchRecord,
+  validateBatchRequests,
+  getBatchStore,
+  getBatchConcurrency,
+  needsProcessing,
+  markCanceling,
+  processMessageBatch
+} from './batches';
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
@@ -75,7 +97,7 @@ export default {
     if (request.method === 'OPTIONS') {
       return handleCORS();
     }
-
+    
     try {
       const url = new URL(request.url);
       console.log(`[${new Date().toISOString()}] ${request.method} ${url.pathname}`);
@@ -86,15 +108,74 @@ export default {
         return createErrorResponse('configuration_error', 'GEMINI_API_KEY not configured', 500);
       }
       
+      // Admin routes authenticate with ADMIN_API_KEY instead of client keys
+      if (url.pathname === '/admin/usage') {
+        return await handleAdminUsage(request, url, env);
+      }
+      
+      // Routing config is parsed once per isolate; a bad config fails every request loudly
+      let routingTable: RoutingTable;
+      try {
+        routingTable = await loadRoutingTable(env);
+      } catch (error) {
+        if (error instanceof RoutingConfigError) {
+          console.error(`Invalid model routing config: ${error.message}`);
+          return createErrorResponse('configuration_error', `Invalid model routing config: ${error.message}`, 500);
+        }
+        throw error;
+      }
+      
+      // Inbound auth is on once client keys are configured
+      let client: AuthenticatedClient | null;
+      try {
+        const auth = await authenticateRequest(request, env);
+        if (!auth.success) {
+          return createErrorResponse('authentication_error', auth.error || 'Authentication failed', 401);
+        }
+        client = auth.data || null;
+      } catch (error) {
+        if (error instanceof AuthConfigError) {
+          console.error(`Invalid client key config: ${error.message}`);
+          return createErrorResponse('configuration_error', `Invalid client key config: ${error.message}`, 500);
+        }
+        throw error;
+      }
+      
+      if (url.pathname === '/v1/models' || url.pathname.startsWith('/v1/models/')) {
+        return handleModels(request, url, routingTable, client);
+      }
+      
+      if (url.pathname === '/v1/messages/count_tokens') {
+        return await handleCountTokens(request, env, routingTable, client);
+      }
+      
+      if (url.pathname === '/v1/messages/batches' || url.pathname.startsWith('/v1/messages/batches/')) {
+        return await handleMessageBatches(request, url, env, routingTable, client, ctx);
+      }
+      
       if (url.pathname === '/v1/messages') {
-        const result = await handleAnthropicToGemini(request, env);
+        const result = await handleAnthropicToGemini(request, env, routingTable, client, ctx);
+        const duration = Date.now() - startTime;
+        console.log(`[${new Date().toISOString()}] Request completed in ${duration}ms`);
+        return result;
+      }
+      
+      if (url.pathname === '/v1/complete') {
+        const result = await handleComplete(request, env, routingTable, client, ctx);
+        const duration = Date.now() - startTime;
+        console.log(`[${new Date().toISOString()}] Request completed in ${duration}ms`);
+        return result;
+      }
+      
+      if (url.pathname === '/v1/chat/completions') {
+        const result = await handleChatCompletions(request, env, routingTable, client, ctx);
         const duration = Date.now() - startTime;
         console.log(`[${new Date().toISOString()}] Request completed in ${duration}ms`);
         return result;
       }
       
       console.log(`[${new Date().toISOString()}] Route not found: ${url.pathname}`);
-      return createErrorResponse('not_found', 'Endpoint not found', 404);
+      return createErrorResponse('not_found_error', 'Endpoint not found', 404);
     } catch (error) {
       const duration = Date.now() - startTime;
       console.error(`[${new Date().toISOString()}] Unhandled error after ${duration}ms:`, error);
@@ -104,7 +185,7 @@ export default {
   }
 };
 
-function createErrorResponse(type: string, message: string, status = 400): Response {
+function createErrorResponse(type: string, message: string, status = 400, extraHeaders: Record<string, string> = {}): Response {
   const errorResponse: ErrorResponse = {
     type: 'error',
     error: {
@@ -117,7 +198,8 @@ function createErrorResponse(type: string, message: string, status = 400): Respo
     status: status,
     headers: { 
       'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*'
+      'Access-Control-Allow-Origin': '*',
+      ...extraHeaders
     }
   });
 }
@@ -133,7 +215,13 @@ function handleCORS(): Response {
   });
 }
 
-async function handleAnthropicToGemini(request: Request, env: Env): Promise<Response> {
+async function handleAnthropicToGemini(
+  request: Request,
+  env: Env,
+  routingTable: RoutingTable,
+  client: AuthenticatedClient | null = null,
+  ctx?: ExecutionContext
+): Promise<Response> {
   let anthropicRequest: AnthropicRequest;
   
   try {
@@ -143,35 +231,865 @@ async function handleAnthropicToGemini(request: Request, env: Env): Promise<Resp
     return createErrorResponse('invalid_request_error', 'Invalid JSON in request body');
   }
   
+  return await handleAnthropicRequest(anthropicRequest, env, routingTable, client, ctx);
+}
+
+// The Messages pipeline shared by /v1/messages and /v1/chat/completions
+async function handleAnthropicRequest(
+  anthropicRequest: AnthropicRequest,
+  env: Env,
+  routingTable: RoutingTable,
+  client: AuthenticatedClient | null = null,
+  ctx?: ExecutionContext
+): Promise<Response> {
+  const startTime = Date.now();
+  
   // Validate required fields
   const validation = validateAnthropicRequest(anthropicRequest);
   if (!validation.success) {
     return createErrorResponse('invalid_request_error', validation.error || 'Invalid request');
   }
   
+  if (!isModelAllowed(client, anthropicRequest.model)) {
+    return createModelPermissionError(client, anthropicRequest.model);
+  }
+  
   console.log(`Processing request for model: ${anthropicRequest.model}, streaming: ${anthropicRequest.stream}`);
   
   // Check if streaming is requested
   const isStreaming = anthropicRequest.stream === true;
+  let mcpSession: MCPSession | null = null;
   
   try {
-    // Convert Anthropic request to Gemini format
-    const conversionResult = convertAnthropicToGemini(anthropicRequest);
+    // Convert Anthropic request to Gemini format; tool names are mapped back on the way out
+    const toolNames = createToolNameMap(collectToolNames(anthropicRequest));
+    const conversionResult = convertAnthropicToGemini(anthropicRequest, routingTable, toolNames);
     if (!conversionResult.success || !conversionResult.data) {
       return createErrorResponse('conversion_error', conversionResult.error || 'Failed to convert request');
     }
     
     const geminiRequest = conversionResult.data;
     
-    // Add streaming parameter if needed
-    if (isStreaming) {
+    // Every outcome from here on is recorded for /admin/usage
+    const usageStore = getUsageStore(env);
+    const logUsage = (upstreamModel: string, status: number, usage: AnthropicResponse['usage']): Promise<void> =>
+      runInBackground(ctx, recordUsage(usageStore, {
+        timestamp: new Date().toISOString(),
+        client: client?.name || null,
+        model: anthropicRequest.model,
+        upstream_model: upstreamModel,
+        input_tokens: usage.input_tokens,
+        output_tokens: usage.output_tokens,
+        latency_ms: Date.now() - startTime,
+        status,
+        stream: isStreaming
+      }));
+    
+    // Per-key limits; input tokens are reserved from a local estimate and output up to max_tokens
+    const rateLimitStore = getRateLimitStore(env);
+    const estimatedInputTokens = estimateRequestTokens(geminiRequest);
+    const reservedOutputTokens = geminiRequest.max_tokens || 0;
+    const rateLimit = await checkRateLimits(client, estimatedInputTokens, rateLimitStore, reservedOutputTokens);
+    const rateLimitHeaders = rateLimit ? createRateLimitHeaders(rateLimit) : {};
+    if (rateLimit && !rateLimit.allowed) {
+      await logUsage(geminiRequest.model, 429, { input_tokens: 0, output_tokens: 0 });
+      return createErrorResponse('rate_limit_error', describeRateLimit(rateLimit.exceeded!), 429, rateLimitHeaders);
+    }
+    
+    // MCP servers are connected per request and their tools offered to the model as functions
+    if (anthropicRequest.mcp_servers?.length) {
+      try {
+        mcpSession = await connectMCPServers(anthropicRequest.mcp_servers);
+        addMCPTools(geminiRequest, mcpSession, toolNames);
+        if (geminiRequest.tools && !geminiRequest.tool_choice) {
+          geminiRequest.tool_choice = convertAnthropicToolChoice(anthropicRequest.tool_choice, toolNames);
+        }
+      } catch (error) {
+        if (error instanceof MCPError) {
+          await recordRateLimitUsage(client, estimatedInputTokens, { input_tokens: 0, output_tokens: 0 }, rateLimitStore, reservedOutputTokens);
+          return createErrorResponse('invalid_request_error', error.message);
+        }
+        throw error;
+      }
+    }
+    
+    // MCP tools run here between upstream turns, so those requests are never streamed upstream
+    const streamUpstream = isStreaming && !mcpSession;
+    
+    // Add streaming parameter if needed; usage arrives in a final chunk
+    if (streamUpstream) {
       geminiRequest.stream = true;
+      geminiRequest.stream_options = { include_usage: true };
+    }
+    
+    const route = resolveModelRoute(anthropicRequest.model, routingTable);
+    const provider = getProvider(route.provider);
+    
+    // cache_control breakpoints; MCP turns change tool_choice mid-request, so they always send the full prompt
+    const promptCache = geminiRequest.cache_breakpoints && !mcpSession
+      ? await applyPromptCache(geminiRequest, provider, env, getPromptCacheStore(env))
+      : null;
+    console.log(`Making request to Gemini API with model: ${geminiRequest.model} via ${provider.name} provider`);
+    
+    // Make request to Gemini API, retrying and then failing over to the route's fallback models
+    const upstreamModels = [...new Set([geminiRequest.model, ...(route.fallbacks || [])])];
+    const retryOptions = getRetryOptions(env);
+    const callUpstream = (request: GeminiRequest): Promise<UpstreamCallResult> => callUpstreamWithRetry(
+      upstreamModels,
+      model => provider.buildRequest({ ...request, model }, env),
+      retryOptions,
+      streamUpstream
+    );
+    
+    const rejectUpstream = async (failed: UpstreamCallResult): Promise<Response> => {
+      console.error(`Gemini API error: ${failed.response.status} ${failed.response.statusText}`);
+      const errorText = await failed.response.text();
+      console.error('Gemini API error response:', errorText);
+      
+      // Nothing was served, so release the input token reservation
+      await recordRateLimitUsage(client, estimatedInputTokens, { input_tokens: 0, output_tokens: 0 }, rateLimitStore, reservedOutputTokens);
+      
+      const upstreamError = classifyUpstreamError(failed.response.status, errorText, failed.response.headers);
+      await logUsage(failed.model, upstreamError.status, { input_tokens: 0, output_tokens: 0 });
+      const headers = { ...rateLimitHeaders, 'x-upstream-model': failed.model };
+      return createErrorResponse(
+        upstreamError.type,
+        upstreamError.message,
+        upstreamError.status,
+        upstreamError.retryAfter ? { ...headers, 'retry-after': upstreamError.retryAfter } : headers
+      );
+    };
+    
+    let upstreamResult = await callUpstream(geminiRequest);
+    if (!upstreamResult.response.ok) {
+      return await rejectUpstream(upstreamResult);
+    }
+    
+    if (upstreamResult.model !== geminiRequest.model) {
+      console.warn(`Served by fallback model ${upstreamResult.model} after ${upstreamResult.attempts} attempts`);
+    }
+    
+    if (streamUpstream) {
+      const servedRequest = { ...geminiRequest, model: upstreamResult.model };
+      return handleStreamingResponse(upstreamResult.response, anthropicRequest, provider.createStreamParser(servedRequest), {
+        headers: { ...rateLimitHeaders, 'x-upstream-model': upstreamResult.model },
+        ctx,
+        toolNames,
+        promptCache,
+        // Streams often end without usage, so fall back to local estimates
+        onComplete: async state => {
+          const usage = {
+            input_tokens: state.inputTokens || estimatedInputTokens,
+            output_tokens: state.outputTokens || state.estimatedOutputTokens
+          };
+          await recordRateLimitUsage(client, estimatedInputTokens, usage, rateLimitStore, reservedOutputTokens);
+          await logUsage(upstreamResult.model, 200, usage);
+        }
+      });
+    }
+    
+    const parseUpstream = async (result: UpstreamCallResult): Promise<GeminiResponse> => limitToolCalls(
+      provider.parseResponse(await result.response.json(), { ...geminiRequest, model: result.model }),
+      anthropicRequest.tool_choice
+    );
+    let geminiData = await parseUpstream(upstreamResult);
+    
+    // Run the model's MCP tool calls and send the results back until it answers without one
+    const mcpContent: AnthropicContent[] = [];
+    const mcpUsage = { input_tokens: 0, output_tokens: 0 };
+    for (let turn = 1; mcpSession; turn++) {
+      const mcpTurn = await runMCPToolTurn(geminiData, mcpSession, toolNames);
+      if (!mcpTurn) break;
+      
+      mcpContent.push(...mcpTurn.content);
+      if (mcpTurn.clientToolsPending) break;
+      
+      mcpUsage.input_tokens += geminiData.usage?.prompt_tokens || 0;
+      mcpUsage.output_tokens += geminiData.usage?.completion_tokens || 0;
+      geminiRequest.messages.push(...mcpTurn.messages);
+      
+      // Past the turn limit the model has to answer with what it has
+      if (turn >= MAX_MCP_TOOL_TURNS) {
+        geminiRequest.tool_choice = 'none';
+      }
+      
+      upstreamResult = await callUpstream(geminiRequest);
+      if (!upstreamResult.response.ok) {
+        return await rejectUpstream(upstreamResult);
+      }
+      geminiData = await parseUpstream(upstreamResult);
+    }
+    
+    // Convert Gemini response back to Anthropic format
+    const responseResult = convertGeminiToAnthropic(geminiData, anthropicRequest, toolNames, promptCache);
+    if (!responseResult.success || !responseResult.data) {
+      return createErrorResponse('conversion_error', responseResult.error || 'Failed to convert response');
+    }
+    
+    const anthropicResponse = responseResult.data;
+    if (mcpContent.length > 0) {
+      anthropicResponse.content = [...mcpContent, ...anthropicResponse.content.filter(block => block.type !== 'text' || block.text)];
+      anthropicResponse.usage.input_tokens += mcpUsage.input_tokens;
+      anthropicResponse.usage.output_tokens += mcpUsage.output_tokens;
+    }
+    
+    console.log('Successfully converted response to Anthropic format');
+    
+    // Cached prompt tokens still count towards usage and limits
+    const promptTokens = anthropicResponse.usage.input_tokens +
+      (anthropicResponse.usage.cache_creation_input_tokens || 0) +
+      (anthropicResponse.usage.cache_read_input_tokens || 0);
+    const usage = {
+      input_tokens: promptTokens || estimatedInputTokens,
+      output_tokens: anthropicResponse.usage.output_tokens
+    };
+    await recordRateLimitUsage(client, estimatedInputTokens, usage, rateLimitStore, reservedOutputTokens);
+    await logUsage(upstreamResult.model, 200, usage);
+    
+    const responseHeaders = { ...rateLimitHeaders, 'x-upstream-model': upstreamResult.model };
+    if (isStreaming) {
+      return createBufferedStreamResponse(anthropicResponse, responseHeaders);
+    }
+    
+    return new Response(JSON.stringify(anthropicResponse), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        ...responseHeaders
+      }
+    });
+  } catch (error) {
+    console.error('Error processing request:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown processing error';
+    return createErrorResponse('internal_error', `Processing failed: ${errorMessage}`, 500);
+  } finally {
+    if (mcpSession) {
+      await closeMCPSession(mcpSession);
+    }
+  }
+}
+
+/**
+ * Serves another API on top of the Messages pipeline: the adapter converts the request
+ * to an AnthropicRequest and the response, JSON or SSE, back to its own format.
+ * Errors keep the Anthropic body, whose error.message and error.type OpenAI SDKs read as well
+ */
+async function handleAdaptedRequest<T>(
+  adapter: MessagesApiAdapter<T>,
+  request: Request,
+  env: Env,
+  routingTable: RoutingTable,
+  client: AuthenticatedClient | null = null,
+  ctx?: ExecutionContext
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return createErrorResponse('invalid_request_error', `Method ${request.method} not allowed on ${adapter.path}`, 405);
+  }
+  
+  let adaptedRequest: T;
+  try {
+    adaptedRequest = await request.json() as T;
+  } catch (error) {
+    console.error('Failed to parse request JSON:', error);
+    return createErrorResponse('invalid_request_error', 'Invalid JSON in request body');
+  }
+  
+  const conversion = adapter.convertRequest(adaptedRequest);
+  if (!conversion.success || !conversion.data) {
+    return createErrorResponse('invalid_request_error', conversion.error || 'Invalid request');
+  }
+  
+  const response = await handleAnthropicRequest(conversion.data, env, routingTable, client, ctx);
+  if (!response.ok) {
+    return response;
+  }
+  
+  // Rate limit and x-upstream-model headers carry over
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  
+  if (!headers['content-type']?.startsWith('text/event-stream')) {
+    const anthropicResponse = await response.json() as AnthropicResponse;
+    return new Response(JSON.stringify(adapter.convertResponse(anthropicResponse, adaptedRequest)), {
+      status: 200,
+      headers
+    });
+  }
+  
+  const { readable, writable } = new TransformStream();
+  const piping = pipeAnthropicStream(response.body!, writable.getWriter(), adapter.createStreamTranslator(adaptedRequest));
+  ctx?.waitUntil?.(piping);
+  
+  return new Response(readable, { status: 200, headers });
+}
+
+// OpenAI Chat Completions
+function handleChatCompletions(
+  request: Request,
+  env: Env,
+  routingTable: RoutingTable,
+  client: AuthenticatedClient | null = null,
+  ctx?: ExecutionContext
+): Promise<Response> {
+  return handleAdaptedRequest(openAIChatAdapter, request, env, routingTable, client, ctx);
+}
+
+// Legacy Text Completions, for clients still sending Human/Assistant prompts
+function handleComplete(
+  request: Request,
+  env: Env,
+  routingTable: RoutingTable,
+  client: AuthenticatedClient | null = null,
+  ctx?: ExecutionContext
+): Promise<Response> {
+  return handleAdaptedRequest(completionAdapter, request, env, routingTable, client, ctx);
+}
+
+/**
+ * Reads an Anthropic event stream and writes each event as the translator rewrites it.
+ * An error event, or a failed read, ends the stream with the translator's error frame
+ */
+async function pipeAnthropicStream(
+  body: ReadableStream,
+  writer: WritableStreamDefaultWriter<any>,
+  translator: AnthropicStreamTranslator
+): Promise<void> {
+  const encoder = new TextEncoder();
+  const write = async (frames: string[]): Promise<void> => {
+    for (const frame of frames) {
+      await writer.write(encoder.encode(frame));
     }
+  };
+  
+  try {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
     
-    console.log(`Making request to Gemini API with model: ${geminiRequest.model}`);
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        
+        const event = JSON.parse(line.slice(5).trim()) as AnthropicStreamChunk;
+        if (event.type === 'error') {
+          await write([translator.error(event.error || { type: 'api_error', message: 'Stream processing failed' })]);
+          return;
+        }
+        await write(translator.translate(event));
+      }
+    }
     
-    // Make request to Gemini API
-    const geminiResponse = await fetch(GEMINI_API_BASE, {
+    await write(translator.finish());
+  } catch (error) {
+    console.error('Translated stream error:', error);
+    await write([translator.error({ type: 'api_error', message: error instanceof Error ? error.message : 'Stream processing failed' })]);
+  } finally {
+    await writer.close();
+  }
+}
+
+// Defers bookkeeping past the response when the runtime allows it
+async function runInBackground(ctx: ExecutionContext | undefined, task: Promise<void>): Promise<void> {
+  if (ctx?.waitUntil) {
+    ctx.waitUntil(task);
+    return;
+  }
+  await task;
+}
+
+async function handleMessageBatches(
+  request: Request,
+  url: URL,
+  env: Env,
+  routingTable: RoutingTable,
+  client: AuthenticatedClient | null,
+  ctx?: ExecutionContext
+): Promise<Response> {
+  const store = getBatchStore(env);
+  const [batchId, action, ...rest] = url.pathname.slice('/v1/messages/batches'.length).split('/').filter(Boolean).map(decodeURIComponent);
+  const notAllowed = (): Response =>
+    createErrorResponse('invalid_request_error', `Method ${request.method} not allowed on ${url.pathname}`, 405);
+  
+  // Processing runs past the response; polls restart it if the isolate running it went away
+  const startProcessing = (record: MessageBatchRecord): Promise<void> => runInBackground(ctx, processMessageBatch(
+    record.batch.id,
+    store,
+    createBatchRequestRunner(env, routingTable, client),
+    getBatchConcurrency(env)
+  ));
+  
+  if (!batchId) {
+    if (request.method === 'POST') {
+      return await createMessageBatch(request, url, client, store, startProcessing);
+    }
+    if (request.method === 'GET') {
+      return await listMessageBatches(url, client, store);
+    }
+    return notAllowed();
+  }
+  
+  if (rest.length > 0 || (action && action !== 'cancel' && action !== 'results')) {
+    return createErrorResponse('not_found_error', 'Endpoint not found', 404);
+  }
+  
+  // Batches are private to the key that created them
+  const record = await store.get(batchId);
+  if (!record || record.client !== (client?.name || null)) {
+    return createErrorResponse('not_found_error', `message_batch: ${batchId}`, 404);
+  }
+  
+  if (action === 'cancel') {
+    if (request.method !== 'POST') return notAllowed();
+    
+    if (record.batch.processing_status === 'in_progress') {
+      const canceledAt = new Date().toISOString();
+      await store.cancel(batchId, canceledAt);
+      markCanceling(record, canceledAt);
+    }
+    const response = createJsonResponse(toPublicBatch(record, url));
+    if (needsProcessing(record)) await startProcessing(record);
+    return response;
+  }
+  
+  if (request.method !== 'GET') return notAllowed();
+  
+  if (action === 'results') {
+    if (record.batch.processing_status !== 'ended') {
+      if (needsProcessing(record)) await startProcessing(record);
+      return createErrorResponse('invalid_request_error', `message_batch ${batchId} is still processing; results are available once it has ended`);
+    }
+    
+    // One JSON object per line, in request order
+    const order = new Map((await store.getRequests(batchId)).map((batchRequest, index) => [batchRequest.custom_id, index]));
+    const lines = (await store.getResults(batchId))
+      .sort((a, b) => (order.get(a.custom_id) ?? 0) - (order.get(b.custom_id) ?? 0))
+      .map(line => JSON.stringify(line));
+    return new Response(lines.length > 0 ? `${lines.join('\n')}\n` : '', {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/x-jsonl',
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  }
+  
+  const response = createJsonResponse(toPublicBatch(record, url));
+  if (needsProcessing(record)) await startProcessing(record);
+  return response;
+}
+
+async function createMessageBatch(
+  request: Request,
+  url: URL,
+  client: AuthenticatedClient | null,
+  store: BatchStore,
+  startProcessing: (record: MessageBatchRecord) => Promise<void>
+): Promise<Response> {
+  let body: { requests?: unknown };
+  try {
+    body = await request.json() as { requests?: unknown };
+  } catch {
+    return createErrorResponse('invalid_request_error', 'Invalid JSON in request body');
+  }
+  
+  const validation = validateBatchRequests(body?.requests);
+  if (!validation.success || !validation.data) {
+    return createErrorResponse('invalid_request_error', validation.error || 'Invalid batch');
+  }
+  
+  const requests = validation.data;
+  for (let i = 0; i < requests.length; i++) {
+    const params = requests[i].params;
+    const paramsValidation = validateAnthropicRequest(params);
+    if (!paramsValidation.success) {
+      return createErrorResponse('invalid_request_error', `requests[${i}].params: ${paramsValidation.error}`);
+    }
+    // Batch results are whole messages, and MCP sessions cannot outlive the request that opened them
+    if (params.stream) {
+      return createErrorResponse('invalid_request_error', `requests[${i}].params: stream is not supported in batches`);
+    }
+    if (params.mcp_servers?.length) {
+      return createErrorResponse('invalid_request_error', `requests[${i}].params: mcp_servers is not supported in batches`);
+    }
+    if (!isModelAllowed(client, params.model)) {
+      return createModelPermissionError(client, params.model);
+    }
+  }
+  
+  const record = createBatchRecord(requests.length, client?.name || null);
+  await store.create(record, requests);
+  console.log(`Created message batch ${record.batch.id} with ${requests.length} requests`);
+  
+  const response = createJsonResponse(toPublicBatch(record, url));
+  await startProcessing(record);
+  return response;
+}
+
+async function listMessageBatches(url: URL, client: AuthenticatedClient | null, store: BatchStore): Promise<Response> {
+  const limitParam = url.searchParams.get('limit');
+  const limit = limitParam === null ? 20 : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+    return createErrorResponse('invalid_request_error', 'limit: must be an integer between 1 and 1000');
+  }
+  
+  // Newest first, as Anthropic lists them
+  const batches = (await store.list())
+    .filter(record => record.client === (client?.name || null))
+    .map(record => toPublicBatch(record, url))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  
+  const page = paginateList(batches, limit, url.searchParams.get('before_id'), url.searchParams.get('after_id'));
+  if (!page) {
+    return createErrorResponse('invalid_request_error', 'before_id and after_id must reference listed batches and cannot be combined');
+  }
+  
+  return createJsonResponse(page);
+}
+
+function toPublicBatch(record: MessageBatchRecord, url: URL): MessageBatch {
+  const ended = record.batch.processing_status === 'ended';
+  return {
+    ...record.batch,
+    results_url: ended ? `${url.origin}/v1/messages/batches/${record.batch.id}/results` : null
+  };
+}
+
+/**
+ * The non-streaming /v1/messages pipeline for one batch request. Failures become
+ * errored results rather than responses. Usage and rate limits apply as for
+ * /v1/messages, except that a per-minute limit is waited out instead of failing
+ */
+function createBatchRequestRunner(env: Env, routingTable: RoutingTable, client: AuthenticatedClient | null): BatchRequestRunner {
+  const usageStore = getUsageStore(env);
+  const rateLimitStore = getRateLimitStore(env);
+  const retryOptions = getRetryOptions(env);
+  
+  const errored = (type: string, message: string): MessageBatchResult =>
+    ({ type: 'errored', error: { type: 'error', error: { type, message } } });
+  
+  return async (params: AnthropicRequest): Promise<MessageBatchResult> => {
+    const startTime = Date.now();
+    const toolNames = createToolNameMap(collectToolNames(params));
+    const conversionResult = convertAnthropicToGemini(params, routingTable, toolNames);
+    if (!conversionResult.success || !conversionResult.data) {
+      return errored('invalid_request_error', conversionResult.error || 'Failed to convert request');
+    }
+    
+    const geminiRequest = conversionResult.data;
+    const route = resolveModelRoute(params.model, routingTable);
+    const provider = getProvider(route.provider);
+    const logUsage = (upstreamModel: string, status: number, usage: AnthropicResponse['usage']): Promise<void> =>
+      recordUsage(usageStore, {
+        timestamp: new Date().toISOString(),
+        client: client?.name || null,
+        model: params.model,
+        upstream_model: upstreamModel,
+        input_tokens: usage.input_tokens,
+        output_tokens: usage.output_tokens,
+        latency_ms: Date.now() - startTime,
+        status,
+        stream: false
+      });
+    
+    // Only the daily output quota, or a request larger than a whole minute's allowance, fails
+    const estimatedInputTokens = estimateRequestTokens(geminiRequest);
+    const reservedOutputTokens = geminiRequest.max_tokens || 0;
+    for (;;) {
+      const rateLimit = await checkRateLimits(client, estimatedInputTokens, rateLimitStore, reservedOutputTokens);
+      if (!rateLimit || rateLimit.allowed) break;
+      
+      const exceeded = rateLimit.exceeded!;
+      if (exceeded.name === 'output-tokens' || (exceeded.name === 'input-tokens' && estimatedInputTokens > exceeded.limit)) {
+        await logUsage(geminiRequest.model, 429, { input_tokens: 0, output_tokens: 0 });
+        return errored('rate_limit_error', describeRateLimit(exceeded));
+      }
+      await sleep(Math.max(0, exceeded.resetAt - Date.now()));
+    }
+    
+    const upstreamResult = await callUpstreamWithRetry(
+      [...new Set([geminiRequest.model, ...(route.fallbacks || [])])],
+      model => provider.buildRequest({ ...geminiRequest, model }, env),
+      retryOptions,
+      false
+    );
+    
+    if (!upstreamResult.response.ok) {
+      const errorText = await upstreamResult.response.text();
+      const upstreamError = classifyUpstreamError(upstreamResult.response.status, errorText, upstreamResult.response.headers);
+      await recordRateLimitUsage(client, estimatedInputTokens, { input_tokens: 0, output_tokens: 0 }, rateLimitStore, reservedOutputTokens);
+      await logUsage(upstreamResult.model, upstreamError.status, { input_tokens: 0, output_tokens: 0 });
+      return errored(upstreamError.type, upstreamError.message);
+    }
+    
+    const geminiData = limitToolCalls(
+      provider.parseResponse(await upstreamResult.response.json(), { ...geminiRequest, model: upstreamResult.model }),
+      params.tool_choice
+    );
+    const responseResult = convertGeminiToAnthropic(geminiData, params, toolNames);
+    if (!responseResult.success || !responseResult.data) {
+      await recordRateLimitUsage(client, estimatedInputTokens, { input_tokens: 0, output_tokens: 0 }, rateLimitStore, reservedOutputTokens);
+      await logUsage(upstreamResult.model, 502, { input_tokens: 0, output_tokens: 0 });
+      return errored('api_error', responseResult.error || 'Failed to convert response');
+    }
+    
+    await recordRateLimitUsage(client, estimatedInputTokens, responseResult.data.usage, rateLimitStore, reservedOutputTokens);
+    await logUsage(upstreamResult.model, 200, responseResult.data.usage);
+    return { type: 'succeeded', message: responseResult.data };
+  };
+}
+
+async function handleAdminUsage(request: Request, url: URL, env: Env): Promise<Response> {
+  if (!env.ADMIN_API_KEY) {
+    return createErrorResponse('permission_error', 'Admin API is disabled: ADMIN_API_KEY is not configured', 403);
+  }
+  if (!await isAdminRequest(request, env)) {
+    return createErrorResponse('authentication_error', 'invalid admin API key', 401);
+  }
+  if (request.method !== 'GET') {
+    return createErrorResponse('invalid_request_error', `Method ${request.method} not allowed on ${url.pathname}`, 405);
+  }
+  
+  // Defaults to the last seven days (UTC), today included
+  const to = url.searchParams.get('to') || new Date().toISOString().slice(0, 10);
+  const from = url.searchParams.get('from') || new Date(Date.parse(`${to}T00:00:00Z`) - 6 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const days = getReportDays(from, to);
+  if (!days) {
+    return createErrorResponse('invalid_request_error', 'from and to must be YYYY-MM-DD dates in order, at most 92 days apart');
+  }
+  
+  let prices;
+  try {
+    prices = getPriceTable(env);
+  } catch (error) {
+    if (error instanceof PriceTableError) {
+      console.error(`Invalid price table: ${error.message}`);
+      return createErrorResponse('configuration_error', `Invalid price table: ${error.message}`, 500);
+    }
+    throw error;
+  }
+  
+  const clientFilter = url.searchParams.get('key');
+  const modelFilter = url.searchParams.get('model');
+  const records = (await getUsageStore(env).list(days)).filter(record =>
+    (!clientFilter || record.client === clientFilter) &&
+    (!modelFilter || record.model === modelFilter || record.upstream_model === modelFilter)
+  );
+  
+  return createJsonResponse(aggregateUsage(records, from, to, prices));
+}
+
+function handleModels(request: Request, url: URL, routingTable: RoutingTable, client: AuthenticatedClient | null = null): Response {
+  if (request.method !== 'GET') {
+    return createErrorResponse('invalid_request_error', `Method ${request.method} not allowed on ${url.pathname}`, 405);
+  }
+  
+  const modelId = url.pathname.startsWith('/v1/models/')
+    ? decodeURIComponent(url.pathname.slice('/v1/models/'.length))
+    : '';
+  
+  if (modelId) {
+    if (!isModelAllowed(client, modelId)) {
+      return createModelPermissionError(client, modelId);
+    }
+    
+    const model = getModelInfo(modelId, routingTable);
+    if (!model) {
+      return createErrorResponse('not_found_error', `model: ${modelId}`, 404);
+    }
+    return createJsonResponse(model);
+  }
+  
+  const limitParam = url.searchParams.get('limit');
+  const limit = limitParam === null ? 20 : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+    return createErrorResponse('invalid_request_error', 'limit: must be an integer between 1 and 1000');
+  }
+  
+  const page = paginateList(
+    listModelInfos(routingTable).filter(model => isModelAllowed(client, model.id)),
+    limit,
+    url.searchParams.get('before_id'),
+    url.searchParams.get('after_id')
+  );
+  if (!page) {
+    return createErrorResponse('invalid_request_error', 'before_id and after_id must reference listed models and cannot be combined');
+  }
+  
+  return createJsonResponse(page);
+}
+
+function createModelPermissionError(client: AuthenticatedClient | null, model: string): Response {
+  return createErrorResponse('permission_error', `API key "${client?.name}" does not have access to model ${model}`, 403);
+}
+
+function buildModelInfo(modelId: string, route: ModelRoute, createdAt: string): ModelInfo {
+  return {
+    type: 'model',
+    id: modelId,
+    display_name: formatModelDisplayName(modelId),
+    created_at: createdAt,
+    upstream_model: route.geminiModel,
+    routed_by: route.matchedBy
+  };
+}
+
+function listModelInfos(routingTable: RoutingTable = DEFAULT_ROUTING_TABLE): ModelInfo[] {
+  const modelIds = getExactModelIds(routingTable);
+  
+  return modelIds
+    .map(modelId => buildModelInfo(modelId, resolveModelRoute(modelId, routingTable), getModelCreatedAt(modelId, modelIds)))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at) || a.id.localeCompare(b.id));
+}
+
+function getModelInfo(modelId: string, routingTable: RoutingTable = DEFAULT_ROUTING_TABLE): ModelInfo | null {
+  const route = resolveModelRoute(modelId, routingTable);
+  
+  // Only models that an explicit rule or a pattern covers are advertised
+  if (route.matchedBy === 'default') {
+    return null;
+  }
+  
+  return buildModelInfo(modelId, route, getModelCreatedAt(modelId, getExactModelIds(routingTable)));
+}
+
+// Exact-match rules name concrete models; glob and regex rules only route them
+function getExactModelIds(routingTable: RoutingTable): string[] {
+  const modelIds = routingTable.rules
+    .filter(rule => rule.kind === 'exact')
+    .map(rule => rule.match);
+  
+  return [...new Set(modelIds)];
+}
+
+function getModelCreatedAt(modelId: string, knownModelIds: string[]): string {
+  const dateSuffix = /-(\d{4})(\d{2})(\d{2})$/;
+  
+  // Undated aliases take the release date of their newest dated snapshot
+  const dated = [modelId, ...knownModelIds.filter(id => id.startsWith(`${modelId}-`))]
+    .map(id => id.match(dateSuffix))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => `${match[1]}-${match[2]}-${match[3]}T00:00:00Z`)
+    .sort();
+  
+  return dated.length > 0 ? dated[dated.length - 1] : '1970-01-01T00:00:00Z';
+}
+
+function formatModelDisplayName(modelId: string): string {
+  return modelId
+    .replace(/-\d{8}$/, '')
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function paginateList<T extends { id: string }>(
+  items: T[],
+  limit: number,
+  beforeId: string | null,
+  afterId: string | null
+): ListResponse<T> | null {
+  if (beforeId && afterId) return null;
+  
+  let start = 0;
+  let end = items.length;
+  
+  if (afterId) {
+    const position = items.findIndex(item => item.id === afterId);
+    if (position === -1) return null;
+    start = position + 1;
+    end = Math.min(start + limit, items.length);
+  } else if (beforeId) {
+    const position = items.findIndex(item => item.id === beforeId);
+    if (position === -1) return null;
+    end = position;
+    start = Math.max(0, end - limit);
+  } else {
+    end = Math.min(limit, items.length);
+  }
+  
+  const data = items.slice(start, end);
+  
+  return {
+    data,
+    has_more: beforeId ? start > 0 : end < items.length,
+    first_id: data.length > 0 ? data[0].id : null,
+    last_id: data.length > 0 ? data[data.length - 1].id : null
+  };
+}
+
+function createJsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status: status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
+
+async function handleCountTokens(
+  request: Request,
+  env: Env,
+  routingTable: RoutingTable,
+  client: AuthenticatedClient | null = null
+): Promise<Response> {
+  let anthropicRequest: AnthropicRequest;
+  
+  try {
+    anthropicRequest = await request.json() as AnthropicRequest;
+  } catch (error) {
+    console.error('Failed to parse request JSON:', error);
+    return createErrorResponse('invalid_request_error', 'Invalid JSON in request body');
+  }
+  
+  const validation = validateAnthropicRequest(anthropicRequest);
+  if (!validation.success) {
+    return createErrorResponse('invalid_request_error', validation.error || 'Invalid request');
+  }
+  
+  if (!isModelAllowed(client, anthropicRequest.model)) {
+    return createModelPermissionError(client, anthropicRequest.model);
+  }
+  
+  // Count what would actually be sent upstream, not the raw Anthropic payload
+  const conversionResult = convertAnthropicToGemini(anthropicRequest, routingTable);
+  if (!conversionResult.success || !conversionResult.data) {
+    return createErrorResponse('conversion_error', conversionResult.error || 'Failed to convert request');
+  }
+  
+  const geminiRequest = conversionResult.data;
+  const provider = getProvider(resolveModelRoute(anthropicRequest.model, routingTable).provider);
+  let inputTokens: number | null = null;
+  
+  if (env.COUNT_TOKENS_API_URL) {
+    inputTokens = await countTokensUpstream(geminiRequest, env);
+  } else if (provider.countTokens) {
+    inputTokens = await provider.countTokens(geminiRequest, env);
+  }
+  
+  if (inputTokens === null) {
+    inputTokens = estimateRequestTokens(geminiRequest);
+  }
+  
+  console.log(`Counted ${inputTokens} input tokens for model: ${anthropicRequest.model}`);
+  
+  const countResponse: CountTokensResponse = { input_tokens: inputTokens };
+  return createJsonResponse(countResponse);
+}
+
+async function countTokensUpstream(geminiRequest: GeminiRequest, env: Env): Promise<number | null> {
+  try {
+    const response = await fetch(env.COUNT_TOKENS_API_URL!, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${env.GEMINI_API_KEY}`,
@@ -180,89 +1098,69 @@ async function handleAnthropicToGemini(request: Request, env: Env): Promise<Resp
       body: JSON.stringify(geminiRequest)
     });
     
-    if (!geminiResponse.ok) {
-      console.error(`Gemini API error: ${geminiResponse.status} ${geminiResponse.statusText}`);
-      const errorText = await geminiResponse.text();
-      console.error('Gemini API error response:', errorText);
-      
-      return createErrorResponse(
-        'api_error', 
-        `Gemini API error: ${geminiResponse.status} ${geminiResponse.statusText}`,
-        502
-      );
+    if (!response.ok) {
+      console.warn(`Upstream token count failed: ${response.status} ${response.statusText}, using local estimate`);
+      return null;
     }
     
-    if (isStreaming) {
-      return handleStreamingResponse(geminiResponse, anthropicRequest);
-    } else {
-      const geminiData = await geminiResponse.json() as GeminiResponse;
-      
-      // Convert Gemini response back to Anthropic format
-      const responseResult = convertGeminiToAnthropic(geminiData, anthropicRequest);
-      if (!responseResult.success || !responseResult.data) {
-        return createErrorResponse('conversion_error', responseResult.error || 'Failed to convert response');
-      }
-      
-      console.log('Successfully converted response to Anthropic format');
-      
-      return new Response(JSON.stringify(responseResult.data), {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      });
-    }
+    // Accept the common shapes returned by counting endpoints
+    const data = await response.json() as Record<string, any>;
+    const count = data.input_tokens ?? data.total_tokens ?? data.totalTokens ?? data.usage?.prompt_tokens;
+    
+    return typeof count === 'number' ? count : null;
   } catch (error) {
-    console.error('Error processing request:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown processing error';
-    return createErrorResponse('internal_error', `Processing failed: ${errorMessage}`, 500);
-  }
-}
-
-function validateAnthropicRequest(request: AnthropicRequest): ConversionResult<void> {
-  if (!request.model) {
-    return { success: false, error: 'Missing required field: model' };
-  }
-  
-  if (!request.messages || !Array.isArray(request.messages)) {
-    return { success: false, error: 'Missing or invalid messages field' };
-  }
-  
-  if (request.messages.length === 0) {
-    return { success: false, error: 'Messages array cannot be empty' };
+    console.warn('Upstream token count failed, using local estimate:', error);
+    return null;
   }
-  
-  return { success: true };
 }
 
-function convertAnthropicToGemini(anthropicRequest: AnthropicRequest): ConversionResult<GeminiRequest> {
+function convertAnthropicToGemini(
+  anthropicRequest: AnthropicRequest,
+  routingTable: RoutingTable = DEFAULT_ROUTING_TABLE,
+  toolNames: ToolNameMap = createToolNameMap(collectToolNames(anthropicRequest))
+): ConversionResult<GeminiRequest> {
   try {
     const { model, messages, max_tokens, temperature, system, tools, tool_choice } = anthropicRequest;
     
     // Map Anthropic model to Gemini model
-    const geminiModel = getGeminiModel(model);
-    console.log(`Mapped ${model} to ${geminiModel}`);
+    const route = resolveModelRoute(model, routingTable);
+    const geminiModel = route.geminiModel;
+    console.log(`Mapped ${model} to ${geminiModel} (${route.rule ? `rule ${route.rule}` : 'default'})`);
     
     // Convert messages format
     let geminiMessages: GeminiMessage[] = [];
     
+    // Breakpoints are recorded against upstream messages for the caching layer
+    const cacheBreakpoints: CacheBreakpoint[] = [];
+    const markBreakpoint = (cacheControl: AnthropicCacheControl | undefined): void => {
+      if (cacheControl) {
+        cacheBreakpoints.push({ messageCount: geminiMessages.length, ttl: cacheControl.ttl || '5m' });
+      }
+    };
+    
     // Add system message if present
-    if (system) {
+    const systemText = convertSystemPrompt(system);
+    if (systemText) {
       geminiMessages.push({
         role: 'system',
-        content: system
+        content: systemText
       });
     }
+    // Tools come first in Anthropic's prefix order, but an upstream cache holds them
+    // together with the system instruction, so their breakpoints cover it as well
+    tools?.forEach(tool => markBreakpoint((tool as AnthropicTool).cache_control));
+    if (Array.isArray(system)) {
+      system.forEach(block => markBreakpoint(block.cache_control));
+    }
     
     // Convert messages with proper handling of different content types
     messages.forEach((msg, index) => {
-      const convertedMessage = convertAnthropicMessage(msg, index);
-      if (convertedMessage) {
-        geminiMessages.push(convertedMessage);
+      geminiMessages.push(...convertAnthropicMessage(msg, index, toolNames));
+      if (Array.isArray(msg.content)) {
+        msg.content.forEach(block => markBreakpoint(block.cache_control));
       }
     });
-  
+    
     const geminiRequest: GeminiRequest = {
       model: geminiModel,
       messages: geminiMessages,
@@ -270,6 +1168,14 @@ function convertAnthropicToGemini(anthropicRequest: AnthropicRequest): Conversio
       temperature: temperature !== undefined ? temperature : 0.7
     };
     
+    // Per-route parameter overrides
+    if (route.maxTokensCap !== undefined && geminiRequest.max_tokens! > route.maxTokensCap) {
+      geminiRequest.max_tokens = route.maxTokensCap;
+    }
+    if (route.temperatureScale !== undefined) {
+      geminiRequest.temperature = Math.min(2, geminiRequest.temperature! * route.temperatureScale);
+    }
+    
     // Add optional parameters if present
     if (anthropicRequest.top_p !== undefined) {
       geminiRequest.top_p = anthropicRequest.top_p;
@@ -279,15 +1185,25 @@ function convertAnthropicToGemini(anthropicRequest: AnthropicRequest): Conversio
       geminiRequest.stop = anthropicRequest.stop_sequences;
     }
     
+    if (cacheBreakpoints.length > 0) {
+      geminiRequest.cache_breakpoints = mergeCacheBreakpoints(cacheBreakpoints);
+    }
+    
+    // Without a thinking config the upstream keeps its own default
+    if (anthropicRequest.thinking?.type === 'enabled') {
+      geminiRequest.thinking_budget = anthropicRequest.thinking.budget_tokens;
+    }
+    
     // Convert tools if present
     if (tools && tools.length > 0) {
-      const convertedTools = convertAnthropicToolsToGemini(tools);
+      const convertedTools = convertAnthropicToolsToGemini(tools, toolNames);
       if (convertedTools.length > 0) {
         geminiRequest.tools = convertedTools;
+        addToolAnnotations(geminiRequest, tools);
         
         // Convert tool_choice
         if (tool_choice) {
-          geminiRequest.tool_choice = convertAnthropicToolChoice(tool_choice);
+          geminiRequest.tool_choice = convertAnthropicToolChoice(tool_choice, toolNames);
         }
       }
     }
@@ -301,79 +1217,332 @@ function convertAnthropicToGemini(anthropicRequest: AnthropicRequest): Conversio
   }
 }
 
-function convertAnthropicMessage(msg: AnthropicMessage, index: number): GeminiMessage | null {
-  let content = '';
+// Block-form system prompts are joined into one system message
+function convertSystemPrompt(system: AnthropicRequest['system']): string {
+  if (!Array.isArray(system)) return system || '';
+  
+  return system
+    .filter(block => block.type === 'text' && block.text)
+    .map(block => block.text)
+    .join('\n\n');
+}
+
+// One breakpoint per prefix, keeping the longest TTL asked for
+function mergeCacheBreakpoints(breakpoints: CacheBreakpoint[]): CacheBreakpoint[] {
+  const merged = new Map<number, CacheBreakpoint>();
+  breakpoints.forEach(breakpoint => {
+    const existing = merged.get(breakpoint.messageCount);
+    if (!existing || (existing.ttl === '5m' && breakpoint.ttl === '1h')) {
+      merged.set(breakpoint.messageCount, breakpoint);
+    }
+  });
+  
+  return [...merged.values()].sort((a, b) => a.messageCount - b.messageCount);
+}
+
+function convertAnthropicMessage(msg: AnthropicMessage, index: number, toolNames: ToolNameMap = createToolNameMap()): GeminiMessage[] {
+  const role = msg.role === 'assistant' ? 'assistant' : 'user';
   
   if (!msg.role) {
     console.warn(`Message at index ${index} missing role, defaulting to 'user'`);
   }
   
   if (typeof msg.content === 'string') {
-    content = msg.content;
-  } else if (Array.isArray(msg.content)) {
-    // Handle multimodal content - extract text parts and handle tool calls
-    const textParts: string[] = [];
-    
-    msg.content.forEach((contentItem, contentIndex) => {
-      if (contentItem.type === 'text' && contentItem.text) {
-        textParts.push(contentItem.text);
-      } else if (contentItem.type === 'tool_use' && contentItem.name && contentItem.input) {
-        // Convert tool use to a text representation for Gemini
-        const toolCall = `[Tool Call: ${contentItem.name}(${JSON.stringify(contentItem.input)})]`;
-        textParts.push(toolCall);
-      } else if (contentItem.type === 'tool_result') {
-        // Convert tool result to text
-        const result = typeof contentItem.content === 'string' 
-          ? contentItem.content 
-          : JSON.stringify(contentItem.content);
-        textParts.push(`[Tool Result: ${result}]`);
-      } else if (contentItem.type !== 'text') {
-        console.warn(`Message at index ${index}, content ${contentIndex}: unsupported content type ${contentItem.type}`);
+    if (!msg.content.trim()) {
+      console.warn(`Message at index ${index} has empty content`);
+      return [];
+    }
+    return [{ role, content: msg.content }];
+  }
+  
+  if (!Array.isArray(msg.content)) {
+    console.warn(`Message at index ${index} has empty content`);
+    return [];
+  }
+  
+  // Every run of MCP results closed an upstream turn, so each one is replayed as its own exchange
+  const turns = splitAfterMCPResults(msg.content);
+  if (turns.length > 1) {
+    return turns.flatMap(turn => convertAnthropicMessage({ role: msg.role, content: turn }, index, toolNames));
+  }
+  
+  // Tool results become their own 'tool' messages, which must directly follow
+  // the assistant message that issued the matching tool_calls
+  const toolMessages: GeminiMessage[] = [];
+  const mcpResultMessages: GeminiMessage[] = [];
+  const toolResultImages: GeminiContentPart[] = [];
+  const parts: GeminiContentPart[] = [];
+  const toolCalls: GeminiToolCall[] = [];
+  
+  msg.content.forEach((contentItem, contentIndex) => {
+    if (contentItem.type === 'text' && contentItem.text) {
+      parts.push({ type: 'text', text: contentItem.text });
+    } else if (contentItem.type === 'image' && role === 'user') {
+      const imagePart = convertAnthropicImage(contentItem);
+      if (imagePart) {
+        parts.push(imagePart);
+      } else {
+        console.warn(`Message at index ${index}, content ${contentIndex}: image has no usable source`);
       }
+    } else if ((contentItem.type === 'tool_use' || contentItem.type === 'mcp_tool_use') && role === 'assistant' && contentItem.name) {
+      toolCalls.push({
+        id: contentItem.id || contentItem.tool_use_id || `call_${index}_${contentIndex}`,
+        type: 'function',
+        function: {
+          name: toolNames.toUpstream(contentItem.name),
+          arguments: JSON.stringify(contentItem.input || {})
+        }
+      });
+    } else if (contentItem.type === 'tool_result' && contentItem.tool_use_id) {
+      const images = extractToolResultImages(contentItem);
+      toolMessages.push({
+        role: 'tool',
+        tool_call_id: contentItem.tool_use_id,
+        content: convertToolResultContent(contentItem, images.length)
+      });
+      toolResultImages.push(...images);
+    } else if (contentItem.type === 'mcp_tool_result' && role === 'assistant' && contentItem.tool_use_id) {
+      // MCP results sit in the assistant turn that made the call, so they follow it upstream
+      mcpResultMessages.push({
+        role: 'tool',
+        tool_call_id: contentItem.tool_use_id,
+        content: convertToolResultContent(contentItem)
+      });
+    } else if (contentItem.type === 'thinking' || contentItem.type === 'redacted_thinking') {
+      // Earlier reasoning cannot be handed back to Gemini, so it is left out of the history
+    } else if (contentItem.type !== 'text') {
+      console.warn(`Message at index ${index}, content ${contentIndex}: unsupported content type ${contentItem.type}`);
+    }
+  });
+  
+  const converted: GeminiMessage[] = [...toolMessages];
+  const text = parts
+    .filter(part => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+  
+  if (toolCalls.length > 0) {
+    converted.push({
+      role: 'assistant',
+      content: text.trim() ? text : null,
+      tool_calls: toolCalls
     });
-    
-    content = textParts.join('\n');
+  } else if (toolResultImages.length > 0 || parts.some(part => part.type === 'image_url')) {
+    // Tool messages cannot carry images upstream, so they ride along in the user turn
+    converted.push({ role: 'user', content: [...toolResultImages, ...parts] });
+  } else if (text.trim()) {
+    converted.push({ role, content: text });
   }
+  converted.push(...mcpResultMessages);
   
-  if (!content.trim()) {
+  if (converted.length === 0) {
     console.warn(`Message at index ${index} has empty content`);
-    return null;
   }
   
-  return {
-    role: msg.role === 'assistant' ? 'assistant' : 'user',
-    content: content
-  };
+  return converted;
+}
+
+function splitAfterMCPResults(content: AnthropicContent[]): AnthropicContent[][] {
+  const turns: AnthropicContent[][] = [[]];
+  
+  content.forEach((contentItem, contentIndex) => {
+    if (contentIndex > 0 && content[contentIndex - 1].type === 'mcp_tool_result' && contentItem.type !== 'mcp_tool_result') {
+      turns.push([]);
+    }
+    turns[turns.length - 1].push(contentItem);
+  });
+  
+  return turns;
+}
+
+function convertAnthropicImage(image: AnthropicContent): GeminiContentPart | null {
+  const source = image.source;
+  if (!source) return null;
+  
+  if (source.type === 'base64' && source.data) {
+    return {
+      type: 'image_url',
+      image_url: { url: `data:${source.media_type || 'image/png'};base64,${source.data}` }
+    };
+  }
+  
+  if (source.type === 'url' && source.url) {
+    return {
+      type: 'image_url',
+      image_url: { url: source.url }
+    };
+  }
+  
+  return null;
 }
 
-function convertAnthropicToolsToGemini(tools: AnthropicTool[]): GeminiTool[] {
-  return tools.map(tool => ({
-    type: 'function' as const,
-    function: {
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.input_schema
+function extractToolResultImages(toolResult: AnthropicContent): GeminiContentPart[] {
+  if (!Array.isArray(toolResult.content)) return [];
+  
+  const images: GeminiContentPart[] = [];
+  toolResult.content.forEach(item => {
+    if (item.type === 'image') {
+      const imagePart = convertAnthropicImage(item);
+      if (imagePart) {
+        images.push(imagePart);
+      }
     }
-  }));
+  });
+  
+  return images;
+}
+
+function convertToolResultContent(toolResult: AnthropicContent, imageCount = 0): string {
+  let result = '';
+  
+  if (typeof toolResult.content === 'string') {
+    result = toolResult.content;
+  } else if (Array.isArray(toolResult.content)) {
+    result = toolResult.content
+      .filter(item => item.type === 'text' && item.text)
+      .map(item => item.text)
+      .join('\n');
+  }
+  
+  if (imageCount > 0) {
+    const note = `[${imageCount} image(s) returned by this tool are attached in the next user message]`;
+    result = result ? `${result}\n${note}` : note;
+  }
+  
+  return toolResult.is_error ? `Error: ${result}` : result;
+}
+
+// Accepts Anthropic and MCP tool definitions alike; see addToolAnnotations for their annotations
+function convertAnthropicToolsToGemini(tools: (AnthropicTool | MCPTool)[], toolNames: ToolNameMap = createToolNameMap()): GeminiTool[] {
+  return normalizeTools(tools).map(tool => {
+    const { schema, warnings } = sanitizeSchema(tool.parameters);
+    warnings.forEach(warning => console.warn(`Tool "${tool.name}" schema ${warning}`));
+    
+    return {
+      type: 'function' as const,
+      function: {
+        name: toolNames.toUpstream(tool.name),
+        description: tool.description,
+        parameters: { ...schema, type: 'object' as const, properties: schema.properties || {} }
+      }
+    };
+  });
+}
+
+// Offers the session's MCP tools next to the request's own tools, whose names they must not shadow
+function addMCPTools(geminiRequest: GeminiRequest, session: MCPSession, toolNames: ToolNameMap): void {
+  const mcpTools = [...session.tools.values()].map(entry => entry.tool);
+  const shadowed = geminiRequest.tools?.find(tool => session.tools.has(toolNames.toClient(tool.function.name)));
+  if (shadowed) {
+    throw new MCPError(`MCP tool "${toolNames.toClient(shadowed.function.name)}" has the same name as a tool in tools`);
+  }
+  
+  if (mcpTools.length > 0) {
+    toolNames.add(mcpTools.map(tool => tool.name));
+    geminiRequest.tools = [...(geminiRequest.tools || []), ...convertAnthropicToolsToGemini(mcpTools, toolNames)];
+    addToolAnnotations(geminiRequest, mcpTools);
+  }
+}
+
+// Upstream never sees annotations, so they ride on the converted request for policy checks
+function addToolAnnotations(geminiRequest: GeminiRequest, tools: (AnthropicTool | MCPTool)[]): void {
+  const annotations = { ...geminiRequest.tool_annotations, ...collectToolAnnotations(tools) };
+  if (Object.keys(annotations).length > 0) {
+    geminiRequest.tool_annotations = annotations;
+  }
+}
+
+/**
+ * Runs the MCP tool calls of one upstream turn, returning the mcp_tool_use/mcp_tool_result
+ * blocks and the messages that send the results back. Null when the turn made no MCP calls;
+ * if the model also called client tools, those are left on the turn for the client to run
+ */
+async function runMCPToolTurn(
+  geminiData: GeminiResponse,
+  session: MCPSession,
+  toolNames: ToolNameMap
+): Promise<{ content: AnthropicContent[]; messages: GeminiMessage[]; clientToolsPending: boolean } | null> {
+  const message = geminiData.choices?.[0]?.message;
+  const isMCPCall = (toolCall: GeminiToolCall): boolean => session.tools.has(toolNames.toClient(toolCall.function.name));
+  const mcpCalls = message?.tool_calls?.filter(isMCPCall) || [];
+  if (!message || mcpCalls.length === 0) return null;
+  
+  // Calls are sent back under their mcp_tool_use ids, as they are when the client replays the exchange
+  const results: AnthropicContent[] = [];
+  const calls: GeminiToolCall[] = [];
+  for (const toolCall of mcpCalls) {
+    const name = toolNames.toClient(toolCall.function.name);
+    const [toolUse, toolResult] = await callMCPTool(session, { ...toolCall, function: { ...toolCall.function, name } });
+    results.push(toolUse, toolResult);
+    calls.push({ ...toolCall, id: toolUse.id! });
+  }
+  
+  const clientCalls = message.tool_calls!.filter(toolCall => !isMCPCall(toolCall));
+  if (clientCalls.length > 0) {
+    message.tool_calls = clientCalls;
+    return { content: results, messages: [], clientToolsPending: true };
+  }
+  
+  const turnContent: AnthropicContent[] = [];
+  if (message.reasoning_content) {
+    turnContent.push({ type: 'thinking', thinking: message.reasoning_content, signature: '' });
+  }
+  if (message.content) {
+    turnContent.push({ type: 'text', text: message.content });
+  }
+  
+  return {
+    content: [...turnContent, ...results],
+    messages: [
+      { role: 'assistant', content: message.content, tool_calls: calls },
+      ...results
+        .filter(block => block.type === 'mcp_tool_result')
+        .map(block => ({ role: 'tool' as const, tool_call_id: block.tool_use_id, content: convertToolResultContent(block) }))
+    ],
+    clientToolsPending: false
+  };
 }
 
-function convertAnthropicToolChoice(toolChoice: AnthropicRequest['tool_choice']): GeminiRequest['tool_choice'] {
+function convertAnthropicToolChoice(
+  toolChoice: AnthropicRequest['tool_choice'],
+  toolNames: ToolNameMap = createToolNameMap()
+): GeminiRequest['tool_choice'] {
   if (!toolChoice) return undefined;
   
-  if (toolChoice === 'auto') return 'auto';
-  if (toolChoice === 'any') return 'auto';
+  const type = typeof toolChoice === 'object' ? toolChoice.type : toolChoice;
+  if (type === 'any') return 'required';
+  if (type === 'none') return 'none';
   
   if (typeof toolChoice === 'object' && toolChoice.type === 'tool' && toolChoice.name) {
     return {
       type: 'function',
-      function: { name: toolChoice.name }
+      function: { name: toolNames.toUpstream(toolChoice.name) }
     };
   }
   
   return 'auto';
 }
 
-function convertGeminiToAnthropic(geminiResponse: GeminiResponse, originalRequest: AnthropicRequest): ConversionResult<AnthropicResponse> {
+function isParallelToolUseDisabled(toolChoice: AnthropicRequest['tool_choice']): boolean {
+  return typeof toolChoice === 'object' && toolChoice.disable_parallel_tool_use === true;
+}
+
+// Gemini has no switch for parallel calls, so with disable_parallel_tool_use only the first call is kept
+function limitToolCalls(geminiResponse: GeminiResponse, toolChoice: AnthropicRequest['tool_choice']): GeminiResponse {
+  const message = geminiResponse.choices?.[0]?.message;
+  if (isParallelToolUseDisabled(toolChoice) && message?.tool_calls && message.tool_calls.length > 1) {
+    console.warn(`Dropped ${message.tool_calls.length - 1} parallel tool call(s): disable_parallel_tool_use is set`);
+    message.tool_calls = message.tool_calls.slice(0, 1);
+  }
+  return geminiResponse;
+}
+
+function convertGeminiToAnthropic(
+  geminiResponse: GeminiResponse,
+  originalRequest: AnthropicRequest,
+  toolNames: ToolNameMap = createToolNameMap(),
+  promptCache: PromptCacheUse | null = null
+): ConversionResult<AnthropicResponse> {
   try {
     // Handle error responses
     if (geminiResponse.error) {
@@ -398,13 +1567,22 @@ function convertGeminiToAnthropic(geminiResponse: GeminiResponse, originalReques
     let stopReason: AnthropicResponse['stop_reason'] = 'end_turn';
     
     if (choice.message) {
+      // Reasoning comes first, as Anthropic puts thinking before the answer
+      if (choice.message.reasoning_content) {
+        content.push({
+          type: 'thinking',
+          thinking: choice.message.reasoning_content,
+          signature: ''
+        });
+      }
+      
       // Handle tool calls
       if (choice.message.tool_calls && choice.message.tool_calls.length > 0) {
         choice.message.tool_calls.forEach(toolCall => {
           content.push({
             type: 'tool_use',
-            tool_use_id: toolCall.id,
-            name: toolCall.function.name,
+            id: toolCall.id,
+            name: toolNames.toClient(toolCall.function.name),
             input: JSON.parse(toolCall.function.arguments || '{}')
           });
         });
@@ -430,27 +1608,12 @@ function convertGeminiToAnthropic(geminiResponse: GeminiResponse, originalReques
     
     // Map finish reason to Anthropic format
     if (choice.finish_reason) {
-      switch (choice.finish_reason) {
-        case 'stop':
-          stopReason = 'end_turn';
-          break;
-        case 'length':
-          stopReason = 'max_tokens';
-          break;
-        case 'tool_calls':
-          stopReason = 'tool_use';
-          break;
-        case 'content_filter':
-          stopReason = 'stop_sequence';
-          break;
-        default:
-          stopReason = 'end_turn';
-      }
+      stopReason = mapFinishReason(choice.finish_reason);
     }
     
     // Build Anthropic-compatible response
     const anthropicResponse: AnthropicResponse = {
-      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: generateMessageId(),
       type: 'message',
       role: 'assistant',
       content: content,
@@ -458,7 +1621,7 @@ function convertGeminiToAnthropic(geminiResponse: GeminiResponse, originalReques
       stop_reason: stopReason,
       stop_sequence: null,
       usage: {
-        input_tokens: geminiResponse.usage?.prompt_tokens || 0,
+        ...convertCacheUsage(geminiResponse.usage, promptCache),
         output_tokens: geminiResponse.usage?.completion_tokens || 0
       }
     };
@@ -470,12 +1633,51 @@ function convertGeminiToAnthropic(geminiResponse: GeminiResponse, originalReques
   }
 }
 
-async function handleStreamingResponse(geminiResponse: Response, originalRequest: AnthropicRequest): Promise<Response> {
+function mapFinishReason(finishReason: GeminiChoice['finish_reason']): AnthropicResponse['stop_reason'] {
+  switch (finishReason) {
+    case 'stop':
+      return 'end_turn';
+    case 'length':
+      return 'max_tokens';
+    case 'tool_calls':
+      return 'tool_use';
+    case 'content_filter':
+      return 'stop_sequence';
+    default:
+      return 'end_turn';
+  }
+}
+
+function generateMessageId(): string {
+  return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+async function handleStreamingResponse(
+  geminiResponse: Response,
+  originalRequest: AnthropicRequest,
+  parseStreamData: UpstreamStreamParser,
+  options: {
+    headers?: Record<string, string>;
+    onComplete?: (state: StreamState) => Promise<void>;
+    ctx?: ExecutionContext;
+    toolNames?: ToolNameMap;
+    promptCache?: PromptCacheUse | null;
+  } = {}
+): Promise<Response> {
   const { readable, writable } = new TransformStream();
   const writer = writable.getWriter();
   
-  // Start processing the stream
-  processGeminiStream(geminiResponse, writer, originalRequest);
+  // Start processing the stream; waitUntil keeps the isolate alive until onComplete has run
+  const processing = processGeminiStream(
+    geminiResponse,
+    writer,
+    originalRequest,
+    parseStreamData,
+    options.onComplete,
+    options.toolNames,
+    options.promptCache
+  );
+  options.ctx?.waitUntil?.(processing);
   
   return new Response(readable, {
     status: 200,
@@ -483,22 +1685,45 @@ async function handleStreamingResponse(geminiResponse: Response, originalRequest
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*'
+      'Access-Control-Allow-Origin': '*',
+      ...options.headers
     }
   });
 }
 
-async function processGeminiStream(geminiResponse: Response, writer: WritableStreamDefaultWriter<any>, originalRequest: AnthropicRequest): Promise<void> {
+async function processGeminiStream(
+  geminiResponse: Response,
+  writer: WritableStreamDefaultWriter<any>,
+  originalRequest: AnthropicRequest,
+  parseStreamData: UpstreamStreamParser,
+  onComplete?: (state: StreamState) => Promise<void>,
+  toolNames?: ToolNameMap,
+  promptCache?: PromptCacheUse | null
+): Promise<void> {
+  const state = createStreamState(originalRequest, toolNames, promptCache);
+  const reader = geminiResponse.body?.getReader();
+  
+  // A failed write means the client hung up; there is no point reading upstream any further
+  let clientGone = false;
+  const send = async (events: AnthropicStreamChunk[]): Promise<void> => {
+    try {
+      await writeStreamEvents(writer, events);
+    } catch (error) {
+      clientGone = true;
+      throw error;
+    }
+  };
+  
   try {
-    const reader = geminiResponse.body?.getReader();
     if (!reader) {
       throw new Error('No response body to read');
     }
     
     const decoder = new TextDecoder();
     let buffer = '';
+    let upstreamDone = false;
     
-    while (true) {
+    while (!upstreamDone) {
       const { done, value } = await reader.read();
       
       if (done) break;
@@ -508,83 +1733,328 @@ async function processGeminiStream(geminiResponse: Response, writer: WritableStr
       buffer = lines.pop() || '';
       
       for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
+        if (line.startsWith('data:')) {
+          const data = line.slice(5).trim();
+          if (!data) continue;
           
-          if (data === '[DONE]') {
-            const stopEvent: AnthropicStreamChunk = { type: 'message_stop' };
-            await writer.write(new TextEncoder().encode(`event: message_stop\ndata: ${JSON.stringify(stopEvent)}\n\n`));
-            break;
+          const upstreamError = extractStreamError(data);
+          if (upstreamError) {
+            // Anthropic streams end at the error event, without message_stop
+            await send([{ type: 'error', error: upstreamError }]);
+            return;
           }
           
+          let events: AnthropicStreamChunk[];
           try {
-            const geminiChunk = JSON.parse(data) as GeminiStreamChunk;
-            const anthropicChunk = convertGeminiStreamChunk(geminiChunk, originalRequest);
-            
-            if (anthropicChunk) {
-              const eventData = `event: ${anthropicChunk.type}\ndata: ${JSON.stringify(anthropicChunk)}\n\n`;
-              await writer.write(new TextEncoder().encode(eventData));
-            }
+            const parsed = parseStreamData(data);
+            events = parsed.chunks.flatMap(geminiChunk => convertGeminiStreamChunk(geminiChunk, state));
+            upstreamDone = parsed.done;
           } catch (parseError) {
             console.error('Error parsing stream chunk:', parseError);
+            continue;
           }
+          
+          await send(events);
+          if (upstreamDone) break;
         }
       }
     }
+    
+    // Close out the message even if upstream ended without [DONE]
+    await send(finishGeminiStream(state));
   } catch (error) {
+    if (clientGone) {
+      console.warn('Client disconnected mid-stream:', error);
+      await reader?.cancel().catch(() => undefined);
+      return;
+    }
+    
     console.error('Stream processing error:', error);
     const errorEvent: AnthropicStreamChunk = { 
-      type: 'error'
+      type: 'error',
+      error: {
+        type: 'api_error',
+        message: error instanceof Error ? error.message : 'Stream processing failed'
+      }
     };
-    const errorData = `event: error\ndata: ${JSON.stringify(errorEvent)}\n\n`;
-    await writer.write(new TextEncoder().encode(errorData));
+    await writeStreamEvents(writer, [errorEvent]).catch(() => undefined);
   } finally {
-    await writer.close();
+    try {
+      await writer.close();
+    } catch {
+      // Already errored because the client went away
+    }
+    
+    // Runs after the client has its last byte, or has gone, with whatever usage was seen
+    try {
+      await onComplete?.(state);
+    } catch (error) {
+      console.error('Stream completion failed:', error);
+    }
   }
 }
 
-function convertGeminiStreamChunk(geminiChunk: GeminiStreamChunk, originalRequest: AnthropicRequest): AnthropicStreamChunk | null {
+function formatStreamEvent(event: AnthropicStreamChunk): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+async function writeStreamEvents(writer: WritableStreamDefaultWriter<any>, events: AnthropicStreamChunk[]): Promise<void> {
+  const encoder = new TextEncoder();
+  for (const event of events) {
+    await writer.write(encoder.encode(formatStreamEvent(event)));
+  }
+}
+
+/**
+ * Replays a finished message as the Anthropic event sequence, for responses
+ * that had to be assembled before sending (MCP tool loops)
+ */
+function convertResponseToStreamEvents(response: AnthropicResponse): AnthropicStreamChunk[] {
+  const events: AnthropicStreamChunk[] = [{
+    type: 'message_start',
+    message: { ...response, content: [], stop_reason: null, usage: { ...response.usage, output_tokens: 0 } }
+  }];
+  
+  response.content.forEach((block, index) => {
+    if (block.type === 'text') {
+      events.push({ type: 'content_block_start', index, content_block: { type: 'text', text: '' } });
+      events.push({ type: 'content_block_delta', index, delta: { type: 'text_delta', text: block.text || '' } });
+    } else if (block.type === 'thinking') {
+      events.push({ type: 'content_block_start', index, content_block: { type: 'thinking', thinking: '', signature: '' } });
+      events.push({ type: 'content_block_delta', index, delta: { type: 'thinking_delta', thinking: block.thinking || '' } });
+    } else if (block.type === 'tool_use' || block.type === 'mcp_tool_use') {
+      events.push({ type: 'content_block_start', index, content_block: { ...block, input: {} } });
+      events.push({ type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: JSON.stringify(block.input || {}) } });
+    } else {
+      events.push({ type: 'content_block_start', index, content_block: block });
+    }
+    events.push({ type: 'content_block_stop', index });
+  });
+  
+  events.push({
+    type: 'message_delta',
+    delta: { stop_reason: response.stop_reason, stop_sequence: response.stop_sequence },
+    usage: { output_tokens: response.usage.output_tokens }
+  });
+  events.push({ type: 'message_stop' });
+  
+  return events;
+}
+
+function createBufferedStreamResponse(response: AnthropicResponse, extraHeaders: Record<string, string> = {}): Response {
+  return new Response(convertResponseToStreamEvents(response).map(formatStreamEvent).join(''), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      ...extraHeaders
+    }
+  });
+}
+
+function createStreamState(
+  originalRequest: AnthropicRequest,
+  toolNames: ToolNameMap = createToolNameMap(),
+  promptCache: PromptCacheUse | null = null
+): StreamState {
+  return {
+    messageId: generateMessageId(),
+    model: originalRequest.model,
+    toolNames,
+    started: false,
+    finished: false,
+    nextBlockIndex: 0,
+    openBlock: null,
+    toolBlocks: [],
+    singleToolCall: isParallelToolUseDisabled(originalRequest.tool_choice),
+    promptCache,
+    cachedTokens: 0,
+    stopReason: null,
+    inputTokens: 0,
+    outputTokens: 0,
+    estimatedOutputTokens: 0
+  };
+}
+
+function startStreamIfNeeded(state: StreamState): AnthropicStreamChunk[] {
+  if (state.started) return [];
+  state.started = true;
+  
+  return [{
+    type: 'message_start',
+    message: {
+      id: state.messageId,
+      type: 'message',
+      role: 'assistant',
+      content: [],
+      model: state.model,
+      stop_reason: null,
+      stop_sequence: null,
+      usage: {
+        ...getStreamInputUsage(state),
+        output_tokens: 0
+      }
+    }
+  }];
+}
+
+// state.inputTokens counts every prompt token; Anthropic reports cached ones separately
+function getStreamInputUsage(state: StreamState): ReturnType<typeof convertCacheUsage> {
+  return convertCacheUsage({
+    prompt_tokens: state.inputTokens,
+    completion_tokens: 0,
+    total_tokens: state.inputTokens,
+    prompt_tokens_details: state.cachedTokens > 0 ? { cached_tokens: state.cachedTokens } : undefined
+  }, state.promptCache);
+}
+
+function closeOpenBlock(state: StreamState): AnthropicStreamChunk[] {
+  if (!state.openBlock) return [];
+  const index = state.openBlock.index;
+  state.openBlock = null;
+  return [{ type: 'content_block_stop', index }];
+}
+
+function openBlock(state: StreamState, contentBlock: AnthropicContent): AnthropicStreamChunk[] {
+  const events = closeOpenBlock(state);
+  const index = state.nextBlockIndex++;
+  
+  state.openBlock = { index, type: contentBlock.type === 'thinking' ? 'thinking' : 'text' };
+  events.push({ type: 'content_block_start', index, content_block: contentBlock });
+  
+  return events;
+}
+
+function convertGeminiStreamChunk(geminiChunk: GeminiStreamChunk, state: StreamState): AnthropicStreamChunk[] {
+  const events = startStreamIfNeeded(state);
+  
+  if (geminiChunk.usage) {
+    state.inputTokens = geminiChunk.usage.prompt_tokens || state.inputTokens;
+    state.cachedTokens = geminiChunk.usage.prompt_tokens_details?.cached_tokens || state.cachedTokens;
+    state.outputTokens = geminiChunk.usage.completion_tokens || state.outputTokens;
+  }
+  
   const choice = geminiChunk.choices?.[0];
-  if (!choice) return null;
+  if (!choice) return events;
+  
+  const reasoning = choice.delta?.reasoning_content || '';
+  if (reasoning) {
+    state.estimatedOutputTokens += estimateTokens(reasoning);
+    if (state.openBlock?.type !== 'thinking') {
+      events.push(...openBlock(state, { type: 'thinking', thinking: '', signature: '' }));
+    }
+    events.push({
+      type: 'content_block_delta',
+      index: state.openBlock!.index,
+      delta: {
+        type: 'thinking_delta',
+        thinking: reasoning
+      }
+    });
+  }
   
   const content = choice.delta?.content || '';
   
   if (content) {
-    return {
+    state.estimatedOutputTokens += estimateTokens(content);
+    if (state.openBlock?.type !== 'text') {
+      events.push(...openBlock(state, { type: 'text', text: '' }));
+    }
+    events.push({
       type: 'content_block_delta',
-      index: 0,
+      index: state.openBlock!.index,
       delta: {
         type: 'text_delta',
         text: content
       }
-    };
+    });
   }
   
-  // Handle tool calls in streaming
-  if (choice.delta?.tool_calls && choice.delta.tool_calls.length > 0) {
-    const toolCall = choice.delta.tool_calls[0];
-    return {
-      type: 'content_block_delta',
-      index: 0,
-      delta: {
-        type: 'input_json_delta',
-        partial_json: toolCall.function.arguments || ''
-      }
-    };
-  }
+  // Handle tool calls in streaming: every upstream call gets its own tool_use block
+  choice.delta?.tool_calls?.forEach(toolCall => convertToolCallDelta(toolCall, state));
   
   if (choice.finish_reason) {
-    return {
-      type: 'message_stop'
+    state.stopReason = mapFinishReason(choice.finish_reason);
+  }
+  
+  return events;
+}
+
+/**
+ * Collects a tool call fragment. Parallel upstream calls can interleave their argument
+ * fragments, while Anthropic streams one block at a time, so tool_use blocks are only
+ * sent once the stream finishes
+ */
+function convertToolCallDelta(toolCall: GeminiToolCallDelta, state: StreamState): void {
+  let toolBlock = toolCall.index !== undefined
+    ? [...state.toolBlocks].reverse().find(block => block.upstreamIndex === toolCall.index)
+    : state.toolBlocks[state.toolBlocks.length - 1];
+  
+  // Some upstreams reuse index 0 for every call, so a new id always means a new call
+  if (toolBlock && toolCall.id && toolBlock.id !== toolCall.id) {
+    toolBlock = undefined;
+  }
+  
+  if (!toolBlock) {
+    toolBlock = {
+      upstreamIndex: toolCall.index,
+      id: toolCall.id || `toolu_${state.messageId}_${state.toolBlocks.length}`,
+      name: state.toolNames.toClient(toolCall.function?.name || ''),
+      arguments: '',
+      // Calls past the first when parallel tool use is disabled are swallowed
+      dropped: state.singleToolCall && state.toolBlocks.some(block => !block.dropped)
     };
+    state.toolBlocks.push(toolBlock);
   }
+  if (toolBlock.dropped || !toolCall.function?.arguments) return;
   
-  return null;
+  state.estimatedOutputTokens += estimateTokens(toolCall.function.arguments);
+  toolBlock.arguments += toolCall.function.arguments;
+}
+
+function finishGeminiStream(state: StreamState): AnthropicStreamChunk[] {
+  if (state.finished) return [];
+  state.finished = true;
+  
+  const events = startStreamIfNeeded(state);
+  events.push(...closeOpenBlock(state));
+  
+  // Each buffered tool call goes out whole: start, its complete arguments, stop
+  state.toolBlocks.filter(block => !block.dropped).forEach(block => {
+    const index = state.nextBlockIndex++;
+    events.push({ type: 'content_block_start', index, content_block: { type: 'tool_use', id: block.id, name: block.name, input: {} } });
+    if (block.arguments) {
+      events.push({ type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: block.arguments } });
+    }
+    events.push({ type: 'content_block_stop', index });
+  });
+  
+  events.push({
+    type: 'message_delta',
+    delta: {
+      stop_reason: state.stopReason || 'end_turn',
+      stop_sequence: null
+    },
+    usage: {
+      ...getStreamInputUsage(state),
+      // Streams often end without usage, so the local estimate stands in
+      output_tokens: state.outputTokens || state.estimatedOutputTokens
+    }
+  });
+  events.push({ type: 'message_stop' });
+  
+  return events;
 }
 
 // Export functions for testing
 export {
   getGeminiModel,
+  resolveModelRoute,
+  listModelInfos,
+  getModelInfo,
+  paginateList,
   validateAnthropicRequest,
   convertAnthropicToGemini,
   convertGeminiToAnthropic,
@@ -592,5 +2062,10 @@ export {
   convertAnthropicToolsToGemini,
   convertAnthropicToolChoice,
   convertGeminiStreamChunk,
-  createErrorResponse
+  createStreamState,
+  finishGeminiStream,
+  processGeminiStream,
+  pipeAnthropicStream,
+  createErrorResponse,
+  RateLimiterDurableObject
 };
\ No newline at end of file
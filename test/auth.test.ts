@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  AuthConfigError,
+  extractApiKey,
+  hashApiKey,
+  parseClientKeys,
+  authenticateRequest,
+  isModelAllowed,
+  resetAuthCache
+} from '../src/auth';
+import { resetRoutingCache } from '../src/routing';
+import { Env } from '../src/types';
+import { createMockUpstream } from './mock-upstream';
+
+// printf %s sk-ci-key | sha256sum
+const CI_KEY_HASH = '5c24ac11821d87dae04fa0ae64dffd9878d37fb30b90adb20a090bf8e79d5d99';
+
+const createKV = (entries: Record<string, string>): KVNamespace => ({
+  get: vi.fn(async (key: string) => entries[key] ?? null)
+}) as unknown as KVNamespace;
+
+const makeRequest = (path: string, headers: Record<string, string> = {}, body?: unknown): Request =>
+  new Request(`https://example.com${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+describe('API Key Extraction and Hashing', () => {
+  it('should read x-api-key first and fall back to a bearer token', () => {
+    expect(extractApiKey(makeRequest('/v1/messages', { 'x-api-key': 'sk-one', Authorization: 'Bearer sk-two' }))).toBe('sk-one');
+    expect(extractApiKey(makeRequest('/v1/messages', { Authorization: 'Bearer sk-two' }))).toBe('sk-two');
+    expect(extractApiKey(makeRequest('/v1/messages', { Authorization: 'Basic abc' }))).toBeNull();
+    expect(extractApiKey(makeRequest('/v1/messages'))).toBeNull();
+  });
+  
+  it('should hash keys as lowercase hex SHA-256', async () => {
+    expect(await hashApiKey('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('Client Key Config', () => {
+  it('should index clients by hash and compile model allowlists', async () => {
+    const hash = await hashApiKey('sk-ci-key');
+    const clients = parseClientKeys(JSON.stringify([
+      { name: 'ci', key_hash: hash.toUpperCase(), models: ['claude-3-haiku*', '/sonnet/'] },
+      { name: 'admin', key_hash: 'a'.repeat(64) }
+    ]));
+    
+    const ci = clients.get(hash)!;
+    expect(ci.name).toBe('ci');
+    expect(isModelAllowed(ci, 'claude-3-haiku-20240307')).toBe(true);
+    expect(isModelAllowed(ci, 'claude-3-5-sonnet-latest')).toBe(true);
+    expect(isModelAllowed(ci, 'claude-3-opus')).toBe(false);
+    expect(isModelAllowed(clients.get('a'.repeat(64))!, 'claude-3-opus')).toBe(true);
+    expect(isModelAllowed(null, 'claude-3-opus')).toBe(true);
+  });
+  
+  it.each([
+    ['not json', 'CLIENT_KEYS is not valid JSON'],
+    ['{}', 'CLIENT_KEYS must be a JSON array of client keys'],
+    ['[{"name":"ci","key_hash":"sk-plaintext"}]', 'CLIENT_KEYS[0].key_hash must be a hex SHA-256 digest'],
+    [`[{"key_hash":"${'a'.repeat(64)}"}]`, 'CLIENT_KEYS[0].name must be a non-empty string'],
+    [`[{"name":"ci","key_hash":"${'a'.repeat(64)}","models":"claude-*"}]`, 'CLIENT_KEYS[0].models must be an array of model ids or patterns'],
+    [`[{"name":"ci","key_hash":"${'a'.repeat(64)}","models":["/(/"]}]`, 'CLIENT_KEYS[0].models contains an invalid pattern'],
+    [`[{"name":"ci","key_hash":"${'a'.repeat(64)}","limits":{"requests_per_minute":0}}]`, 'CLIENT_KEYS[0].limits.requests_per_minute must be a positive integer']
+  ])('should reject %s', (raw, message) => {
+    expect(() => parseClientKeys(raw)).toThrow(AuthConfigError);
+    expect(() => parseClientKeys(raw)).toThrow(message);
+  });
+});
+
+describe('Request Authentication', () => {
+  beforeEach(() => {
+    resetAuthCache();
+  });
+  
+  it('should let every request through when no client keys are configured', async () => {
+    const result = await authenticateRequest(makeRequest('/v1/messages'), { GEMINI_API_KEY: 'test-api-key' });
+    expect(result).toEqual({ success: true, data: null });
+  });
+  
+  it('should reject missing and unknown keys', async () => {
+    const env: Env = { GEMINI_API_KEY: 'test-api-key', CLIENT_KEYS: JSON.stringify([{ name: 'ci', key_hash: CI_KEY_HASH }]) };
+    
+    expect(await authenticateRequest(makeRequest('/v1/messages'), env)).toEqual({ success: false, error: 'x-api-key header is required' });
+    expect(await authenticateRequest(makeRequest('/v1/messages', { 'x-api-key': 'sk-wrong' }), env)).toEqual({ success: false, error: 'invalid x-api-key' });
+  });
+  
+  it('should look keys up in KV by hash and cache the result', async () => {
+    const hash = await hashApiKey('sk-kv-key');
+    const kv = createKV({ [`client-key:${hash}`]: JSON.stringify({ name: 'kv-client', models: ['claude-3-haiku'] }) });
+    const env: Env = { GEMINI_API_KEY: 'test-api-key', CLIENT_KEYS_KV: kv };
+    
+    const first = await authenticateRequest(makeRequest('/v1/messages', { Authorization: 'Bearer sk-kv-key' }), env);
+    const second = await authenticateRequest(makeRequest('/v1/messages', { 'x-api-key': 'sk-kv-key' }), env);
+    
+    expect(first.data?.name).toBe('kv-client');
+    expect(second.data?.name).toBe('kv-client');
+    expect(kv.get).toHaveBeenCalledTimes(1);
+    expect(kv.get).toHaveBeenCalledWith(`client-key:${hash}`);
+  });
+});
+
+describe('Authentication in the Worker', () => {
+  let env: Env;
+  
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    resetAuthCache();
+    resetRoutingCache();
+    env = {
+      GEMINI_API_KEY: 'test-api-key',
+      CLIENT_KEYS: JSON.stringify([
+        { name: 'ci', key_hash: await hashApiKey('sk-ci-key'), models: ['claude-3-haiku*'] }
+      ])
+    };
+  });
+  
+  const messageBody = (model: string): Record<string, unknown> => ({ model, messages: [{ role: 'user', content: 'Hello!' }], max_tokens: 100 });
+  
+  it('should return authentication_error without a valid key', async () => {
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(makeRequest('/v1/messages', {}, messageBody('claude-3-haiku')), env, {} as ExecutionContext);
+    const body = await response.json() as any;
+    
+    expect(response.status).toBe(401);
+    expect(body).toEqual({ type: 'error', error: { type: 'authentication_error', message: 'x-api-key header is required' } });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+  
+  it('should return permission_error for models outside the allowlist', async () => {
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(makeRequest('/v1/messages', { 'x-api-key': 'sk-ci-key' }, messageBody('claude-3-opus')), env, {} as ExecutionContext);
+    const body = await response.json() as any;
+    
+    expect(response.status).toBe(403);
+    expect(body.error).toEqual({ type: 'permission_error', message: 'API key "ci" does not have access to model claude-3-opus' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+  
+  it('should serve allowed models and only list those', async () => {
+    const upstream = createMockUpstream({ text: 'Hi there' });
+    vi.mocked(global.fetch).mockImplementation(upstream.fetch);
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(makeRequest('/v1/messages', { 'x-api-key': 'sk-ci-key' }, messageBody('claude-3-haiku')), env, {} as ExecutionContext);
+    expect(response.status).toBe(200);
+    expect(upstream.requests[0].headers.Authorization).toBe('Bearer test-api-key');
+    
+    const models = await worker.fetch(makeRequest('/v1/models', { 'x-api-key': 'sk-ci-key' }), env, {} as ExecutionContext);
+    const list = await models.json() as any;
+    expect(list.data.map((model: any) => model.id)).toEqual(['claude-3-haiku', 'claude-3-haiku-20240307']);
+    
+    const denied = await worker.fetch(makeRequest('/v1/models/claude-3-opus', { 'x-api-key': 'sk-ci-key' }), env, {} as ExecutionContext);
+    expect(denied.status).toBe(403);
+  });
+  
+  it('should fail loudly on a broken key config', async () => {
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(
+      makeRequest('/v1/models', { 'x-api-key': 'sk-ci-key' }),
+      { GEMINI_API_KEY: 'test-api-key', CLIENT_KEYS: '[{"name":"ci"}]' },
+      {} as ExecutionContext
+    );
+    const body = await response.json() as any;
+    
+    expect(response.status).toBe(500);
+    expect(body.error.type).toBe('configuration_error');
+    expect(body.error.message).toContain('CLIENT_KEYS[0].key_hash must be a hex SHA-256 digest');
+  });
+});
@@ -0,0 +1,421 @@
+import { describe, it, expect, beforeEach, vi, MockedFunction } from 'vitest';
+import {
+  BATCH_EXPIRY_MS,
+  BATCH_LEASE_MS,
+  createBatchRecord,
+  validateBatchRequests,
+  createMemoryBatchStore,
+  createKVBatchStore,
+  resetBatchStore,
+  needsProcessing,
+  processMessageBatch
+} from '../src/batches';
+import { hashApiKey, resetAuthCache } from '../src/auth';
+import { resetRoutingCache } from '../src/routing';
+import { resetUsageStore, getUsageStore } from '../src/usage';
+import { getRateLimitStore, resetRateLimitStore } from '../src/ratelimit';
+import { AnthropicRequest, BatchStore, Env, MessageBatchRecord, MessageBatchRequest, MessageBatchResult } from '../src/types';
+import { createMockUpstream } from './mock-upstream';
+
+const params = (content: string): AnthropicRequest => ({
+  model: 'claude-3-haiku',
+  max_tokens: 50,
+  messages: [{ role: 'user', content }]
+});
+
+const batchRequests = (count: number): MessageBatchRequest[] =>
+  Array.from({ length: count }, (_, index) => ({ custom_id: `req-${index}`, params: params(`Question ${index}`) }));
+
+const succeeded = (text: string): MessageBatchResult => ({
+  type: 'succeeded',
+  message: {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    content: [{ type: 'text', text }],
+    model: 'claude-3-haiku',
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 1, output_tokens: 1 }
+  }
+});
+
+const createBatch = async (store: BatchStore, count: number, now = Date.now()): Promise<MessageBatchRecord> => {
+  const record = createBatchRecord(count, null, now);
+  await store.create(record, batchRequests(count));
+  return record;
+};
+
+describe('Batch Request Validation', () => {
+  it('should accept unique custom_ids with params', () => {
+    expect(validateBatchRequests(batchRequests(2))).toEqual({ success: true, data: batchRequests(2) });
+  });
+  
+  it.each([
+    ['no requests', [], 'requests must be a non-empty array'],
+    ['a bad custom_id', [{ custom_id: 'has space', params: params('Hi') }], 'requests[0].custom_id must be 1-64 letters, digits, hyphens or underscores'],
+    [
+      'a repeated custom_id',
+      [{ custom_id: 'a', params: params('Hi') }, { custom_id: 'a', params: params('Hi') }],
+      'requests[1].custom_id "a" is used more than once'
+    ],
+    ['missing params', [{ custom_id: 'a' }], 'requests[0].params is required']
+  ])('should reject %s', (_name, requests, error) => {
+    expect(validateBatchRequests(requests)).toEqual({ success: false, error });
+  });
+});
+
+describe('Batch Processing', () => {
+  it('should run every request with bounded concurrency and end the batch', async () => {
+    const store = createMemoryBatchStore();
+    const record = await createBatch(store, 5);
+    let running = 0;
+    let maxRunning = 0;
+    const runRequest = vi.fn(async (request: AnthropicRequest) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      running--;
+      return succeeded(`Answer to ${request.messages[0].content}`);
+    });
+    
+    await processMessageBatch(record.batch.id, store, runRequest, 2);
+    
+    const ended = (await store.get(record.batch.id))!;
+    expect(runRequest).toHaveBeenCalledTimes(5);
+    expect(maxRunning).toBe(2);
+    expect(ended.batch.processing_status).toBe('ended');
+    expect(ended.batch.ended_at).not.toBeNull();
+    expect(ended.batch.request_counts).toEqual({ processing: 0, succeeded: 5, errored: 0, canceled: 0, expired: 0 });
+    expect(await store.getResults(record.batch.id)).toContainEqual({ custom_id: 'req-3', result: succeeded('Answer to Question 3') });
+  });
+  
+  it('should record thrown errors as errored results', async () => {
+    const store = createMemoryBatchStore();
+    const record = await createBatch(store, 1);
+    
+    await processMessageBatch(record.batch.id, store, async () => { throw new Error('socket hang up'); });
+    
+    expect(await store.getResults(record.batch.id)).toEqual([{
+      custom_id: 'req-0',
+      result: { type: 'errored', error: { type: 'error', error: { type: 'api_error', message: 'socket hang up' } } }
+    }]);
+  });
+  
+  it('should cancel the remaining requests once cancellation is stored', async () => {
+    const store = createMemoryBatchStore();
+    const record = await createBatch(store, 4);
+    const runRequest = vi.fn(async () => {
+      await store.cancel(record.batch.id, new Date().toISOString());
+      return succeeded('Only answer');
+    });
+    
+    await processMessageBatch(record.batch.id, store, runRequest, 1);
+    
+    const ended = (await store.get(record.batch.id))!;
+    expect(runRequest).toHaveBeenCalledTimes(1);
+    expect(ended.batch.processing_status).toBe('ended');
+    expect(ended.batch.cancel_initiated_at).not.toBeNull();
+    expect(ended.batch.request_counts).toEqual({ processing: 0, succeeded: 1, errored: 0, canceled: 3, expired: 0 });
+  });
+  
+  it('should throttle progress saves and finish when one fails', async () => {
+    const store = createMemoryBatchStore();
+    const record = await createBatch(store, 8);
+    const update = store.update.bind(store);
+    let updates = 0;
+    store.update = vi.fn(async (updated: MessageBatchRecord) => {
+      // The claim goes through; the next write hits the KV write limit
+      if (++updates === 2) throw new Error('KV PUT failed: 429 Too Many Requests');
+      await update(updated);
+    });
+    
+    await processMessageBatch(record.batch.id, store, async () => succeeded('Ok'), 4);
+    
+    const ended = (await store.get(record.batch.id))!;
+    expect(ended.batch.processing_status).toBe('ended');
+    expect(ended.batch.request_counts.succeeded).toBe(8);
+    expect(updates).toBeLessThan(8);
+  });
+  
+  it('should keep a cancel that a stale progress save would have overwritten', async () => {
+    const store = createMemoryBatchStore();
+    const record = await createBatch(store, 3);
+    const stale = (await store.get(record.batch.id))!;
+    const runRequest = vi.fn(async () => {
+      await store.cancel(record.batch.id, new Date().toISOString());
+      await store.update(stale);
+      return succeeded('Only answer');
+    });
+    
+    await processMessageBatch(record.batch.id, store, runRequest, 1);
+    
+    const ended = (await store.get(record.batch.id))!;
+    expect(ended.batch.cancel_initiated_at).not.toBeNull();
+    expect(ended.batch.request_counts).toEqual({ processing: 0, succeeded: 1, errored: 0, canceled: 2, expired: 0 });
+  });
+  
+  it('should leave requests whose result was not stored for the next run', async () => {
+    const store = createMemoryBatchStore();
+    const record = await createBatch(store, 2);
+    const putResult = store.putResult.bind(store);
+    store.putResult = vi.fn(async (id, line) => {
+      if (line.custom_id === 'req-1' && vi.mocked(store.putResult).mock.calls.length === 2) throw new Error('KV PUT failed');
+      await putResult(id, line);
+    });
+    
+    await processMessageBatch(record.batch.id, store, async () => succeeded('Ok'), 1);
+    
+    const interrupted = (await store.get(record.batch.id))!;
+    expect(interrupted.batch.processing_status).toBe('in_progress');
+    expect(needsProcessing(interrupted)).toBe(true);
+    
+    await processMessageBatch(record.batch.id, store, async () => succeeded('Ok'), 1);
+    
+    const ended = (await store.get(record.batch.id))!;
+    expect(ended.batch.processing_status).toBe('ended');
+    expect((await store.getResults(record.batch.id)).map(line => line.custom_id)).toEqual(['req-0', 'req-1']);
+  });
+  
+  it('should expire requests still pending after expires_at', async () => {
+    const store = createMemoryBatchStore();
+    const record = await createBatch(store, 2, Date.now() - BATCH_EXPIRY_MS - 1000);
+    const runRequest = vi.fn(async () => succeeded('Too late'));
+    
+    await processMessageBatch(record.batch.id, store, runRequest);
+    
+    expect(runRequest).not.toHaveBeenCalled();
+    expect((await store.get(record.batch.id))!.batch.request_counts.expired).toBe(2);
+  });
+  
+  it('should resume where an earlier loop stopped and leave leased batches alone', async () => {
+    const store = createMemoryBatchStore();
+    const record = await createBatch(store, 3);
+    await store.putResult(record.batch.id, { custom_id: 'req-0', result: succeeded('Earlier') });
+    const runRequest = vi.fn(async () => succeeded('Later'));
+    
+    await store.update({ ...record, leaseExpiresAt: Date.now() + 60000 });
+    expect(needsProcessing((await store.get(record.batch.id))!)).toBe(false);
+    await processMessageBatch(record.batch.id, store, runRequest);
+    expect(runRequest).not.toHaveBeenCalled();
+    
+    await store.update({ ...record, leaseExpiresAt: Date.now() - 1 });
+    await processMessageBatch(record.batch.id, store, runRequest);
+    
+    expect(runRequest).toHaveBeenCalledTimes(2);
+    expect((await store.get(record.batch.id))!.batch.request_counts).toMatchObject({ processing: 0, succeeded: 3 });
+  });
+  
+  it('should take over a batch within seconds once its loop stops renewing the lease', async () => {
+    vi.useFakeTimers();
+    try {
+      const store = createMemoryBatchStore();
+      const record = await createBatch(store, 2);
+      const runRequest = vi.fn(async () => succeeded('Resumed'));
+      // Claimed by a loop whose isolate was evicted before it saved any progress
+      await store.update({ ...record, leaseExpiresAt: Date.now() + BATCH_LEASE_MS });
+      expect(BATCH_LEASE_MS).toBeLessThan(30 * 1000);
+      
+      await processMessageBatch(record.batch.id, store, runRequest);
+      expect(runRequest).not.toHaveBeenCalled();
+      
+      await vi.advanceTimersByTimeAsync(BATCH_LEASE_MS);
+      expect(needsProcessing((await store.get(record.batch.id))!)).toBe(true);
+      
+      await processMessageBatch(record.batch.id, store, runRequest);
+      expect(runRequest).toHaveBeenCalledTimes(2);
+      expect((await store.get(record.batch.id))!.batch.processing_status).toBe('ended');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+  
+  it('should keep renewing the lease while a request outlasts it', async () => {
+    vi.useFakeTimers();
+    try {
+      const store = createMemoryBatchStore();
+      const record = await createBatch(store, 1);
+      let finish: (result: MessageBatchResult) => void = () => undefined;
+      const processing = processMessageBatch(record.batch.id, store, () => new Promise(resolve => { finish = resolve; }));
+      
+      await vi.advanceTimersByTimeAsync(3 * BATCH_LEASE_MS);
+      expect(needsProcessing((await store.get(record.batch.id))!)).toBe(false);
+      
+      finish(succeeded('Slow answer'));
+      await processing;
+      expect((await store.get(record.batch.id))!.batch.processing_status).toBe('ended');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('KV Batch Store', () => {
+  it('should list batches from key metadata and read results back', async () => {
+    const values = new Map<string, { value: string; metadata?: unknown }>();
+    const kv = {
+      put: vi.fn(async (key: string, value: string, options?: { metadata?: unknown }) => {
+        values.set(key, { value, metadata: options?.metadata });
+      }),
+      get: vi.fn(async (key: string, type?: string) => {
+        if (!values.has(key)) return null;
+        return type === 'json' ? JSON.parse(values.get(key)!.value) : values.get(key)!.value;
+      }),
+      list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+        keys: [...values.keys()].filter(key => key.startsWith(prefix)).map(name => ({ name, metadata: values.get(name)!.metadata })),
+        list_complete: true
+      }))
+    } as unknown as KVNamespace;
+    const store = createKVBatchStore(kv);
+    
+    const record = await createBatch(store, 2);
+    await store.putResult(record.batch.id, { custom_id: 'req-1', result: { type: 'canceled' } });
+    
+    expect(await store.list()).toEqual([record]);
+    
+    await store.cancel(record.batch.id, '2025-01-01T00:00:00.000Z');
+    expect((await store.get(record.batch.id))?.batch).toMatchObject({ processing_status: 'canceling', cancel_initiated_at: '2025-01-01T00:00:00.000Z' });
+    expect(await store.getRequests(record.batch.id)).toEqual(batchRequests(2));
+    expect(await store.getResults(record.batch.id)).toEqual([{ custom_id: 'req-1', result: { type: 'canceled' } }]);
+    expect(kv.put).toHaveBeenCalledWith(`batch-result:${record.batch.id}:req-1`, expect.any(String), { expirationTtl: 29 * 24 * 60 * 60 });
+  });
+});
+
+describe('Message Batches API', () => {
+  let env: Env;
+  
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetAuthCache();
+    resetRoutingCache();
+    resetUsageStore();
+    resetBatchStore();
+    resetRateLimitStore();
+    env = { GEMINI_API_KEY: 'test-api-key' };
+  });
+  
+  const call = async (path: string, init: { method?: string; body?: unknown; headers?: Record<string, string> } = {}): Promise<Response> => {
+    const worker = (await import('../src/worker')).default;
+    return worker.fetch(new Request(`https://example.com${path}`, {
+      method: init.method || 'GET',
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body)
+    }), env, {} as ExecutionContext);
+  };
+  
+  it('should create a batch, process it through the pipeline and serve JSONL results', async () => {
+    const upstream = createMockUpstream([
+      { text: 'Paris', usage: { input: 10, output: 1 } },
+      { status: 400, errorBody: { error: { message: 'Invalid argument' } } }
+    ]);
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(upstream.fetch);
+    
+    const created = await call('/v1/messages/batches', {
+      method: 'POST',
+      body: { requests: [{ custom_id: 'capital', params: params('Capital of France?') }, { custom_id: 'broken', params: params('Hi') }] }
+    });
+    
+    expect(created.status).toBe(200);
+    const batch = await created.json() as any;
+    expect(batch).toMatchObject({
+      type: 'message_batch',
+      processing_status: 'in_progress',
+      request_counts: { processing: 2, succeeded: 0, errored: 0, canceled: 0, expired: 0 },
+      results_url: null
+    });
+    expect(batch.id).toMatch(/^msgbatch_/);
+    
+    const retrieved = await (await call(`/v1/messages/batches/${batch.id}`)).json() as any;
+    expect(retrieved.processing_status).toBe('ended');
+    expect(retrieved.request_counts).toEqual({ processing: 0, succeeded: 1, errored: 1, canceled: 0, expired: 0 });
+    expect(retrieved.results_url).toBe(`https://example.com/v1/messages/batches/${batch.id}/results`);
+    
+    const results = await call(`/v1/messages/batches/${batch.id}/results`);
+    expect(results.headers.get('Content-Type')).toBe('application/x-jsonl');
+    const lines = (await results.text()).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => [line.custom_id, line.result.type])).toEqual([['capital', 'succeeded'], ['broken', 'errored']]);
+    expect(lines[0].result.message.content).toEqual([{ type: 'text', text: 'Paris' }]);
+    expect(lines[1].result.error).toEqual({ type: 'error', error: { type: 'invalid_request_error', message: 'Invalid argument' } });
+    
+    const usage = await getUsageStore(env).list([new Date().toISOString().slice(0, 10)]);
+    expect(usage.map(record => [record.status, record.stream])).toEqual([[200, false], [400, false]]);
+  });
+  
+  it('should count batch requests against the daily output token quota', async () => {
+    const upstream = createMockUpstream([
+      { text: 'One', usage: { input: 5, output: 10 } },
+      { text: 'Two', usage: { input: 5, output: 10 } }
+    ]);
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(upstream.fetch);
+    env.BATCH_CONCURRENCY = '1';
+    env.CLIENT_KEYS = JSON.stringify([{ name: 'ci', key_hash: await hashApiKey('sk-ci-key'), limits: { output_tokens_per_day: 60 } }]);
+    const headers = { 'x-api-key': 'sk-ci-key' };
+    
+    // Each request holds back its max_tokens of 50 until its usage is known
+    const batch = await (await call('/v1/messages/batches', { method: 'POST', headers, body: { requests: batchRequests(3) } })).json() as any;
+    const results = await call(`/v1/messages/batches/${batch.id}/results`, { headers });
+    
+    const lines = (await results.text()).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.result.type)).toEqual(['succeeded', 'succeeded', 'errored']);
+    expect(lines[2].result.error.error).toEqual({ type: 'rate_limit_error', message: 'This request would exceed your rate limit of 60 output tokens per day' });
+    expect(upstream.requests).toHaveLength(2);
+    expect((await getRateLimitStore(env).get('ci:output-tokens', 24 * 60 * 60 * 1000)).count).toBe(20);
+  });
+  
+  it('should list batches newest first with pagination', async () => {
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(createMockUpstream({ text: 'Ok' }).fetch);
+    const ids: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      vi.setSystemTime(Date.UTC(2025, 0, 1, 0, i));
+      ids.push((await (await call('/v1/messages/batches', { method: 'POST', body: { requests: batchRequests(1) } })).json() as any).id);
+    }
+    vi.useRealTimers();
+    
+    const firstPage = await (await call('/v1/messages/batches?limit=2')).json() as any;
+    expect(firstPage.data.map((batch: any) => batch.id)).toEqual([ids[2], ids[1]]);
+    expect(firstPage.has_more).toBe(true);
+    
+    const nextPage = await (await call(`/v1/messages/batches?after_id=${firstPage.last_id}`)).json() as any;
+    expect(nextPage.data.map((batch: any) => batch.id)).toEqual([ids[0]]);
+    expect(nextPage.has_more).toBe(false);
+  });
+  
+  it('should leave ended batches as they are on cancel', async () => {
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(createMockUpstream({ text: 'Ok' }).fetch);
+    const batch = await (await call('/v1/messages/batches', { method: 'POST', body: { requests: batchRequests(1) } })).json() as any;
+    
+    const canceled = await (await call(`/v1/messages/batches/${batch.id}/cancel`, { method: 'POST' })).json() as any;
+    
+    expect(canceled.processing_status).toBe('ended');
+    expect(canceled.cancel_initiated_at).toBeNull();
+  });
+  
+  it.each([
+    ['a streaming request', { ...params('Hi'), stream: true }, 'requests[0].params: stream is not supported in batches'],
+    ['an invalid request', { model: 'claude-3-haiku', messages: [] }, 'requests[0].params: Messages array cannot be empty']
+  ])('should reject a batch with %s', async (_name, batchParams, message) => {
+    const response = await call('/v1/messages/batches', { method: 'POST', body: { requests: [{ custom_id: 'a', params: batchParams }] } });
+    
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ type: 'error', error: { type: 'invalid_request_error', message } });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+  
+  it('should hide batches from other keys and unknown ids', async () => {
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(createMockUpstream({ text: 'Ok' }).fetch);
+    env.CLIENT_KEYS = JSON.stringify([
+      { name: 'ci', key_hash: await hashApiKey('sk-ci-key') },
+      { name: 'team', key_hash: await hashApiKey('sk-team-key') }
+    ]);
+    const batch = await (await call('/v1/messages/batches', {
+      method: 'POST',
+      headers: { 'x-api-key': 'sk-ci-key' },
+      body: { requests: batchRequests(1) }
+    })).json() as any;
+    
+    expect((await call(`/v1/messages/batches/${batch.id}`, { headers: { 'x-api-key': 'sk-ci-key' } })).status).toBe(200);
+    expect((await call(`/v1/messages/batches/${batch.id}`, { headers: { 'x-api-key': 'sk-team-key' } })).status).toBe(404);
+    expect((await call('/v1/messages/batches/msgbatch_missing', { headers: { 'x-api-key': 'sk-ci-key' } })).status).toBe(404);
+    expect((await (await call('/v1/messages/batches', { headers: { 'x-api-key': 'sk-team-key' } })).json() as any).data).toEqual([]);
+  });
+});
@@ -0,0 +1,313 @@
+import { describe, it, expect, vi, beforeEach, MockedFunction } from 'vitest';
+import {
+  createMemoryPromptCacheStore,
+  createKVPromptCacheStore,
+  resetPromptCacheStore,
+  getCachePrefixKey,
+  applyPromptCache,
+  convertCacheUsage
+} from '../src/cache';
+import { buildGenerateContentRequest } from '../src/providers/google';
+import { googleProvider } from '../src/providers';
+import { resetRoutingCache } from '../src/routing';
+import { processGeminiStream } from '../src/worker';
+import { AnthropicStreamChunk, Env, GeminiRequest, PromptCacheEntry, UpstreamProvider } from '../src/types';
+import { createMockUpstream } from './mock-upstream';
+
+const env: Env = { GEMINI_API_KEY: 'test-api-key' };
+
+// Comfortably past the minimum cacheable prefix
+const longText = 'cached context '.repeat(400);
+
+const cachedRequest = (): GeminiRequest => ({
+  model: 'google/gemini-2.5-pro',
+  messages: [
+    { role: 'system', content: longText },
+    { role: 'user', content: 'First question' },
+    { role: 'assistant', content: 'First answer' },
+    { role: 'user', content: 'Second question' }
+  ],
+  cache_breakpoints: [{ messageCount: 1, ttl: '5m' }, { messageCount: 3, ttl: '5m' }]
+});
+
+const createStubProvider = (entry: PromptCacheEntry | null = { name: 'cachedContents/new', tokens: 1500, expiresAt: Date.now() + 300000 }): UpstreamProvider => ({
+  name: 'openai',
+  buildRequest: vi.fn(),
+  parseResponse: vi.fn(),
+  createStreamParser: vi.fn(),
+  createCachedContent: vi.fn(async () => entry),
+  extendCachedContent: vi.fn(async () => Date.now() + 300000)
+});
+
+describe('Prompt Cache Stores', () => {
+  it('should keep entries in memory', async () => {
+    const store = createMemoryPromptCacheStore();
+    const entry = { name: 'cachedContents/a', tokens: 2000, expiresAt: Date.now() + 60000 };
+    
+    await store.put('key', entry);
+    
+    expect(await store.get('key')).toEqual(entry);
+    expect(await store.get('other')).toBeNull();
+  });
+  
+  it('should expire KV entries with the upstream cache', async () => {
+    const kv = { get: vi.fn(async () => null), put: vi.fn(async () => undefined) } as unknown as KVNamespace;
+    const store = createKVPromptCacheStore(kv);
+    
+    await store.put('key', { name: 'cachedContents/a', tokens: 2000, expiresAt: Date.now() + 3600000 });
+    await store.get('key');
+    
+    expect(kv.put).toHaveBeenCalledWith('prompt-cache:key', expect.any(String), { expirationTtl: 3600 });
+    expect(kv.get).toHaveBeenCalledWith('prompt-cache:key', 'json');
+  });
+});
+
+describe('Prompt Cache Keys', () => {
+  it('should depend only on the model, tools and the cached messages', async () => {
+    const request = cachedRequest();
+    const key = await getCachePrefixKey(request, 1);
+    
+    expect(await getCachePrefixKey({ ...request, messages: request.messages.slice(0, 1) }, 1)).toBe(key);
+    expect(await getCachePrefixKey(request, 3)).not.toBe(key);
+    expect(await getCachePrefixKey({ ...request, model: 'google/gemini-2.5-flash' }, 1)).not.toBe(key);
+    expect(await getCachePrefixKey({
+      ...request,
+      tools: [{ type: 'function', function: { name: 'lookup', description: '', parameters: { type: 'object', properties: {} } } }]
+    }, 1)).not.toBe(key);
+  });
+});
+
+describe('Applying the Prompt Cache', () => {
+  it('should create a cache at the last breakpoint on a miss', async () => {
+    const request = cachedRequest();
+    const provider = createStubProvider();
+    const store = createMemoryPromptCacheStore();
+    
+    const promptCache = await applyPromptCache(request, provider, env, store);
+    
+    expect(provider.createCachedContent).toHaveBeenCalledWith(request, 3, 300, env);
+    expect(promptCache).toEqual({ name: 'cachedContents/new', messageCount: 3, tokens: 1500, created: true });
+    expect(request.cached_content).toEqual({ name: 'cachedContents/new', messageCount: 3, model: 'google/gemini-2.5-pro' });
+    expect(await store.get(await getCachePrefixKey(request, 3))).toMatchObject({ name: 'cachedContents/new' });
+  });
+  
+  it('should read the longest cached prefix without creating another', async () => {
+    const request = cachedRequest();
+    const provider = createStubProvider();
+    const store = createMemoryPromptCacheStore();
+    await store.put(await getCachePrefixKey(request, 1), { name: 'cachedContents/system', tokens: 1200, expiresAt: Date.now() + 290000 });
+    
+    const promptCache = await applyPromptCache(request, provider, env, store);
+    
+    expect(provider.createCachedContent).not.toHaveBeenCalled();
+    expect(provider.extendCachedContent).not.toHaveBeenCalled();
+    expect(promptCache).toEqual({ name: 'cachedContents/system', messageCount: 1, tokens: 1200, created: false });
+  });
+  
+  it('should extend a cache hit past half its TTL and skip nearly expired entries', async () => {
+    const request = cachedRequest();
+    const provider = createStubProvider();
+    const store = createMemoryPromptCacheStore();
+    await store.put(await getCachePrefixKey(request, 3), { name: 'cachedContents/expiring', tokens: 1500, expiresAt: Date.now() + 10000 });
+    await store.put(await getCachePrefixKey(request, 1), { name: 'cachedContents/system', tokens: 1200, expiresAt: Date.now() + 60000 });
+    
+    const promptCache = await applyPromptCache(request, provider, env, store);
+    
+    expect(provider.extendCachedContent).toHaveBeenCalledWith('cachedContents/system', 300, env);
+    expect(promptCache?.name).toBe('cachedContents/system');
+    expect((await store.get(await getCachePrefixKey(request, 1)))!.expiresAt).toBeGreaterThan(Date.now() + 60000);
+  });
+  
+  it('should skip breakpoints on the last message or over small prefixes', async () => {
+    const provider = createStubProvider();
+    const store = createMemoryPromptCacheStore();
+    const lastMessage = { ...cachedRequest(), cache_breakpoints: [{ messageCount: 4, ttl: '5m' as const }] };
+    const small = {
+      ...cachedRequest(),
+      messages: [{ role: 'system' as const, content: 'Short' }, { role: 'user' as const, content: 'Hi' }],
+      cache_breakpoints: [{ messageCount: 1, ttl: '1h' as const }]
+    };
+    
+    expect(await applyPromptCache(lastMessage, provider, env, store)).toBeNull();
+    expect(await applyPromptCache(small, provider, env, store)).toBeNull();
+    expect(provider.createCachedContent).not.toHaveBeenCalled();
+    expect(small.cached_content).toBeUndefined();
+  });
+  
+  it('should fall back to the full prompt when the cache cannot be created', async () => {
+    const request = cachedRequest();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const failing = { ...createStubProvider(), createCachedContent: vi.fn(async () => { throw new Error('quota'); }) };
+    
+    expect(await applyPromptCache(request, createStubProvider(null), env, createMemoryPromptCacheStore())).toBeNull();
+    expect(await applyPromptCache(request, failing, env, createMemoryPromptCacheStore())).toBeNull();
+    expect(request.cached_content).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith('Prompt cache unavailable, sending the full prompt:', expect.any(Error));
+    warn.mockRestore();
+  });
+});
+
+describe('Prompt Cache Usage', () => {
+  it('should split prompt tokens into uncached input, cache writes and cache reads', () => {
+    const usage = { prompt_tokens: 1600, completion_tokens: 10, total_tokens: 1610, prompt_tokens_details: { cached_tokens: 1500 } };
+    const created = { name: 'cachedContents/a', messageCount: 1, tokens: 1400, created: true };
+    
+    expect(convertCacheUsage(usage, created)).toEqual({ input_tokens: 100, cache_creation_input_tokens: 1500, cache_read_input_tokens: 0 });
+    expect(convertCacheUsage(usage, { ...created, created: false })).toEqual({ input_tokens: 100, cache_creation_input_tokens: 0, cache_read_input_tokens: 1500 });
+    expect(convertCacheUsage({ ...usage, prompt_tokens_details: undefined }, created)).toMatchObject({ input_tokens: 200, cache_creation_input_tokens: 1400 });
+    expect(convertCacheUsage({ ...usage, prompt_tokens_details: undefined }, null)).toEqual({ input_tokens: 1600 });
+  });
+  
+  it('should report cache reads in streamed usage', async () => {
+    const upstream = createMockUpstream({ text: 'Streamed', usage: { input: 1300, output: 4 }, cachedTokens: 1260 });
+    const request = { ...cachedRequest(), stream: true };
+    const upstreamRequest = googleProvider.buildRequest(request, env);
+    const written: string[] = [];
+    const writer = {
+      write: async (chunk: Uint8Array) => { written.push(Buffer.from(chunk).toString('utf8')); },
+      close: async () => undefined
+    } as unknown as WritableStreamDefaultWriter<any>;
+    
+    await processGeminiStream(
+      await upstream.fetch(upstreamRequest.url, upstreamRequest.init),
+      writer,
+      { model: 'claude-3-opus', max_tokens: 50, messages: [{ role: 'user', content: 'Hi' }] },
+      googleProvider.createStreamParser(request),
+      undefined,
+      undefined,
+      { name: 'cachedContents/a', messageCount: 3, tokens: 1260, created: false }
+    );
+    
+    const events: AnthropicStreamChunk[] = written.join('')
+      .split('\n\n')
+      .filter(Boolean)
+      .map(event => JSON.parse(event.split('\n')[1].slice('data: '.length)));
+    expect(events.find(event => event.type === 'message_delta')?.usage).toEqual({
+      input_tokens: 40,
+      output_tokens: 4,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 1260
+    });
+  });
+});
+
+describe('Google Cached Content', () => {
+  it('should send only the uncached suffix with the cache name', () => {
+    const request: GeminiRequest = {
+      ...cachedRequest(),
+      tools: [{ type: 'function', function: { name: 'lookup', description: 'Look up', parameters: { type: 'object', properties: {} } } }],
+      tool_choice: 'auto',
+      cached_content: { name: 'cachedContents/abc', messageCount: 3, model: 'google/gemini-2.5-pro' }
+    };
+    
+    const nativeRequest = buildGenerateContentRequest(request);
+    
+    expect(nativeRequest.cachedContent).toBe('cachedContents/abc');
+    expect(nativeRequest.contents).toEqual([{ role: 'user', parts: [{ text: 'Second question' }] }]);
+    expect(nativeRequest.systemInstruction).toBeUndefined();
+    expect(nativeRequest.tools).toBeUndefined();
+    expect(nativeRequest.toolConfig).toBeUndefined();
+  });
+  
+  it('should ignore a cache that does not hold the system instruction', () => {
+    const nativeRequest = buildGenerateContentRequest({
+      ...cachedRequest(),
+      cached_content: { name: 'cachedContents/abc', messageCount: 0, model: 'google/gemini-2.5-pro' }
+    });
+    
+    expect(nativeRequest.cachedContent).toBeUndefined();
+    expect(nativeRequest.systemInstruction).toEqual({ parts: [{ text: longText }] });
+  });
+  
+  it('should ignore a cache made for another model', () => {
+    const nativeRequest = buildGenerateContentRequest({
+      ...cachedRequest(),
+      model: 'google/gemini-2.5-flash',
+      cached_content: { name: 'cachedContents/abc', messageCount: 3, model: 'google/gemini-2.5-pro' }
+    });
+    
+    expect(nativeRequest.cachedContent).toBeUndefined();
+    expect(nativeRequest.contents).toHaveLength(3);
+  });
+});
+
+describe('Prompt Caching Through the Worker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRoutingCache();
+    resetPromptCacheStore();
+  });
+  
+  it('should write the cache on the first request and read it on the next', async () => {
+    const upstream = createMockUpstream({ text: 'Answer', usage: { input: 1300, output: 5 }, cachedTokens: 1260 });
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(upstream.fetch);
+    const worker = (await import('../src/worker')).default;
+    const routedEnv = {
+      ...env,
+      GOOGLE_API_BASE: 'http://localhost:9999/v1beta',
+      MODEL_ROUTES: JSON.stringify({ default: 'google/gemini-2.5-pro', rules: [{ match: '*', model: 'google/gemini-2.5-pro', provider: 'google' }] })
+    };
+    const send = async (): Promise<any> => (await worker.fetch(new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({
+        model: 'claude-3-opus',
+        max_tokens: 50,
+        system: [{ type: 'text', text: longText, cache_control: { type: 'ephemeral', ttl: '1h' } }],
+        messages: [{ role: 'user', content: 'Hi' }]
+      })
+    }), routedEnv, {} as ExecutionContext)).json();
+    
+    const first = await send();
+    const second = await send();
+    
+    expect(first.usage).toEqual({ input_tokens: 40, output_tokens: 5, cache_creation_input_tokens: 1260, cache_read_input_tokens: 0 });
+    expect(second.usage).toEqual({ input_tokens: 40, output_tokens: 5, cache_creation_input_tokens: 0, cache_read_input_tokens: 1260 });
+    
+    expect(upstream.requests.map(request => request.url)).toEqual([
+      'http://localhost:9999/v1beta/cachedContents',
+      'http://localhost:9999/v1beta/models/gemini-2.5-pro:generateContent',
+      'http://localhost:9999/v1beta/models/gemini-2.5-pro:generateContent'
+    ]);
+    expect(upstream.requests[0].body).toMatchObject({
+      model: 'models/gemini-2.5-pro',
+      systemInstruction: { parts: [{ text: longText }] },
+      contents: [],
+      ttl: '3600s'
+    });
+    expect(upstream.requests[2].body.cachedContent).toBe('cachedContents/mock');
+    expect(upstream.requests[2].body.systemInstruction).toBeUndefined();
+    expect(upstream.requests[2].body.contents).toEqual([{ role: 'user', parts: [{ text: 'Hi' }] }]);
+  });
+  
+  it('should cache the system prompt along with tools marked for caching', async () => {
+    const upstream = createMockUpstream({ text: 'Answer', usage: { input: 1300, output: 5 }, cachedTokens: 1260 });
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(upstream.fetch);
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({
+        model: 'claude-3-opus',
+        max_tokens: 50,
+        system: 'Be brief.',
+        tools: [{
+          name: 'lookup',
+          description: longText,
+          input_schema: { type: 'object', properties: {} },
+          cache_control: { type: 'ephemeral' }
+        }],
+        messages: [{ role: 'user', content: 'Hi' }]
+      })
+    }), {
+      ...env,
+      GOOGLE_API_BASE: 'http://localhost:9999/v1beta',
+      MODEL_ROUTES: JSON.stringify({ default: 'google/gemini-2.5-pro', rules: [{ match: '*', model: 'google/gemini-2.5-pro', provider: 'google' }] })
+    }, {} as ExecutionContext);
+    
+    expect(response.status).toBe(200);
+    expect(upstream.requests[0].url).toBe('http://localhost:9999/v1beta/cachedContents');
+    expect(upstream.requests[0].body.systemInstruction).toEqual({ parts: [{ text: 'Be brief.' }] });
+    expect(upstream.requests[0].body.tools[0].functionDeclarations[0].name).toBe('lookup');
+    expect(upstream.requests[1].body.cachedContent).toBe('cachedContents/mock');
+  });
+});
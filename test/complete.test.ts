@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi, MockedFunction } from 'vitest';
+import {
+  parseCompletionPrompt,
+  convertCompletionToAnthropic,
+  convertAnthropicToCompletion,
+  createCompletionStreamTranslator
+} from '../src/complete';
+import { pipeAnthropicStream } from '../src/worker';
+import { resetAuthCache } from '../src/auth';
+import { resetRoutingCache } from '../src/routing';
+import { resetUsageStore } from '../src/usage';
+import { CompletionRequest, Env } from '../src/types';
+import { createChunkedBody, createMockUpstream } from './mock-upstream';
+import { anthropicResponse, collectWriter, sse } from './fixtures';
+
+describe('Completion Prompt Parsing', () => {
+  it('should split turns, keep leading text as the system prompt and prefill a trailing answer', () => {
+    const prompt = 'You are terse.\n\nHuman: Hi\n\nAssistant: Hello\n\nHuman: Count to three\n\nHuman: Please\n\nAssistant: One,';
+    
+    expect(parseCompletionPrompt(prompt)).toEqual({
+      success: true,
+      data: {
+        system: 'You are terse.',
+        messages: [
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello' },
+          { role: 'user', content: 'Count to three\n\nPlease' },
+          { role: 'assistant', content: 'One,' }
+        ]
+      }
+    });
+  });
+  
+  it('should leave out the empty final Assistant turn', () => {
+    expect(parseCompletionPrompt('\n\nHuman: Hi\n\nAssistant:').data).toEqual({ messages: [{ role: 'user', content: 'Hi' }] });
+  });
+  
+  it.each([
+    ['a missing prompt', undefined, 'Missing required field: prompt'],
+    ['a prompt without turns', 'Hi', 'prompt must contain a "\\n\\nHuman:" turn before any "\\n\\nAssistant:" turn'],
+    ['a prompt opening with Assistant', '\n\nAssistant: Hi\n\nHuman: Hi\n\nAssistant:', 'prompt must contain a "\\n\\nHuman:" turn before any "\\n\\nAssistant:" turn'],
+    ['a prompt ending on a Human turn', '\n\nHuman: Hi', 'prompt must end with a "\\n\\nAssistant:" turn']
+  ])('should reject %s', (_name, prompt, error) => {
+    expect(parseCompletionPrompt(prompt)).toEqual({ success: false, error });
+  });
+});
+
+describe('Completion Request Conversion', () => {
+  it('should map max_tokens_to_sample and sampling options onto a Messages request', () => {
+    const request: CompletionRequest = {
+      model: 'claude-2.1',
+      prompt: '\n\nHuman: Hi\n\nAssistant:',
+      max_tokens_to_sample: 300,
+      stop_sequences: ['\n\nHuman:'],
+      temperature: 0.5
+    };
+    
+    expect(convertCompletionToAnthropic(request).data).toEqual({
+      model: 'claude-2.1',
+      messages: [{ role: 'user', content: 'Hi' }],
+      max_tokens: 300,
+      temperature: 0.5,
+      top_p: undefined,
+      stream: undefined,
+      stop_sequences: ['\n\nHuman:']
+    });
+  });
+  
+  it('should require max_tokens_to_sample', () => {
+    const result = convertCompletionToAnthropic({ model: 'claude-2.1', prompt: '\n\nHuman: Hi\n\nAssistant:' } as CompletionRequest);
+    expect(result).toEqual({ success: false, error: 'Missing required field: max_tokens_to_sample' });
+  });
+});
+
+describe('Completion Response Conversion', () => {
+  it('should join the text blocks into a completion', () => {
+    const completion = convertAnthropicToCompletion(anthropicResponse({
+      model: 'claude-2.1',
+      content: [{ type: 'thinking', thinking: 'Hmm', signature: '' }, { type: 'text', text: 'Hello' }, { type: 'text', text: ' there' }]
+    }));
+    
+    expect(completion).toEqual({
+      type: 'completion',
+      id: 'compl_123',
+      completion: 'Hello there',
+      stop_reason: 'stop_sequence',
+      stop: null,
+      model: 'claude-2.1'
+    });
+  });
+  
+  it('should report max_tokens when the answer was cut off', () => {
+    expect(convertAnthropicToCompletion(anthropicResponse({ model: 'claude-2.1', stop_reason: 'max_tokens' })).stop_reason).toBe('max_tokens');
+  });
+  
+  it('should rewrite a Messages stream as completion events', async () => {
+    const written: string[] = [];
+    const body = createChunkedBody(sse([
+      { type: 'message_start', message: { ...anthropicResponse(), content: [], stop_reason: null } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'message_delta', delta: { stop_reason: 'max_tokens', stop_sequence: null }, usage: { output_tokens: 2 } },
+      { type: 'message_stop' },
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }
+    ]));
+    
+    await pipeAnthropicStream(body, collectWriter(written), createCompletionStreamTranslator('claude-2.1'));
+    
+    expect(written.map(chunk => chunk.split('\n')[0])).toEqual(['event: completion', 'event: completion', 'event: completion', 'event: error']);
+    const data = written.map(chunk => JSON.parse(chunk.split('\n')[1].slice('data: '.length)));
+    expect(data.slice(0, 3).map(event => [event.completion, event.stop_reason])).toEqual([['Hel', null], ['lo', null], ['', 'max_tokens']]);
+    expect(data[0]).toMatchObject({ type: 'completion', id: 'compl_123', model: 'claude-2.1' });
+    expect(data[3]).toEqual({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } });
+  });
+});
+
+describe('Completions Endpoint', () => {
+  let env: Env;
+  
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetAuthCache();
+    resetRoutingCache();
+    resetUsageStore();
+    env = { GEMINI_API_KEY: 'test-api-key' };
+  });
+  
+  const call = async (body: unknown): Promise<Response> => {
+    const worker = (await import('../src/worker')).default;
+    return worker.fetch(new Request('https://example.com/v1/complete', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    }), env, {} as ExecutionContext);
+  };
+  
+  it('should serve a completion through the Messages pipeline', async () => {
+    const upstream = createMockUpstream({ text: 'Paris.' });
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(upstream.fetch);
+    
+    const response = await call({ model: 'claude-2.1', prompt: 'Be brief.\n\nHuman: Capital of France?\n\nAssistant:', max_tokens_to_sample: 20 });
+    
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ type: 'completion', completion: 'Paris.', stop_reason: 'stop_sequence', model: 'claude-2.1' });
+    expect(upstream.requests[0].body.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Capital of France?' }
+    ]);
+    expect(upstream.requests[0].body.max_tokens).toBe(20);
+  });
+  
+  it('should reject malformed prompts before calling upstream', async () => {
+    const response = await call({ model: 'claude-2.1', prompt: 'Capital of France?', max_tokens_to_sample: 20 });
+    
+    expect(response.status).toBe(400);
+    expect((await response.json() as any).error.type).toBe('invalid_request_error');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
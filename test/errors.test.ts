@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { classifyUpstreamError, extractStreamError } from '../src/errors';
+import { processGeminiStream } from '../src/worker';
+import { openAIProvider } from '../src/providers';
+import { resetRoutingCache } from '../src/routing';
+import { AnthropicRequest, AnthropicStreamChunk, Env } from '../src/types';
+import { createChunkedBody, createMockUpstream } from './mock-upstream';
+
+const env: Env = { GEMINI_API_KEY: 'test-api-key', UPSTREAM_MAX_RETRIES: '0' };
+
+const originalRequest: AnthropicRequest = {
+  model: 'claude-3-sonnet',
+  messages: [{ role: 'user', content: 'Hello!' }],
+  max_tokens: 100
+};
+
+const sendMessage = async (body: Partial<AnthropicRequest> = {}): Promise<Response> => {
+  const worker = (await import('../src/worker')).default;
+  const request = new Request('https://example.com/v1/messages', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...originalRequest, ...body })
+  });
+  
+  return worker.fetch(request, env, {} as ExecutionContext);
+};
+
+const collectEvents = async (chunks: string[]): Promise<AnthropicStreamChunk[]> => {
+  const written: string[] = [];
+  const writer = {
+    write: async (chunk: Uint8Array) => { written.push(Buffer.from(chunk).toString('utf8')); },
+    close: async () => undefined
+  } as unknown as WritableStreamDefaultWriter<any>;
+  const response = new Response(createChunkedBody(chunks), { status: 200 });
+  
+  await processGeminiStream(response, writer, originalRequest, openAIProvider.createStreamParser({ model: 'google/gemini-2.5-flash', messages: [] }));
+  
+  return written.join('')
+    .split('\n\n')
+    .filter(Boolean)
+    .map(event => JSON.parse(event.split('\n')[1].slice('data: '.length)));
+};
+
+describe('Upstream Error Classification', () => {
+  it.each([
+    [400, 'invalid_request_error', 400],
+    [401, 'authentication_error', 401],
+    [403, 'permission_error', 403],
+    [404, 'not_found_error', 404],
+    [413, 'request_too_large', 413],
+    [422, 'invalid_request_error', 400],
+    [429, 'rate_limit_error', 429],
+    [500, 'api_error', 500],
+    [502, 'api_error', 500],
+    [503, 'overloaded_error', 529],
+    [529, 'overloaded_error', 529]
+  ])('should map upstream status %i to %s/%i', (upstreamStatus, type, status) => {
+    const classified = classifyUpstreamError(upstreamStatus, '');
+    
+    expect(classified.type).toBe(type);
+    expect(classified.status).toBe(status);
+  });
+  
+  it('should keep the upstream message from OpenAI-style bodies', () => {
+    const classified = classifyUpstreamError(400, JSON.stringify({
+      error: { message: 'max_tokens is too large', type: 'invalid_request_error', code: null }
+    }));
+    
+    expect(classified).toEqual({
+      type: 'invalid_request_error',
+      message: 'max_tokens is too large',
+      status: 400,
+      retryAfter: undefined
+    });
+  });
+  
+  it('should prefer the Google RPC status over the HTTP status', () => {
+    const classified = classifyUpstreamError(400, JSON.stringify([{
+      error: { code: 400, message: 'API key not valid', status: 'UNAUTHENTICATED' }
+    }]));
+    
+    expect(classified.type).toBe('authentication_error');
+    expect(classified.status).toBe(401);
+    expect(classified.message).toBe('API key not valid');
+  });
+  
+  it('should take retry-after from the header or from Google RetryInfo', () => {
+    const fromHeader = classifyUpstreamError(429, '{}', new Headers({ 'Retry-After': '12' }));
+    expect(fromHeader.retryAfter).toBe('12');
+    
+    const fromBody = classifyUpstreamError(429, JSON.stringify({
+      error: {
+        code: 429,
+        message: 'Quota exceeded',
+        status: 'RESOURCE_EXHAUSTED',
+        details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '26.4s' }]
+      }
+    }));
+    expect(fromBody.type).toBe('rate_limit_error');
+    expect(fromBody.retryAfter).toBe('27');
+  });
+  
+  it('should fall back to plain text bodies and truncate long messages', () => {
+    expect(classifyUpstreamError(502, 'Bad Gateway').message).toBe('Bad Gateway');
+    expect(classifyUpstreamError(503, '').message).toBe('Upstream model is overloaded');
+    expect(classifyUpstreamError(500, 'x'.repeat(600)).message).toHaveLength(503);
+  });
+  
+  it('should only treat payloads with an error object as stream errors', () => {
+    expect(extractStreamError('[DONE]')).toBeNull();
+    expect(extractStreamError(JSON.stringify({ choices: [] }))).toBeNull();
+    expect(extractStreamError(JSON.stringify({ error: { code: 503, message: 'Model is overloaded' } }))).toEqual({
+      type: 'overloaded_error',
+      message: 'Model is overloaded'
+    });
+  });
+});
+
+describe('Upstream Error Responses', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRoutingCache();
+  });
+  
+  it('should return rate limit errors with retry-after', async () => {
+    const upstream = createMockUpstream([{
+      status: 429,
+      errorBody: { error: { message: 'Too many requests' } },
+      headers: { 'retry-after': '30' }
+    }]);
+    vi.mocked(global.fetch).mockImplementation(upstream.fetch);
+    
+    const response = await sendMessage();
+    const body = await response.json() as any;
+    
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('30');
+    expect(body).toEqual({ type: 'error', error: { type: 'rate_limit_error', message: 'Too many requests' } });
+  });
+  
+  it('should map overloaded upstreams to 529', async () => {
+    const upstream = createMockUpstream([{ status: 503, errorBody: { error: { message: 'The model is overloaded.', status: 'UNAVAILABLE' } } }]);
+    vi.mocked(global.fetch).mockImplementation(upstream.fetch);
+    
+    const response = await sendMessage();
+    const body = await response.json() as any;
+    
+    expect(response.status).toBe(529);
+    expect(response.headers.get('retry-after')).toBeNull();
+    expect(body.error.type).toBe('overloaded_error');
+  });
+});
+
+describe('Streaming Error Events', () => {
+  it('should emit an error event with a payload when upstream fails mid-stream', async () => {
+    const events = await collectEvents([
+      'data: {"choices":[{"index":0,"delta":{"content":"Hel"}}]}\n\n',
+      'data: {"error":{"code":429,"message":"Resource exhausted","status":"RESOURCE_EXHAUSTED"}}\n\n',
+      'data: {"choices":[{"index":0,"delta":{"content":"lo"}}]}\n\n'
+    ]);
+    
+    expect(events.map(event => event.type)).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'error'
+    ]);
+    expect(events[3].error).toEqual({ type: 'rate_limit_error', message: 'Resource exhausted' });
+  });
+  
+  it('should describe reader failures as api_error events', async () => {
+    const written: string[] = [];
+    const writer = {
+      write: async (chunk: Uint8Array) => { written.push(Buffer.from(chunk).toString('utf8')); },
+      close: async () => undefined
+    } as unknown as WritableStreamDefaultWriter<any>;
+    
+    await processGeminiStream(new Response(null), writer, originalRequest, openAIProvider.createStreamParser({ model: 'google/gemini-2.5-flash', messages: [] }));
+    
+    expect(written.join('')).toBe(
+      'event: error\ndata: {"type":"error","error":{"type":"api_error","message":"No response body to read"}}\n\n'
+    );
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Messages API fixtures for the APIs served on top of the Messages pipeline
+ */
+import { AnthropicResponse, AnthropicStreamChunk } from '../src/types';
+
+export const anthropicResponse = (overrides: Partial<AnthropicResponse> = {}): AnthropicResponse => ({
+  id: 'msg_123',
+  type: 'message',
+  role: 'assistant',
+  content: [{ type: 'text', text: 'Hello' }],
+  model: 'claude-3-haiku',
+  stop_reason: 'end_turn',
+  stop_sequence: null,
+  usage: { input_tokens: 10, output_tokens: 2 },
+  ...overrides
+});
+
+// Frames Messages stream events as the pipeline sends them
+export const sse = (events: AnthropicStreamChunk[]): string[] =>
+  events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+// Records each write as text
+export const collectWriter = (written: string[]): WritableStreamDefaultWriter<any> => ({
+  write: async (chunk: Uint8Array) => { written.push(Buffer.from(chunk).toString('utf8')); },
+  close: async () => undefined
+} as unknown as WritableStreamDefaultWriter<any>);
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, MockedFunction } from 'vitest';
 import { AnthropicRequest, GeminiResponse, Env } from '../src/types';
+import { createMockUpstream } from './mock-upstream';
 
 describe('Integration Tests', () => {
   const mockEnv: Env = {
@@ -176,7 +177,7 @@ describe('Integration Tests', () => {
     expect(responseData.role).toBe('assistant');
     expect(responseData.content).toHaveLength(1);
     expect(responseData.content[0].type).toBe('tool_use');
-    expect(responseData.content[0].tool_use_id).toBe('call_123');
+    expect(responseData.content[0].id).toBe('call_123');
     expect(responseData.content[0].name).toBe('calculator');
     expect(responseData.content[0].input).toEqual({
       operation: 'add',
@@ -186,6 +187,30 @@ describe('Integration Tests', () => {
     expect(responseData.stop_reason).toBe('tool_use');
   });
 
+  it('should force tool use for any and keep one call when parallel tool use is disabled', async () => {
+    const upstream = createMockUpstream({ toolCalls: [{ name: 'get_weather', args: { city: 'Paris' } }, { name: 'get_weather', args: { city: 'Rome' } }] });
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(upstream.fetch);
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: 'claude-3-haiku',
+        max_tokens: 100,
+        messages: [{ role: 'user', content: 'Weather in Paris and Rome?' }],
+        tools: [{ name: 'get_weather', description: 'Weather', input_schema: { type: 'object', properties: { city: { type: 'string' } } } }],
+        tool_choice: { type: 'any', disable_parallel_tool_use: true }
+      })
+    }), mockEnv, {} as ExecutionContext);
+    const responseData = await response.json() as any;
+    
+    expect(upstream.requests[0].body.tool_choice).toBe('required');
+    expect(responseData.content).toHaveLength(1);
+    expect(responseData.content[0]).toMatchObject({ type: 'tool_use', name: 'get_weather', input: { city: 'Paris' } });
+    expect(responseData.stop_reason).toBe('tool_use');
+  });
+
   it('should handle streaming responses', async () => {
     // Mock streaming response
     const streamData = [
@@ -276,12 +301,12 @@ describe('Integration Tests', () => {
 
     const response = await worker.fetch(request, mockEnv, {} as ExecutionContext);
     
-    expect(response.status).toBe(502);
+    expect(response.status).toBe(400);
     
     const responseData = await response.json() as any;
     expect(responseData.type).toBe('error');
-    expect(responseData.error.type).toBe('api_error');
-    expect(responseData.error.message).toContain('Gemini API error: 400');
+    expect(responseData.error.type).toBe('invalid_request_error');
+    expect(responseData.error.message).toBe('Invalid model specified');
   });
 
   it('should handle malformed JSON requests', async () => {
@@ -416,7 +441,7 @@ describe('Integration Tests', () => {
           content: [
             {
               type: 'tool_use',
-              tool_use_id: 'tool_123',
+              id: 'tool_123',
               name: 'calculator',
               input: { operation: 'add', a: 2, b: 3 }
             }
@@ -455,7 +480,259 @@ describe('Integration Tests', () => {
     const geminiRequestBody = JSON.parse(geminiRequestCall[1]?.body as string);
     
     expect(geminiRequestBody.messages).toHaveLength(3);
-    expect(geminiRequestBody.messages[1].content).toContain('[Tool Call: calculator({"operation":"add","a":2,"b":3})]');
-    expect(geminiRequestBody.messages[2].content).toContain('[Tool Result: 5]');
+    expect(geminiRequestBody.messages[1]).toEqual({
+      role: 'assistant',
+      content: null,
+      tool_calls: [
+        {
+          id: 'tool_123',
+          type: 'function',
+          function: { name: 'calculator', arguments: '{"operation":"add","a":2,"b":3}' }
+        }
+      ]
+    });
+    expect(geminiRequestBody.messages[2]).toEqual({
+      role: 'tool',
+      tool_call_id: 'tool_123',
+      content: '5'
+    });
+  });
+  
+  it('should accept a tool use response sent back as conversation history', async () => {
+    const upstream = createMockUpstream([
+      { toolCalls: [{ name: 'calculator', args: { a: 2, b: 3 } }], text: 'Let me add.' },
+      { text: 'It is 5.' }
+    ]);
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(upstream.fetch);
+    const worker = (await import('../src/worker')).default;
+    const send = (messages: AnthropicRequest['messages']): Promise<Response> => worker.fetch(new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: 'claude-3-sonnet',
+        max_tokens: 100,
+        messages,
+        tools: [{ name: 'calculator', description: 'Adds', input_schema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } } }]
+      })
+    }), mockEnv, {} as ExecutionContext);
+    
+    const question = { role: 'user' as const, content: 'What is 2 + 3?' };
+    const first = await (await send([question])).json() as any;
+    const toolUse = first.content.find((block: any) => block.type === 'tool_use');
+    
+    const second = await send([
+      question,
+      { role: 'assistant', content: first.content },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: toolUse.id, content: '5' }] }
+    ]);
+    
+    expect(second.status).toBe(200);
+    expect((await second.json() as any).content).toEqual([{ type: 'text', text: 'It is 5.' }]);
+    expect(upstream.requests[1].body.messages.slice(-1)).toEqual([{ role: 'tool', tool_call_id: toolUse.id, content: '5' }]);
+  });
+});
+describe('Count Tokens Endpoint', () => {
+  const mockEnv: Env = {
+    GEMINI_API_KEY: 'test-api-key'
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (global.fetch as MockedFunction<typeof fetch>).mockClear();
+  });
+
+  const countRequest = (body: unknown): Request => new Request('https://example.com/v1/messages/count_tokens', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': 'test-key',
+      'anthropic-version': '2023-06-01'
+    },
+    body: JSON.stringify(body)
+  });
+
+  it('should estimate input tokens locally without calling upstream', async () => {
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(countRequest({
+      model: 'claude-3-sonnet',
+      system: 'You are a helpful assistant.',
+      messages: [{ role: 'user', content: 'Hello!' }]
+    }), mockEnv, {} as ExecutionContext);
+    
+    expect(response.status).toBe(200);
+    const responseData = await response.json() as any;
+    expect(responseData.input_tokens).toBeGreaterThan(0);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should count tools as part of the converted payload', async () => {
+    const worker = (await import('../src/worker')).default;
+    const body = {
+      model: 'claude-3-sonnet',
+      messages: [{ role: 'user', content: 'What is 2 + 3?' }]
+    };
+    
+    const plain = await (await worker.fetch(countRequest(body), mockEnv, {} as ExecutionContext)).json() as any;
+    const withTools = await (await worker.fetch(countRequest({
+      ...body,
+      tools: [{
+        name: 'calculator',
+        description: 'Perform basic arithmetic operations',
+        input_schema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } }
+      }]
+    }), mockEnv, {} as ExecutionContext)).json() as any;
+    
+    expect(withTools.input_tokens).toBeGreaterThan(plain.input_tokens);
+  });
+
+  it('should use the upstream counter when configured', async () => {
+    (global.fetch as MockedFunction<typeof fetch>).mockResolvedValueOnce(
+      new Response(JSON.stringify({ totalTokens: 42 }), { status: 200 })
+    );
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(countRequest({
+      model: 'claude-3-opus',
+      messages: [{ role: 'user', content: 'Hello!' }]
+    }), { ...mockEnv, COUNT_TOKENS_API_URL: 'https://counter.example.com/count' }, {} as ExecutionContext);
+    
+    expect(await response.json()).toEqual({ input_tokens: 42 });
+    const [url, init] = (global.fetch as MockedFunction<typeof fetch>).mock.calls[0];
+    expect(url).toBe('https://counter.example.com/count');
+    expect(JSON.parse(init?.body as string).model).toBe('google/gemini-2.5-pro');
+  });
+
+  it('should fall back to the local estimate when the upstream counter fails', async () => {
+    (global.fetch as MockedFunction<typeof fetch>).mockResolvedValueOnce(
+      new Response('unavailable', { status: 503, statusText: 'Service Unavailable' })
+    );
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(countRequest({
+      model: 'claude-3-sonnet',
+      messages: [{ role: 'user', content: 'Hello!' }]
+    }), { ...mockEnv, COUNT_TOKENS_API_URL: 'https://counter.example.com/count' }, {} as ExecutionContext);
+    
+    expect(response.status).toBe(200);
+    expect((await response.json() as any).input_tokens).toBeGreaterThan(0);
+  });
+
+  it('should reject invalid count requests', async () => {
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(countRequest({ model: 'claude-3-sonnet' }), mockEnv, {} as ExecutionContext);
+    
+    expect(response.status).toBe(400);
+    expect((await response.json() as any).error.type).toBe('invalid_request_error');
+  });
+});
+
+describe('Models Endpoint', () => {
+  const mockEnv: Env = {
+    GEMINI_API_KEY: 'test-api-key'
+  };
+
+  it('should list models in Anthropic format', async () => {
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(new Request('https://example.com/v1/models?limit=2'), mockEnv, {} as ExecutionContext);
+    
+    expect(response.status).toBe(200);
+    const responseData = await response.json() as any;
+    expect(responseData.data).toHaveLength(2);
+    expect(responseData.has_more).toBe(true);
+    expect(responseData.data[0]).toMatchObject({
+      type: 'model',
+      id: expect.any(String),
+      display_name: expect.any(String),
+      created_at: expect.any(String),
+      upstream_model: expect.stringContaining('gemini')
+    });
+    expect(responseData.last_id).toBe(responseData.data[1].id);
+  });
+
+  it('should retrieve a single model', async () => {
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(new Request('https://example.com/v1/models/claude-3-haiku-20240307'), mockEnv, {} as ExecutionContext);
+    
+    expect(response.status).toBe(200);
+    const responseData = await response.json() as any;
+    expect(responseData.id).toBe('claude-3-haiku-20240307');
+    expect(responseData.upstream_model).toBe('google/gemini-2.5-flash-lite');
+  });
+
+  it('should return not_found_error for unknown models', async () => {
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(new Request('https://example.com/v1/models/gpt-4o'), mockEnv, {} as ExecutionContext);
+    
+    expect(response.status).toBe(404);
+    expect((await response.json() as any).error.type).toBe('not_found_error');
+  });
+
+  it('should reject an out of range limit', async () => {
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(new Request('https://example.com/v1/models?limit=0'), mockEnv, {} as ExecutionContext);
+    
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('Runtime Model Routing', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    (await import('../src/routing')).resetRoutingCache();
+  });
+
+  it('should route requests with the MODEL_ROUTES config', async () => {
+    (global.fetch as MockedFunction<typeof fetch>).mockResolvedValueOnce(
+      new Response(JSON.stringify({
+        id: 'resp_123',
+        object: 'chat.completion',
+        created: Date.now(),
+        model: 'google/gemini-2.5-pro',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }]
+      }), { status: 200 })
+    );
+    const worker = (await import('../src/worker')).default;
+    const env: Env = {
+      GEMINI_API_KEY: 'test-api-key',
+      MODEL_ROUTES: JSON.stringify({
+        default: 'google/gemini-2.5-flash',
+        rules: [{ match: 'claude-opus-4*', model: 'google/gemini-2.5-pro', max_tokens_cap: 2048 }]
+      })
+    };
+    
+    const response = await worker.fetch(new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({
+        model: 'claude-opus-4-20250514',
+        messages: [{ role: 'user', content: 'Hello!' }],
+        max_tokens: 8192
+      })
+    }), env, {} as ExecutionContext);
+    
+    expect(response.status).toBe(200);
+    const geminiRequestBody = JSON.parse((global.fetch as MockedFunction<typeof fetch>).mock.calls[0][1]?.body as string);
+    expect(geminiRequestBody.model).toBe('google/gemini-2.5-pro');
+    expect(geminiRequestBody.max_tokens).toBe(2048);
+  });
+
+  it('should reject requests with a clear error when the config is invalid', async () => {
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'claude-3-sonnet', messages: [{ role: 'user', content: 'Hello!' }] })
+    }), { GEMINI_API_KEY: 'test-api-key', MODEL_ROUTES: '{"default":"m","rules":{}}' }, {} as ExecutionContext);
+    
+    expect(response.status).toBe(500);
+    const responseData = await response.json() as any;
+    expect(responseData.error.type).toBe('configuration_error');
+    expect(responseData.error.message).toContain('MODEL_ROUTES: "rules" must be an array');
+    expect(global.fetch).not.toHaveBeenCalled();
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,308 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MCPError,
+  MCP_REQUEST_TIMEOUT_MS,
+  validateMCPServers,
+  connectMCPServer,
+  connectMCPServers,
+  closeMCPSession,
+  callMCPTool
+} from '../src/mcp';
+import { convertAnthropicMessage } from '../src/worker';
+import { resetRoutingCache } from '../src/routing';
+import { createToolNameMap } from '../src/tools';
+import { AnthropicMCPServer, Env } from '../src/types';
+import { createMockUpstream, MockUpstream } from './mock-upstream';
+import { createMockMCPServer, MockMCPServer, MockMCPTool } from './mock-mcp';
+
+const echoTool: MockMCPTool = {
+  name: 'echo',
+  description: 'Echoes its input',
+  inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  run: args => ({ content: [{ type: 'text', text: `echo: ${args.text}` }] })
+};
+
+const failingTool: MockMCPTool = {
+  name: 'explode',
+  run: () => ({ content: [{ type: 'text', text: 'boom' }], isError: true })
+};
+
+const server = (overrides: Partial<AnthropicMCPServer> = {}): AnthropicMCPServer => ({
+  type: 'url',
+  url: 'https://mcp.example/mcp',
+  name: 'tools',
+  ...overrides
+});
+
+// Sends MCP traffic to the stand-in servers and everything else upstream
+const routeFetch = (upstream: MockUpstream | null, ...servers: MockMCPServer[]): void => {
+  vi.mocked(global.fetch).mockImplementation(async (input, init) => {
+    const mcp = servers.find(candidate => candidate.handles(String(input)));
+    if (mcp) return mcp.fetch(input, init);
+    if (upstream) return upstream.fetch(input, init);
+    throw new TypeError('fetch failed');
+  });
+};
+
+describe('MCP Server Validation', () => {
+  it.each([
+    [{}, 'mcp_servers must be an array'],
+    [[{ type: 'stdio', url: 'https://mcp.example', name: 'a' }], 'mcp_servers[0].type must be "url"'],
+    [[{ type: 'url', url: 'mcp.example', name: 'a' }], 'mcp_servers[0].url must be an http(s) URL'],
+    [[{ type: 'url', url: 'https://mcp.example' }], 'mcp_servers[0].name must be a non-empty string'],
+    [[server(), server()], 'mcp_servers[1].name "tools" is used by more than one server'],
+    [[server({ tool_configuration: { allowed_tools: 'echo' as any } })], 'mcp_servers[0].tool_configuration.allowed_tools must be an array of tool names']
+  ])('should reject %j', (servers, message) => {
+    expect(validateMCPServers(servers)).toEqual({ success: false, error: message });
+  });
+  
+  it('should accept well-formed servers', () => {
+    expect(validateMCPServers([server({ authorization_token: 'secret', tool_configuration: { allowed_tools: ['echo'] } })])).toEqual({ success: true });
+  });
+});
+
+describe('MCP Client', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+  
+  it('should initialize over Streamable HTTP and list the allowed tools', async () => {
+    const mcp = createMockMCPServer({ url: 'https://mcp.example/mcp', tools: [echoTool, failingTool], token: 'secret' });
+    routeFetch(null, mcp);
+    
+    const connection = await connectMCPServer(server({ authorization_token: 'secret', tool_configuration: { allowed_tools: ['echo'] } }));
+    
+    expect(connection.tools.map(tool => tool.name)).toEqual(['echo']);
+    expect(mcp.messages.map(message => message.method)).toEqual(['initialize', 'notifications/initialized', 'tools/list']);
+    expect(await connection.callTool('echo', { text: 'hi' })).toEqual({ content: [{ type: 'text', text: 'echo: hi' }] });
+    
+    await connection.close();
+    expect(mcp.closed).toBe(true);
+  });
+  
+  it('should read replies framed as SSE', async () => {
+    routeFetch(null, createMockMCPServer({ url: 'https://mcp.example/mcp', tools: [echoTool], sseReplies: true }));
+    
+    const connection = await connectMCPServer(server());
+    expect(connection.tools.map(tool => tool.name)).toEqual(['echo']);
+  });
+  
+  it('should fall back to the HTTP+SSE transport', async () => {
+    const mcp = createMockMCPServer({ url: 'https://mcp.example/sse', tools: [echoTool], transport: 'sse' });
+    routeFetch(null, mcp);
+    
+    const connection = await connectMCPServer(server({ url: 'https://mcp.example/sse' }));
+    expect(await connection.callTool('echo', { text: 'over sse' })).toEqual({ content: [{ type: 'text', text: 'echo: over sse' }] });
+    
+    await connection.close();
+    expect(mcp.closed).toBe(true);
+  });
+  
+  it.each([
+    ['endpoint', 'SSE connection timed out after'],
+    ['replies', 'initialize timed out after']
+  ] as const)('should give up on an HTTP+SSE server that stalls before its %s', async (stall, message) => {
+    vi.useFakeTimers();
+    try {
+      const mcp = createMockMCPServer({ url: 'https://mcp.example/sse', tools: [echoTool], transport: 'sse', stall });
+      routeFetch(null, mcp);
+      
+      const connecting = connectMCPServer(server({ url: 'https://mcp.example/sse' }));
+      const failure = expect(connecting).rejects.toThrow(message);
+      await vi.advanceTimersByTimeAsync(MCP_REQUEST_TIMEOUT_MS);
+      await failure;
+      if (stall === 'replies') expect(mcp.closed).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+  
+  it('should name the server that could not be reached', async () => {
+    routeFetch(null, createMockMCPServer({ url: 'https://mcp.example/mcp', tools: [echoTool], token: 'secret' }));
+    
+    await expect(connectMCPServers([server()])).rejects.toThrow(MCPError);
+    await expect(connectMCPServers([server()])).rejects.toThrow('Failed to connect to MCP server "tools": initialize returned HTTP 401');
+  });
+  
+  it('should skip disabled servers and reject tools offered twice', async () => {
+    routeFetch(null, createMockMCPServer({ url: 'https://mcp.example/mcp', tools: [echoTool] }), createMockMCPServer({ url: 'https://other.example/mcp', tools: [echoTool] }));
+    
+    const session = await connectMCPServers([server(), server({ name: 'other', url: 'https://other.example/mcp', tool_configuration: { enabled: false } })]);
+    expect([...session.tools.keys()]).toEqual(['echo']);
+    await closeMCPSession(session);
+    
+    await expect(connectMCPServers([server(), server({ name: 'other', url: 'https://other.example/mcp' })]))
+      .rejects.toThrow('MCP tool "echo" is offered by both "tools" and "other"');
+  });
+  
+  it('should turn tool calls into mcp_tool_use and mcp_tool_result blocks', async () => {
+    routeFetch(null, createMockMCPServer({ url: 'https://mcp.example/mcp', tools: [echoTool, failingTool] }));
+    const session = await connectMCPServers([server()]);
+    
+    const [use, result] = await callMCPTool(session, { id: 'call_1', type: 'function', function: { name: 'echo', arguments: '{"text":"hi"}' } });
+    expect(use).toMatchObject({ type: 'mcp_tool_use', name: 'echo', server_name: 'tools', input: { text: 'hi' } });
+    expect(result).toEqual({ type: 'mcp_tool_result', tool_use_id: use.id, is_error: false, content: [{ type: 'text', text: 'echo: hi' }] });
+    
+    const [, failed] = await callMCPTool(session, { id: 'call_2', type: 'function', function: { name: 'explode', arguments: '{}' } });
+    expect(failed).toMatchObject({ is_error: true, content: [{ type: 'text', text: 'boom' }] });
+  });
+});
+
+describe('MCP History Conversion', () => {
+  it('should replay each MCP call as its own assistant and tool message', () => {
+    const messages = convertAnthropicMessage({
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        { type: 'mcp_tool_use', id: 'mcptoolu_1', name: 'echo', server_name: 'tools', input: { text: 'hi' } },
+        { type: 'mcp_tool_result', tool_use_id: 'mcptoolu_1', is_error: false, content: [{ type: 'text', text: 'echo: hi' }] },
+        { type: 'text', text: 'It said hi.' }
+      ]
+    }, 1);
+    
+    expect(messages).toEqual([
+      {
+        role: 'assistant',
+        content: 'Let me check.',
+        tool_calls: [{ id: 'mcptoolu_1', type: 'function', function: { name: 'echo', arguments: '{"text":"hi"}' } }]
+      },
+      { role: 'tool', tool_call_id: 'mcptoolu_1', content: 'echo: hi' },
+      { role: 'assistant', content: 'It said hi.' }
+    ]);
+  });
+});
+
+describe('MCP in the Worker', () => {
+  let env: Env;
+  
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRoutingCache();
+    env = { GEMINI_API_KEY: 'test-api-key', UPSTREAM_MAX_RETRIES: '0' };
+  });
+  
+  const sendMessage = async (body: Record<string, unknown>): Promise<Response> => {
+    const worker = (await import('../src/worker')).default;
+    const request = new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'anthropic-beta': 'mcp-client-2025-04-04' },
+      body: JSON.stringify({
+        model: 'claude-3-haiku',
+        messages: [{ role: 'user', content: 'Echo hi' }],
+        max_tokens: 100,
+        mcp_servers: [server()],
+        ...body
+      })
+    });
+    return worker.fetch(request, env, {} as ExecutionContext);
+  };
+  
+  it('should run MCP tool calls in the worker and return the whole exchange', async () => {
+    const upstream = createMockUpstream([
+      { toolCalls: [{ name: 'echo', args: { text: 'hi' } }], usage: { input: 20, output: 5 } },
+      { text: 'The server said hi.', usage: { input: 40, output: 8 } }
+    ]);
+    const mcp = createMockMCPServer({ url: 'https://mcp.example/mcp', tools: [echoTool] });
+    routeFetch(upstream, mcp);
+    
+    const response = await sendMessage({});
+    const body = await response.json() as any;
+    
+    expect(response.status).toBe(200);
+    expect(body.content.map((block: any) => block.type)).toEqual(['mcp_tool_use', 'mcp_tool_result', 'text']);
+    expect(body.content[1]).toMatchObject({ tool_use_id: body.content[0].id, content: [{ type: 'text', text: 'echo: hi' }] });
+    expect(body.content[2].text).toBe('The server said hi.');
+    expect(body.stop_reason).toBe('end_turn');
+    expect(body.usage).toEqual({ input_tokens: 60, output_tokens: 13 });
+    
+    expect(upstream.requests).toHaveLength(2);
+    expect(upstream.requests[0].body.tools[0].function).toMatchObject({ name: 'echo', description: 'Echoes its input' });
+    expect(upstream.requests[1].body.messages.slice(-2)).toEqual([
+      { role: 'assistant', content: null, tool_calls: [{ id: body.content[0].id, type: 'function', function: { name: 'echo', arguments: '{"text":"hi"}' } }] },
+      { role: 'tool', tool_call_id: body.content[0].id, content: 'echo: hi' }
+    ]);
+    expect(mcp.closed).toBe(true);
+  });
+  
+  it('should answer each MCP call under the id it was sent with on the Google native API', async () => {
+    env.MODEL_ROUTES = JSON.stringify({
+      default: 'google/gemini-2.5-pro',
+      rules: [{ match: '*', model: 'google/gemini-2.5-pro', provider: 'google' }]
+    });
+    const upstream = createMockUpstream([{ toolCalls: [{ name: 'echo', args: { text: 'hi' } }] }, { text: 'Done' }]);
+    const mcp = createMockMCPServer({ url: 'https://mcp.example/mcp', tools: [echoTool] });
+    routeFetch(upstream, mcp);
+    
+    const response = await sendMessage({});
+    
+    expect(response.status).toBe(200);
+    expect(upstream.requests[1].body.contents.slice(-2)).toEqual([
+      { role: 'model', parts: [{ functionCall: { name: 'echo', args: { text: 'hi' } } }] },
+      { role: 'user', parts: [{ functionResponse: { name: 'echo', response: { content: 'echo: hi' } } }] }
+    ]);
+  });
+  
+  it('should call MCP tools whose names Gemini would reject by their original name', async () => {
+    const dottedTool = { ...echoTool, name: 'text.echo' };
+    const upstreamName = createToolNameMap(['text.echo']).toUpstream('text.echo');
+    const upstream = createMockUpstream([{ toolCalls: [{ name: upstreamName, args: { text: 'hi' } }] }, { text: 'Done' }]);
+    const mcp = createMockMCPServer({ url: 'https://mcp.example/mcp', tools: [dottedTool] });
+    routeFetch(upstream, mcp);
+    
+    const response = await sendMessage({});
+    const body = await response.json() as any;
+    
+    expect(upstream.requests[0].body.tools[0].function.name).toBe(upstreamName);
+    expect(mcp.messages.find(message => message.method === 'tools/call')?.params).toMatchObject({ name: 'text.echo' });
+    expect(body.content[0]).toMatchObject({ type: 'mcp_tool_use', name: 'text.echo' });
+  });
+  
+  it('should replay the finished exchange as a stream', async () => {
+    const upstream = createMockUpstream([{ toolCalls: [{ name: 'echo', args: { text: 'hi' } }] }, { text: 'Done' }]);
+    routeFetch(upstream, createMockMCPServer({ url: 'https://mcp.example/mcp', tools: [echoTool] }));
+    
+    const response = await sendMessage({ stream: true });
+    const text = await response.text();
+    const events = text.trim().split('\n\n').map(block => JSON.parse(block.split('\n')[1].slice(6)));
+    
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(upstream.requests.every(request => !request.body.stream)).toBe(true);
+    expect(events.map(event => event.type)).toEqual([
+      'message_start',
+      'content_block_start', 'content_block_delta', 'content_block_stop',
+      'content_block_start', 'content_block_stop',
+      'content_block_start', 'content_block_delta', 'content_block_stop',
+      'message_delta',
+      'message_stop'
+    ]);
+    expect(events[1].content_block).toMatchObject({ type: 'mcp_tool_use', name: 'echo', input: {} });
+    expect(events[2].delta).toEqual({ type: 'input_json_delta', partial_json: '{"text":"hi"}' });
+    expect(events[4].content_block.type).toBe('mcp_tool_result');
+  });
+  
+  it('should hand client tool calls back alongside MCP results', async () => {
+    const upstream = createMockUpstream({ toolCalls: [{ name: 'echo', args: { text: 'hi' } }, { name: 'get_weather', args: { city: 'Paris' } }] });
+    routeFetch(upstream, createMockMCPServer({ url: 'https://mcp.example/mcp', tools: [echoTool] }));
+    
+    const response = await sendMessage({
+      tools: [{ name: 'get_weather', description: 'Weather', input_schema: { type: 'object', properties: { city: { type: 'string' } } } }]
+    });
+    const body = await response.json() as any;
+    
+    expect(body.content.map((block: any) => block.type)).toEqual(['mcp_tool_use', 'mcp_tool_result', 'tool_use']);
+    expect(body.content[2].name).toBe('get_weather');
+    expect(body.stop_reason).toBe('tool_use');
+    expect(upstream.requests).toHaveLength(1);
+  });
+  
+  it('should reject requests whose MCP server is unreachable', async () => {
+    routeFetch(null);
+    
+    const response = await sendMessage({});
+    const body = await response.json() as any;
+    
+    expect(response.status).toBe(400);
+    expect(body.error).toEqual({ type: 'invalid_request_error', message: 'Failed to connect to MCP server "tools": fetch failed' });
+    expect(vi.mocked(global.fetch).mock.calls.map(([input]) => String(input))).toEqual(['https://mcp.example/mcp']);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Local stand-in for a remote MCP server
+ * Speaks Streamable HTTP (JSON or SSE-framed replies) or the older HTTP+SSE transport
+ */
+import { JsonRpcMessage, MCPToolResult } from '../src/types';
+
+export interface MockMCPTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, any>;
+  run: (args: Record<string, any>) => MCPToolResult;
+}
+
+export interface MockMCPServerOptions {
+  url: string;
+  tools: MockMCPTool[];
+  transport?: 'streamable-http' | 'sse';
+  // Streamable HTTP only: frame replies as a one-event SSE stream
+  sseReplies?: boolean;
+  // HTTP+SSE only: never name the message endpoint, or accept requests and never answer them
+  stall?: 'endpoint' | 'replies';
+  token?: string;
+}
+
+export interface MockMCPServer {
+  fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+  handles: (url: string) => boolean;
+  // Every JSON-RPC message the server received, in order
+  messages: JsonRpcMessage[];
+  closed: boolean;
+}
+
+const SESSION_ID = 'mock-session';
+
+// A body whose reader waits for events pushed after the GET has returned
+function createEventStream(): { body: ReadableStream; push: (event: string, data: string) => void; isClosed: () => boolean } {
+  const encoder = new TextEncoder();
+  const queue: Uint8Array[] = [];
+  let waiting: (() => void) | null = null;
+  let closed = false;
+  
+  const body = {
+    getReader: () => ({
+      read: async () => {
+        while (queue.length === 0 && !closed) {
+          await new Promise<void>(resolve => { waiting = resolve; });
+        }
+        return queue.length > 0 ? { done: false, value: queue.shift() } : { done: true, value: undefined };
+      },
+      releaseLock: () => undefined,
+      cancel: async () => {
+        closed = true;
+        waiting?.();
+      }
+    })
+  } as unknown as ReadableStream;
+  
+  return {
+    body,
+    push: (event, data) => {
+      queue.push(encoder.encode(`event: ${event}\ndata: ${data}\n\n`));
+      waiting?.();
+    },
+    isClosed: () => closed
+  };
+}
+
+export function createMockMCPServer(options: MockMCPServerOptions): MockMCPServer {
+  const transport = options.transport || 'streamable-http';
+  const messages: JsonRpcMessage[] = [];
+  let stream: ReturnType<typeof createEventStream> | null = null;
+  let deleted = false;
+  
+  const answer = (message: JsonRpcMessage): JsonRpcMessage | null => {
+    messages.push(message);
+    if (message.id === undefined) return null;
+    
+    switch (message.method) {
+      case 'initialize':
+        return {
+          jsonrpc: '2.0',
+          id: message.id,
+          result: { protocolVersion: '2025-03-26', capabilities: { tools: {} }, serverInfo: { name: 'mock', version: '1.0.0' } }
+        };
+      case 'tools/list':
+        return {
+          jsonrpc: '2.0',
+          id: message.id,
+          result: {
+            tools: options.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              inputSchema: tool.inputSchema || { type: 'object', properties: {} }
+            }))
+          }
+        };
+      case 'tools/call': {
+        const tool = options.tools.find(candidate => candidate.name === message.params?.name);
+        if (!tool) {
+          return { jsonrpc: '2.0', id: message.id, error: { code: -32602, message: `Unknown tool: ${message.params?.name}` } };
+        }
+        return { jsonrpc: '2.0', id: message.id, result: tool.run((message.params?.arguments || {}) as Record<string, any>) };
+      }
+      default:
+        return { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } };
+    }
+  };
+  
+  const mockFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = String(input);
+    const method = init?.method || 'GET';
+    const headers = (init?.headers || {}) as Record<string, string>;
+    
+    if (options.token && headers.Authorization !== `Bearer ${options.token}`) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+    
+    if (transport === 'sse') {
+      if (url === options.url && method === 'GET') {
+        stream = createEventStream();
+        if (options.stall !== 'endpoint') stream.push('endpoint', '/messages?session=mock');
+        return new Response(stream.body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+      }
+      if (url.endsWith('/messages?session=mock') && method === 'POST' && stream) {
+        const reply = answer(JSON.parse(init!.body as string));
+        if (reply && options.stall !== 'replies') stream.push('message', JSON.stringify(reply));
+        return new Response('Accepted', { status: 202 });
+      }
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+    
+    if (method === 'DELETE') {
+      deleted = headers['Mcp-Session-Id'] === SESSION_ID;
+      return new Response(null, { status: 200 });
+    }
+    
+    const message = JSON.parse(init!.body as string) as JsonRpcMessage;
+    if (message.method !== 'initialize' && headers['Mcp-Session-Id'] !== SESSION_ID) {
+      return new Response('Missing session', { status: 400 });
+    }
+    
+    const reply = answer(message);
+    if (!reply) {
+      return new Response(null, { status: 202 });
+    }
+    
+    const replyHeaders = { 'Mcp-Session-Id': SESSION_ID };
+    if (options.sseReplies) {
+      return new Response(`event: message\ndata: ${JSON.stringify(reply)}\n\n`, {
+        status: 200,
+        headers: { ...replyHeaders, 'Content-Type': 'text/event-stream' }
+      });
+    }
+    return new Response(JSON.stringify(reply), { status: 200, headers: { ...replyHeaders, 'Content-Type': 'application/json' } });
+  };
+  
+  return {
+    fetch: mockFetch,
+    handles: (url: string) => url.startsWith(new URL(options.url).origin),
+    messages,
+    get closed(): boolean {
+      return transport === 'sse' ? Boolean(stream?.isClosed()) : deleted;
+    }
+  };
+}
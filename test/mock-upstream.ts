@@ -0,0 +1,204 @@
+/**
+ * Local stand-in for the upstream APIs
+ * Answers OpenAI-compatible and Google native requests with the same scripted reply
+ */
+
+export interface MockReply {
+  text?: string;
+  // Sent as reasoning_content, or as thought parts by the Google native API
+  reasoning?: string;
+  toolCalls?: { name: string; args: Record<string, any> }[];
+  usage?: { input: number; output: number };
+  // Part of usage.input served from a cached content (Google native API only)
+  cachedTokens?: number;
+  status?: number;
+  errorBody?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface RecordedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+export interface MockUpstream {
+  fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+  requests: RecordedRequest[];
+}
+
+// The test setup's Response mock keeps the body object as-is, so a bare reader is enough
+export function createChunkedBody(chunks: string[]): ReadableStream {
+  const encoder = new TextEncoder();
+  let position = 0;
+  
+  return {
+    getReader: () => ({
+      read: async () => position < chunks.length
+        ? { done: false, value: encoder.encode(chunks[position++]) }
+        : { done: true, value: undefined },
+      releaseLock: () => undefined,
+      cancel: async () => undefined
+    })
+  } as unknown as ReadableStream;
+}
+
+function openAIResponse(reply: MockReply, model: string): unknown {
+  return {
+    id: 'chatcmpl_mock',
+    object: 'chat.completion',
+    created: 1700000000,
+    model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: reply.text ?? null,
+        reasoning_content: reply.reasoning,
+        tool_calls: reply.toolCalls?.map((call, index) => ({
+          id: `call_mock_${index}`,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.args) }
+        }))
+      },
+      finish_reason: reply.toolCalls?.length ? 'tool_calls' : 'stop'
+    }],
+    usage: reply.usage && {
+      prompt_tokens: reply.usage.input,
+      completion_tokens: reply.usage.output,
+      total_tokens: reply.usage.input + reply.usage.output
+    }
+  };
+}
+
+function openAIStream(reply: MockReply, model: string): string[] {
+  const chunk = (choice: unknown, usage?: unknown): string => `data: ${JSON.stringify({
+    id: 'chatcmpl_mock',
+    object: 'chat.completion.chunk',
+    created: 1700000000,
+    model,
+    choices: choice ? [choice] : [],
+    usage
+  })}\n\n`;
+  
+  const events: string[] = [];
+  if (reply.reasoning) {
+    events.push(chunk({ index: 0, delta: { reasoning_content: reply.reasoning } }));
+  }
+  const words = (reply.text || '').split(/(?= )/).filter(Boolean);
+  words.forEach(word => events.push(chunk({ index: 0, delta: { content: word } })));
+  reply.toolCalls?.forEach((call, index) => {
+    events.push(chunk({ index: 0, delta: { tool_calls: [{ index, id: `call_mock_${index}`, type: 'function', function: { name: call.name, arguments: '' } }] } }));
+    events.push(chunk({ index: 0, delta: { tool_calls: [{ index, function: { arguments: JSON.stringify(call.args) } }] } }));
+  });
+  events.push(chunk({ index: 0, delta: {}, finish_reason: reply.toolCalls?.length ? 'tool_calls' : 'stop' }));
+  if (reply.usage) {
+    events.push(chunk(null, { prompt_tokens: reply.usage.input, completion_tokens: reply.usage.output, total_tokens: reply.usage.input + reply.usage.output }));
+  }
+  events.push('data: [DONE]\n\n');
+  
+  return events;
+}
+
+function googleParts(reply: MockReply): unknown[] {
+  const parts: unknown[] = [];
+  if (reply.reasoning) parts.push({ text: reply.reasoning, thought: true });
+  if (reply.text) parts.push({ text: reply.text });
+  reply.toolCalls?.forEach(call => parts.push({ functionCall: { name: call.name, args: call.args } }));
+  return parts;
+}
+
+function googleUsage(reply: MockReply): unknown {
+  return reply.usage && {
+    promptTokenCount: reply.usage.input,
+    cachedContentTokenCount: reply.cachedTokens,
+    candidatesTokenCount: reply.usage.output,
+    totalTokenCount: reply.usage.input + reply.usage.output
+  };
+}
+
+function googleResponse(reply: MockReply): unknown {
+  return {
+    candidates: [{ content: { role: 'model', parts: googleParts(reply) }, finishReason: 'STOP', index: 0 }],
+    usageMetadata: googleUsage(reply),
+    modelVersion: 'gemini-mock',
+    responseId: 'google_mock'
+  };
+}
+
+function googleStream(reply: MockReply): string[] {
+  const events: string[] = [];
+  if (reply.reasoning) {
+    events.push(`data: ${JSON.stringify({
+      candidates: [{ content: { role: 'model', parts: [{ text: reply.reasoning, thought: true }] }, index: 0 }],
+      modelVersion: 'gemini-mock'
+    })}\r\n\r\n`);
+  }
+  const words = (reply.text || '').split(/(?= )/).filter(Boolean);
+  words.forEach(word => events.push(`data: ${JSON.stringify({
+    candidates: [{ content: { role: 'model', parts: [{ text: word }] }, index: 0 }],
+    modelVersion: 'gemini-mock'
+  })}\r\n\r\n`));
+  events.push(`data: ${JSON.stringify({
+    candidates: [{
+      content: { role: 'model', parts: googleParts({ toolCalls: reply.toolCalls }) },
+      finishReason: 'STOP',
+      index: 0
+    }],
+    usageMetadata: googleUsage(reply),
+    modelVersion: 'gemini-mock'
+  })}\r\n\r\n`);
+  
+  return events;
+}
+
+export function createMockUpstream(replies: MockReply | MockReply[]): MockUpstream {
+  const queue = Array.isArray(replies) ? [...replies] : [replies];
+  const requests: RecordedRequest[] = [];
+  
+  const mockFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = String(input);
+    const body = init?.body ? JSON.parse(init.body as string) : undefined;
+    requests.push({ url, headers: (init?.headers || {}) as Record<string, string>, body });
+    
+    const reply = queue.length > 1 ? queue.shift()! : queue[0];
+    
+    if (reply.status && reply.status >= 400) {
+      return new Response(JSON.stringify(reply.errorBody ?? { error: { message: 'mock failure' } }), {
+        status: reply.status,
+        statusText: 'Mock Error',
+        headers: { 'Content-Type': 'application/json', ...reply.headers }
+      });
+    }
+    
+    // cachedContents create and ttl update; the cache holds the prefix's prompt tokens
+    if (url.includes('/cachedContents')) {
+      const ttlSeconds = parseInt(body?.ttl || '300', 10);
+      return new Response(JSON.stringify({
+        name: url.match(/cachedContents\/[^?]+/)?.[0] || 'cachedContents/mock',
+        expireTime: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+        usageMetadata: { totalTokenCount: reply.cachedTokens ?? 0 }
+      }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    }
+    
+    if (url.includes(':countTokens')) {
+      return new Response(JSON.stringify({ totalTokens: reply.usage?.input ?? 0 }), { status: 200 });
+    }
+    
+    if (url.includes(':streamGenerateContent')) {
+      return new Response(createChunkedBody(googleStream(reply)), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    }
+    
+    if (url.includes(':generateContent')) {
+      return new Response(JSON.stringify(googleResponse(reply)), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    }
+    
+    if (body?.stream) {
+      return new Response(createChunkedBody(openAIStream(reply, body.model)), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    }
+    
+    return new Response(JSON.stringify(openAIResponse(reply, body?.model)), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  };
+  
+  return { fetch: mockFetch, requests };
+}
@@ -0,0 +1,308 @@
+import { describe, it, expect, beforeEach, vi, MockedFunction } from 'vitest';
+import {
+  convertOpenAIToAnthropic,
+  convertAnthropicToOpenAI,
+  createOpenAIStreamState,
+  createOpenAIStreamTranslator
+} from '../src/openai';
+import { pipeAnthropicStream } from '../src/worker';
+import { resetAuthCache } from '../src/auth';
+import { resetRoutingCache } from '../src/routing';
+import { resetUsageStore } from '../src/usage';
+import { Env, OpenAIChatRequest } from '../src/types';
+import { createChunkedBody, createMockUpstream } from './mock-upstream';
+import { anthropicResponse, collectWriter, sse } from './fixtures';
+
+describe('Chat Completions Request Conversion', () => {
+  it('should convert messages, tools and sampling options into a Messages request', () => {
+    const request: OpenAIChatRequest = {
+      model: 'claude-3-haiku',
+      max_completion_tokens: 200,
+      temperature: 0.2,
+      stop: 'END',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'developer', content: 'Use metric units.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } }
+          ]
+        },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"cat"}' } }]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'A cat' },
+        { role: 'user', content: 'Thanks' }
+      ],
+      tools: [{ type: 'function', function: { name: 'lookup', parameters: { type: 'object', properties: { q: { type: 'string' } } } } }],
+      tool_choice: 'required',
+      parallel_tool_calls: false
+    };
+    
+    expect(convertOpenAIToAnthropic(request)).toEqual({
+      success: true,
+      data: {
+        model: 'claude-3-haiku',
+        max_tokens: 200,
+        temperature: 0.2,
+        top_p: undefined,
+        stream: undefined,
+        system: 'Be brief.\n\nUse metric units.',
+        stop_sequences: ['END'],
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+              { type: 'image', source: { type: 'url', url: 'https://example.com/cat.png' } }
+            ]
+          },
+          { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'lookup', input: { q: 'cat' } }] },
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'call_1', content: 'A cat' },
+              { type: 'text', text: 'Thanks' }
+            ]
+          }
+        ],
+        tools: [{ name: 'lookup', description: '', input_schema: { type: 'object', properties: { q: { type: 'string' } } } }],
+        tool_choice: { type: 'any', disable_parallel_tool_use: true }
+      }
+    });
+  });
+  
+  it.each([
+    ['auto', { type: 'auto' }],
+    ['none', { type: 'none' }],
+    [{ type: 'function', function: { name: 'lookup' } }, { type: 'tool', name: 'lookup' }]
+  ] as const)('should map tool_choice %j', (toolChoice, expected) => {
+    const result = convertOpenAIToAnthropic({ model: 'm', messages: [{ role: 'user', content: 'Hi' }], tool_choice: toolChoice });
+    expect(result.data?.tool_choice).toEqual(expected);
+  });
+  
+  it('should default max_tokens when the client leaves it out', () => {
+    expect(convertOpenAIToAnthropic({ model: 'm', messages: [{ role: 'user', content: 'Hi' }] }).data?.max_tokens).toBe(4096);
+    expect(convertOpenAIToAnthropic({ model: 'm', max_tokens: 64, messages: [{ role: 'user', content: 'Hi' }] }).data?.max_tokens).toBe(64);
+  });
+  
+  it('should drop null options and cap temperature at 1', () => {
+    const result = convertOpenAIToAnthropic({
+      model: 'm',
+      messages: [{ role: 'user', content: 'Hi' }],
+      temperature: 1.2,
+      top_p: null,
+      max_tokens: null,
+      n: null,
+      stop: null,
+      stream: null,
+      tool_choice: null
+    });
+    
+    expect(result.data).toEqual({
+      model: 'm',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      max_tokens: 4096,
+      temperature: 1,
+      top_p: undefined,
+      stream: undefined
+    });
+    expect(convertOpenAIToAnthropic({ model: 'm', messages: [{ role: 'user', content: 'Hi' }], temperature: 0.7 }).data?.temperature).toBe(0.7);
+  });
+  
+  it.each([
+    ['missing messages', { model: 'm' }, 'messages must be an array'],
+    ['several choices', { model: 'm', n: 2, messages: [] }, 'n: only a single choice is supported'],
+    [
+      'audio input',
+      { model: 'm', messages: [{ role: 'user', content: [{ type: 'input_audio', input_audio: { data: '', format: 'wav' } }] }] },
+      'messages[0].content: "input_audio" parts are not supported'
+    ],
+    ['a tool message without tool_call_id', { model: 'm', messages: [{ role: 'tool', content: 'x' }] }, 'messages[0].tool_call_id is required for tool messages']
+  ])('should reject %s', (_name, request, error) => {
+    expect(convertOpenAIToAnthropic(request as OpenAIChatRequest)).toEqual({ success: false, error });
+  });
+});
+
+describe('Chat Completions Response Conversion', () => {
+  it('should convert text, thinking and tool use into a chat completion', () => {
+    const completion = convertAnthropicToOpenAI(anthropicResponse({
+      content: [
+        { type: 'thinking', thinking: 'Look it up', signature: '' },
+        { type: 'text', text: 'Checking.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'cat' } }
+      ],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 10, output_tokens: 5, cache_creation_input_tokens: 0, cache_read_input_tokens: 1500 }
+    }), 'gpt-alias');
+    
+    expect(completion).toMatchObject({
+      id: 'chatcmpl-123',
+      object: 'chat.completion',
+      model: 'gpt-alias',
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: 'Checking.',
+          reasoning_content: 'Look it up',
+          tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"cat"}' } }]
+        },
+        finish_reason: 'tool_calls'
+      }],
+      usage: { prompt_tokens: 1510, completion_tokens: 5, total_tokens: 1515, prompt_tokens_details: { cached_tokens: 1500 } }
+    });
+  });
+  
+  it.each([
+    ['end_turn', 'stop'],
+    ['stop_sequence', 'stop'],
+    ['max_tokens', 'length']
+  ] as const)('should map stop_reason %s to finish_reason %s', (stopReason, finishReason) => {
+    expect(convertAnthropicToOpenAI(anthropicResponse({ stop_reason: stopReason })).choices[0].finish_reason).toBe(finishReason);
+  });
+});
+
+describe('Chat Completions Streaming', () => {
+  it('should rewrite Messages stream events as chunks ending in [DONE]', async () => {
+    const written: string[] = [];
+    const body = createChunkedBody(sse([
+      { type: 'message_start', message: { ...anthropicResponse(), content: [], stop_reason: null, usage: { input_tokens: 10, output_tokens: 0 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: {} } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"q":"cat"}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { input_tokens: 10, output_tokens: 7 } },
+      { type: 'message_stop' }
+    ]));
+    
+    await pipeAnthropicStream(body, collectWriter(written), createOpenAIStreamTranslator(createOpenAIStreamState('claude-3-haiku', true)));
+    
+    expect(written[written.length - 1]).toBe('data: [DONE]\n\n');
+    const chunks = written.slice(0, -1).map(line => JSON.parse(line.slice('data: '.length)));
+    expect(chunks.map(chunk => chunk.choices[0]?.delta)).toEqual([
+      { role: 'assistant', content: '' },
+      { content: 'Hi' },
+      { tool_calls: [{ index: 0, id: 'toolu_1', type: 'function', function: { name: 'lookup', arguments: '' } }] },
+      { tool_calls: [{ index: 0, function: { arguments: '{"q":"cat"}' } }] },
+      {},
+      undefined
+    ]);
+    expect(chunks[4].choices[0].finish_reason).toBe('tool_calls');
+    expect(chunks[5]).toMatchObject({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 7, total_tokens: 17 } });
+    expect(new Set(chunks.map(chunk => chunk.id)).size).toBe(1);
+  });
+  
+  it('should leave out the usage chunk unless include_usage is set', async () => {
+    const written: string[] = [];
+    const body = createChunkedBody(sse([
+      { type: 'message_delta', delta: { stop_reason: 'end_turn', stop_sequence: null }, usage: { output_tokens: 1 } },
+      { type: 'message_stop' }
+    ]));
+    
+    await pipeAnthropicStream(body, collectWriter(written), createOpenAIStreamTranslator(createOpenAIStreamState('m')));
+    
+    expect(written).toHaveLength(2);
+    expect(written[1]).toBe('data: [DONE]\n\n');
+  });
+  
+  it('should end with an error object when the stream fails', async () => {
+    const written: string[] = [];
+    const body = createChunkedBody(sse([
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }
+    ]));
+    
+    await pipeAnthropicStream(body, collectWriter(written), createOpenAIStreamTranslator(createOpenAIStreamState('m')));
+    
+    expect(written).toEqual(['data: {"error":{"message":"Overloaded","type":"overloaded_error"}}\n\n']);
+  });
+});
+
+describe('Chat Completions Endpoint', () => {
+  let env: Env;
+  
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetAuthCache();
+    resetRoutingCache();
+    resetUsageStore();
+    env = { GEMINI_API_KEY: 'test-api-key' };
+  });
+  
+  const call = async (body: unknown, method = 'POST'): Promise<Response> => {
+    const worker = (await import('../src/worker')).default;
+    return worker.fetch(new Request('https://example.com/v1/chat/completions', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }), env, {} as ExecutionContext);
+  };
+  
+  it('should serve a chat completion through the Messages pipeline', async () => {
+    const upstream = createMockUpstream({ toolCalls: [{ name: 'lookup', args: { q: 'cat' } }], usage: { input: 12, output: 3 } });
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(upstream.fetch);
+    
+    const response = await call({
+      model: 'claude-3-haiku',
+      messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Find a cat' }],
+      tools: [{ type: 'function', function: { name: 'lookup', parameters: { type: 'object', properties: { q: { type: 'string' } } } } }]
+    });
+    
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-upstream-model')).toBe('google/gemini-2.5-flash-lite');
+    const completion = await response.json() as any;
+    expect(completion).toMatchObject({
+      object: 'chat.completion',
+      model: 'claude-3-haiku',
+      choices: [{
+        message: { role: 'assistant', content: null, tool_calls: [{ id: 'call_mock_0', type: 'function', function: { name: 'lookup', arguments: '{"q":"cat"}' } }] },
+        finish_reason: 'tool_calls'
+      }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 }
+    });
+    expect(upstream.requests[0].body.messages[0]).toEqual({ role: 'system', content: 'Be brief.' });
+  });
+  
+  it('should accept OpenAI sampling values and null options that Messages validation would reject', async () => {
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(createMockUpstream({ text: 'Hi' }).fetch);
+    
+    const response = await call({
+      model: 'claude-3-haiku',
+      messages: [{ role: 'user', content: 'Hi' }],
+      temperature: 1.2,
+      top_p: null,
+      max_tokens: null,
+      stream: null
+    });
+    
+    expect(response.status).toBe(200);
+    expect((await response.json() as any).choices[0].message.content).toBe('Hi');
+  });
+  
+  it('should return request errors in the error envelope', async () => {
+    const response = await call({ model: 'claude-3-haiku', n: 3, messages: [{ role: 'user', content: 'Hi' }] });
+    
+    expect(response.status).toBe(400);
+    expect((await response.json() as any).error).toEqual({ type: 'invalid_request_error', message: 'n: only a single choice is supported' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+  
+  it('should pass validation errors from the Messages pipeline through', async () => {
+    const response = await call({ model: 'claude-3-haiku', messages: [] });
+    
+    expect(response.status).toBe(400);
+    expect((await response.json() as any).error.message).toBe('Messages array cannot be empty');
+  });
+  
+  it('should only accept POST', async () => {
+    expect((await call(undefined, 'GET')).status).toBe(405);
+  });
+});
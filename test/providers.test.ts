@@ -0,0 +1,287 @@
+import { describe, it, expect, vi, beforeEach, MockedFunction } from 'vitest';
+import { getProvider, openAIProvider, googleProvider } from '../src/providers';
+import { buildGenerateContentRequest } from '../src/providers/google';
+import { resetRoutingCache } from '../src/routing';
+import { processGeminiStream } from '../src/worker';
+import { AnthropicRequest, AnthropicStreamChunk, Env, GeminiRequest, UpstreamProvider } from '../src/types';
+import { createMockUpstream } from './mock-upstream';
+
+const env: Env = { GEMINI_API_KEY: 'test-api-key' };
+
+const geminiRequest: GeminiRequest = {
+  model: 'google/gemini-2.5-pro',
+  messages: [
+    { role: 'system', content: 'You are terse.' },
+    { role: 'user', content: 'Weather in Paris?' },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+    },
+    { role: 'tool', tool_call_id: 'toolu_1', content: '18C and sunny' },
+    {
+      role: 'user',
+      content: [
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw==' } },
+        { type: 'text', text: 'And this photo?' }
+      ]
+    }
+  ],
+  max_tokens: 256,
+  temperature: 0.2,
+  stop: ['END'],
+  tools: [{
+    type: 'function',
+    function: {
+      name: 'get_weather',
+      description: 'Current weather',
+      parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+    }
+  }],
+  tool_choice: { type: 'function', function: { name: 'get_weather' } }
+};
+
+const collectStream = async (response: Response, provider: UpstreamProvider, request: GeminiRequest): Promise<AnthropicStreamChunk[]> => {
+  const written: string[] = [];
+  const writer = {
+    write: async (chunk: Uint8Array) => { written.push(Buffer.from(chunk).toString('utf8')); },
+    close: async () => undefined
+  } as unknown as WritableStreamDefaultWriter<any>;
+  const originalRequest: AnthropicRequest = { model: 'claude-3-opus', messages: [{ role: 'user', content: 'Hi' }] };
+  
+  await processGeminiStream(response, writer, originalRequest, provider.createStreamParser(request));
+  
+  return written.join('')
+    .split('\n\n')
+    .filter(Boolean)
+    .map(event => JSON.parse(event.split('\n')[1].slice('data: '.length)));
+};
+
+describe('Provider Registry', () => {
+  it('should look up providers by name', () => {
+    expect(getProvider('openai')).toBe(openAIProvider);
+    expect(getProvider('google')).toBe(googleProvider);
+  });
+});
+
+describe('OpenAI-Compatible Provider', () => {
+  it('should post the internal request unchanged', () => {
+    const upstreamRequest = openAIProvider.buildRequest(geminiRequest, env);
+    
+    expect(upstreamRequest.url).toBe('https://api.aimlapi.com/v1/chat/completions');
+    expect(upstreamRequest.init.headers).toEqual({
+      'Authorization': 'Bearer test-api-key',
+      'Content-Type': 'application/json'
+    });
+    expect(JSON.parse(upstreamRequest.init.body as string)).toEqual(geminiRequest);
+  });
+  
+  it('should send a thinking budget as reasoning_effort', () => {
+    const bodyFor = (thinkingBudget: number): any => JSON.parse(openAIProvider.buildRequest({ ...geminiRequest, thinking_budget: thinkingBudget }, env).init.body as string);
+    
+    expect(bodyFor(1024).reasoning_effort).toBe('low');
+    expect(bodyFor(4000).reasoning_effort).toBe('medium');
+    expect(bodyFor(16000).reasoning_effort).toBe('high');
+    expect(bodyFor(16000).thinking_budget).toBeUndefined();
+  });
+  
+  it('should not send cache breakpoints', () => {
+    const upstreamRequest = openAIProvider.buildRequest({ ...geminiRequest, cache_breakpoints: [{ messageCount: 1, ttl: '5m' }] }, env);
+    
+    expect(JSON.parse(upstreamRequest.init.body as string)).toEqual(geminiRequest);
+  });
+  
+  it('should stream reasoning_content as a thinking block', async () => {
+    const upstream = createMockUpstream({ reasoning: 'Let me think.', text: 'Done' });
+    const request = { ...geminiRequest, stream: true };
+    const upstreamRequest = openAIProvider.buildRequest(request, env);
+    
+    const events = await collectStream(await upstream.fetch(upstreamRequest.url, upstreamRequest.init), openAIProvider, request);
+    
+    expect(events.filter(event => event.type === 'content_block_start').map(event => event.content_block)).toEqual([
+      { type: 'thinking', thinking: '', signature: '' },
+      { type: 'text', text: '' }
+    ]);
+    expect(events[2]).toEqual({ type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Let me think.' } });
+  });
+  
+  it('should honor a GEMINI_API_BASE override', () => {
+    expect(openAIProvider.buildRequest(geminiRequest, { ...env, GEMINI_API_BASE: 'http://localhost:8787/v1/chat/completions' }).url)
+      .toBe('http://localhost:8787/v1/chat/completions');
+  });
+  
+  it('should stream through the mock server', async () => {
+    const upstream = createMockUpstream({ text: 'Hello there', usage: { input: 9, output: 2 } });
+    const request = { ...geminiRequest, stream: true };
+    const upstreamRequest = openAIProvider.buildRequest(request, env);
+    
+    const events = await collectStream(await upstream.fetch(upstreamRequest.url, upstreamRequest.init), openAIProvider, request);
+    
+    expect(events.map(event => event.type)).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop'
+    ]);
+    expect(events[5].usage).toEqual({ input_tokens: 9, output_tokens: 2 });
+  });
+});
+
+describe('Google Native Provider', () => {
+  it('should build contents, systemInstruction and functionDeclarations', () => {
+    const nativeRequest = buildGenerateContentRequest(geminiRequest);
+    
+    expect(nativeRequest.systemInstruction).toEqual({ parts: [{ text: 'You are terse.' }] });
+    expect(nativeRequest.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Weather in Paris?' }] },
+      { role: 'model', parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }] },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'get_weather', response: { content: '18C and sunny' } } },
+          { inlineData: { mimeType: 'image/png', data: 'iVBORw==' } },
+          { text: 'And this photo?' }
+        ]
+      }
+    ]);
+    expect(nativeRequest.tools).toEqual([{
+      functionDeclarations: [{
+        name: 'get_weather',
+        description: 'Current weather',
+        parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+      }]
+    }]);
+    expect(nativeRequest.toolConfig).toEqual({
+      functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] }
+    });
+    expect(nativeRequest.generationConfig).toEqual({
+      maxOutputTokens: 256,
+      temperature: 0.2,
+      topP: undefined,
+      stopSequences: ['END']
+    });
+  });
+  
+  it.each([
+    ['required', { mode: 'ANY' }],
+    ['none', { mode: 'NONE' }],
+    ['auto', { mode: 'AUTO' }]
+  ] as const)('should map tool_choice %s to function calling mode', (toolChoice, config) => {
+    expect(buildGenerateContentRequest({ ...geminiRequest, tool_choice: toolChoice }).toolConfig).toEqual({ functionCallingConfig: config });
+  });
+  
+  it('should target generateContent and streamGenerateContent', () => {
+    const plain = googleProvider.buildRequest(geminiRequest, env);
+    const streaming = googleProvider.buildRequest({ ...geminiRequest, stream: true }, { ...env, GOOGLE_API_KEY: 'google-key' });
+    
+    expect(plain.url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:generateContent');
+    expect(plain.init.headers).toMatchObject({ 'x-goog-api-key': 'test-api-key' });
+    expect(streaming.url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse');
+    expect(streaming.init.headers).toMatchObject({ 'x-goog-api-key': 'google-key' });
+  });
+  
+  it('should parse native responses into the internal shape', async () => {
+    const upstream = createMockUpstream({
+      text: 'Checking.',
+      toolCalls: [{ name: 'get_weather', args: { city: 'Rome' } }],
+      usage: { input: 30, output: 12 }
+    });
+    const upstreamRequest = googleProvider.buildRequest(geminiRequest, env);
+    const response = await upstream.fetch(upstreamRequest.url, upstreamRequest.init);
+    
+    const parsed = googleProvider.parseResponse(await response.json(), geminiRequest);
+    
+    expect(parsed.choices[0].message?.content).toBe('Checking.');
+    expect(parsed.choices[0].message?.tool_calls?.[0].function).toEqual({ name: 'get_weather', arguments: '{"city":"Rome"}' });
+    expect(parsed.choices[0].finish_reason).toBe('tool_calls');
+    expect(parsed.usage).toEqual({ prompt_tokens: 30, completion_tokens: 12, total_tokens: 42 });
+  });
+  
+  it('should ask for thoughts within the budget and read them back as reasoning', async () => {
+    expect(buildGenerateContentRequest({ ...geminiRequest, thinking_budget: 50000 }).generationConfig?.thinkingConfig)
+      .toEqual({ thinkingBudget: 32768, includeThoughts: true });
+    
+    const parsed = googleProvider.parseResponse({
+      candidates: [{ content: { parts: [{ text: 'Hmm.', thought: true }, { text: 'Yes.' }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 2, thoughtsTokenCount: 30 }
+    }, geminiRequest);
+    
+    expect(parsed.choices[0].message).toMatchObject({ content: 'Yes.', reasoning_content: 'Hmm.' });
+    expect(parsed.usage).toEqual({ prompt_tokens: 10, completion_tokens: 32, total_tokens: 42 });
+  });
+  
+  it('should map blocked and truncated candidates', () => {
+    const blocked = googleProvider.parseResponse({ promptFeedback: { blockReason: 'SAFETY' } }, geminiRequest);
+    const truncated = googleProvider.parseResponse({
+      candidates: [{ content: { parts: [{ text: 'Partial' }] }, finishReason: 'MAX_TOKENS' }]
+    }, geminiRequest);
+    
+    expect(blocked.choices[0].finish_reason).toBe('content_filter');
+    expect(truncated.choices[0].finish_reason).toBe('length');
+  });
+  
+  it('should stream native chunks as Anthropic events', async () => {
+    const upstream = createMockUpstream({
+      text: 'Sure thing',
+      toolCalls: [{ name: 'get_weather', args: { city: 'Oslo' } }, { name: 'get_weather', args: { city: 'Bergen' } }],
+      usage: { input: 20, output: 8 }
+    });
+    const request = { ...geminiRequest, stream: true };
+    const upstreamRequest = googleProvider.buildRequest(request, env);
+    
+    const events = await collectStream(await upstream.fetch(upstreamRequest.url, upstreamRequest.init), googleProvider, request);
+    
+    const starts = events.filter(event => event.type === 'content_block_start');
+    expect(starts.map(event => [event.index, event.content_block?.type])).toEqual([[0, 'text'], [1, 'tool_use'], [2, 'tool_use']]);
+    expect(events.find(event => event.type === 'content_block_delta' && event.index === 2)?.delta?.partial_json).toBe('{"city":"Bergen"}');
+    
+    const messageDelta = events.find(event => event.type === 'message_delta');
+    expect(messageDelta?.delta?.stop_reason).toBe('tool_use');
+    expect(messageDelta?.usage).toEqual({ input_tokens: 20, output_tokens: 8 });
+    expect(events[events.length - 1].type).toBe('message_stop');
+  });
+  
+  it('should count tokens with the native countTokens method', async () => {
+    const upstream = createMockUpstream({ usage: { input: 77, output: 0 } });
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementationOnce(upstream.fetch);
+    
+    expect(await googleProvider.countTokens!(geminiRequest, env)).toBe(77);
+    expect(upstream.requests[0].url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:countTokens');
+    expect(upstream.requests[0].body.generateContentRequest.model).toBe('models/gemini-2.5-pro');
+  });
+});
+
+describe('Provider Selection by Route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRoutingCache();
+  });
+  
+  it('should send routes marked google to the native API', async () => {
+    const upstream = createMockUpstream({ text: 'Bonjour', usage: { input: 5, output: 1 } });
+    (global.fetch as MockedFunction<typeof fetch>).mockImplementation(upstream.fetch);
+    const worker = (await import('../src/worker')).default;
+    
+    const response = await worker.fetch(new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'claude-3-opus', max_tokens: 50, messages: [{ role: 'user', content: 'Salut' }] })
+    }), {
+      ...env,
+      GOOGLE_API_BASE: 'http://localhost:9999/v1beta',
+      MODEL_ROUTES: JSON.stringify({
+        default: 'google/gemini-2.5-flash',
+        rules: [{ match: '*opus*', model: 'google/gemini-2.5-pro', provider: 'google' }]
+      })
+    }, {} as ExecutionContext);
+    
+    expect(response.status).toBe(200);
+    const responseData = await response.json() as any;
+    expect(responseData.content).toEqual([{ type: 'text', text: 'Bonjour' }]);
+    expect(responseData.usage).toEqual({ input_tokens: 5, output_tokens: 1 });
+    expect(upstream.requests[0].url).toBe('http://localhost:9999/v1beta/models/gemini-2.5-pro:generateContent');
+    expect(upstream.requests[0].body.contents).toEqual([{ role: 'user', parts: [{ text: 'Salut' }] }]);
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createMemoryRateLimitStore,
+  createDurableObjectRateLimitStore,
+  RateLimiterDurableObject,
+  resetRateLimitStore,
+  getRateLimitStore,
+  checkRateLimits,
+  recordRateLimitUsage,
+  createRateLimitHeaders
+} from '../src/ratelimit';
+import { hashApiKey, resetAuthCache } from '../src/auth';
+import { resetRoutingCache } from '../src/routing';
+import { processGeminiStream } from '../src/worker';
+import { openAIProvider } from '../src/providers';
+import { AnthropicRequest, AuthenticatedClient, Env, StreamState } from '../src/types';
+import { createChunkedBody, createMockUpstream } from './mock-upstream';
+
+const client = (limits: AuthenticatedClient['limits']): AuthenticatedClient => ({ name: 'ci', models: null, limits });
+
+// Minimal Durable Object namespace that routes every id to an in-process object
+const createDurableObjectNamespace = (): DurableObjectNamespace => {
+  const objects = new Map<string, RateLimiterDurableObject>();
+  
+  return {
+    idFromName: (name: string) => name,
+    get: (id: string) => {
+      if (!objects.has(id)) {
+        const storage = new Map<string, unknown>();
+        objects.set(id, new RateLimiterDurableObject({
+          storage: {
+            get: async (key: string) => storage.get(key),
+            put: async (key: string, value: unknown) => { storage.set(key, value); }
+          }
+        } as unknown as DurableObjectState));
+      }
+      const object = objects.get(id)!;
+      return { fetch: (url: string, init?: RequestInit) => object.fetch(new Request(url, init)) };
+    }
+  } as unknown as DurableObjectNamespace;
+};
+
+describe('Rate Limit Stores', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+  
+  it('should count within a window and start over in the next one', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:10Z'));
+    const store = createMemoryRateLimitStore();
+    
+    await store.add('ci:requests', 2, 60000);
+    expect(await store.get('ci:requests', 60000)).toEqual({ count: 2, resetAt: Date.parse('2025-01-01T00:01:00Z') });
+    
+    vi.setSystemTime(new Date('2025-01-01T00:01:05Z'));
+    expect((await store.get('ci:requests', 60000)).count).toBe(0);
+  });
+  
+  it('should never go below zero when reservations are released', async () => {
+    const store = createMemoryRateLimitStore();
+    
+    await store.add('ci:input-tokens', 10, 60000);
+    expect((await store.add('ci:input-tokens', -25, 60000)).count).toBe(0);
+  });
+  
+  it('should keep counters in Durable Objects', async () => {
+    const store = createDurableObjectRateLimitStore(createDurableObjectNamespace());
+    
+    await store.add('ci:requests', 1, 60000);
+    await store.add('ci:requests', 1, 60000);
+    
+    expect((await store.get('ci:requests', 60000)).count).toBe(2);
+    expect((await store.get('other:requests', 60000)).count).toBe(0);
+  });
+  
+  it('should reserve every counter of a client in one Durable Object call, or none of them', async () => {
+    const namespace = createDurableObjectNamespace();
+    const get = vi.spyOn(namespace, 'get');
+    const store = createDurableObjectRateLimitStore(namespace);
+    const counters = [
+      { key: 'ci:requests', windowMs: 60000, amount: 1, limit: 5 },
+      { key: 'ci:input-tokens', windowMs: 60000, amount: 400, limit: 1000 }
+    ];
+    
+    expect((await store.reserve(counters)).windows.map(window => window.count)).toEqual([1, 400]);
+    expect(get).toHaveBeenCalledTimes(1);
+    
+    await store.reserve(counters);
+    const refused = await store.reserve(counters);
+    expect(refused.allowed).toBe(false);
+    expect(refused.windows.map(window => window.count)).toEqual([2, 800]);
+    expect((await store.get('ci:requests', 60000)).count).toBe(2);
+  });
+});
+
+describe('Rate Limit Checks', () => {
+  it('should skip clients without limits', async () => {
+    const store = createMemoryRateLimitStore();
+    
+    expect(await checkRateLimits(null, 100, store)).toBeNull();
+    expect(await checkRateLimits(client(null), 100, store)).toBeNull();
+  });
+  
+  it('should count requests and reject once the per-minute limit is used', async () => {
+    const store = createMemoryRateLimitStore();
+    const limited = client({ requests_per_minute: 2 });
+    
+    expect((await checkRateLimits(limited, 10, store))!.statuses[0].remaining).toBe(1);
+    expect((await checkRateLimits(limited, 10, store))!.statuses[0].remaining).toBe(0);
+    
+    const rejected = (await checkRateLimits(limited, 10, store))!;
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.exceeded?.name).toBe('requests');
+    expect((await store.get('ci:requests', 60000)).count).toBe(2);
+  });
+  
+  it('should not let concurrent requests past the limit', async () => {
+    const store = createMemoryRateLimitStore();
+    const limited = client({ requests_per_minute: 2, input_tokens_per_minute: 1000 });
+    
+    const decisions = await Promise.all(Array.from({ length: 5 }, () => checkRateLimits(limited, 10, store)));
+    
+    expect(decisions.map(decision => decision!.allowed)).toEqual([true, true, false, false, false]);
+    expect((await store.get('ci:requests', 60000)).count).toBe(2);
+    expect((await store.get('ci:input-tokens', 60000)).count).toBe(20);
+  });
+  
+  it('should reserve estimated input tokens and settle them against actual usage', async () => {
+    const store = createMemoryRateLimitStore();
+    const limited = client({ input_tokens_per_minute: 1000 });
+    
+    const decision = (await checkRateLimits(limited, 300, store))!;
+    expect(decision.statuses[0]).toMatchObject({ name: 'input-tokens', limit: 1000, remaining: 700 });
+    
+    await recordRateLimitUsage(limited, 300, { input_tokens: 420, output_tokens: 50 }, store);
+    expect((await store.get('ci:input-tokens', 60000)).count).toBe(420);
+    
+    const tooLarge = (await checkRateLimits(limited, 600, store))!;
+    expect(tooLarge.allowed).toBe(false);
+    expect(tooLarge.exceeded?.name).toBe('input-tokens');
+  });
+  
+  it('should block on the daily output quota only once it is used up', async () => {
+    const store = createMemoryRateLimitStore();
+    const limited = client({ output_tokens_per_day: 100 });
+    
+    expect((await checkRateLimits(limited, 10, store))!.allowed).toBe(true);
+    await recordRateLimitUsage(limited, 10, { input_tokens: 10, output_tokens: 150 }, store);
+    
+    const decision = (await checkRateLimits(limited, 10, store))!;
+    expect(decision.allowed).toBe(false);
+    expect(decision.exceeded).toMatchObject({ name: 'output-tokens', remaining: 0 });
+  });
+  
+  it('should reserve output tokens so concurrent requests cannot overshoot the daily quota', async () => {
+    const store = createMemoryRateLimitStore();
+    const limited = client({ output_tokens_per_day: 1000 });
+    
+    const decisions = await Promise.all(Array.from({ length: 3 }, () => checkRateLimits(limited, 10, store, 400)));
+    expect(decisions.map(decision => decision!.allowed)).toEqual([true, true, false]);
+    expect(decisions[2]!.exceeded).toMatchObject({ name: 'output-tokens', remaining: 200 });
+    
+    await recordRateLimitUsage(limited, 10, { input_tokens: 10, output_tokens: 150 }, store, 400);
+    expect((await store.get('ci:output-tokens', 24 * 60 * 60 * 1000)).count).toBe(550);
+    
+    await recordRateLimitUsage(limited, 10, { input_tokens: 0, output_tokens: 0 }, store, 400);
+    expect((await store.get('ci:output-tokens', 24 * 60 * 60 * 1000)).count).toBe(150);
+  });
+  
+  it('should describe every configured limit in Anthropic headers', () => {
+    const resetAt = Date.now() + 30000;
+    const headers = createRateLimitHeaders({
+      allowed: false,
+      exceeded: { name: 'requests', limit: 5, remaining: 0, resetAt },
+      statuses: [
+        { name: 'requests', limit: 5, remaining: 0, resetAt },
+        { name: 'output-tokens', limit: 1000, remaining: 400, resetAt }
+      ]
+    });
+    
+    expect(headers).toEqual({
+      'anthropic-ratelimit-requests-limit': '5',
+      'anthropic-ratelimit-requests-remaining': '0',
+      'anthropic-ratelimit-requests-reset': new Date(resetAt).toISOString(),
+      'anthropic-ratelimit-output-tokens-limit': '1000',
+      'anthropic-ratelimit-output-tokens-remaining': '400',
+      'anthropic-ratelimit-output-tokens-reset': new Date(resetAt).toISOString(),
+      'retry-after': '30'
+    });
+  });
+});
+
+describe('Rate Limits in the Worker', () => {
+  let env: Env;
+  
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    resetAuthCache();
+    resetRoutingCache();
+    resetRateLimitStore();
+    env = {
+      GEMINI_API_KEY: 'test-api-key',
+      CLIENT_KEYS: JSON.stringify([{
+        name: 'ci',
+        key_hash: await hashApiKey('sk-ci-key'),
+        limits: { requests_per_minute: 1, output_tokens_per_day: 1000 }
+      }])
+    };
+  });
+  
+  const sendMessage = async (): Promise<Response> => {
+    const worker = (await import('../src/worker')).default;
+    const request = new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': 'sk-ci-key' },
+      body: JSON.stringify({ model: 'claude-3-haiku', messages: [{ role: 'user', content: 'Hello!' }], max_tokens: 100 })
+    });
+    return worker.fetch(request, env, {} as ExecutionContext);
+  };
+  
+  it('should send rate limit headers and reject requests over the limit', async () => {
+    const upstream = createMockUpstream({ text: 'Hi there', usage: { input: 12, output: 40 } });
+    vi.mocked(global.fetch).mockImplementation(upstream.fetch);
+    
+    const first = await sendMessage();
+    expect(first.status).toBe(200);
+    expect(first.headers.get('anthropic-ratelimit-requests-limit')).toBe('1');
+    expect(first.headers.get('anthropic-ratelimit-requests-remaining')).toBe('0');
+    // max_tokens is held back from the quota until the response reports its usage
+    expect(first.headers.get('anthropic-ratelimit-output-tokens-remaining')).toBe('900');
+    
+    const second = await sendMessage();
+    const body = await second.json() as any;
+    expect(second.status).toBe(429);
+    expect(Number(second.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(body.error).toEqual({
+      type: 'rate_limit_error',
+      message: 'This request would exceed your rate limit of 1 requests per minute'
+    });
+    expect(upstream.requests).toHaveLength(1);
+  });
+  
+  it('should settle the output reservation when the client hangs up mid-stream', async () => {
+    vi.mocked(global.fetch).mockImplementation(createMockUpstream({ text: 'Hi there', usage: { input: 12, output: 40 } }).fetch);
+    // Only message_start reaches the client before it goes away
+    const closed = new TypeError('Invalid state: WritableStream is closed');
+    let writes = 0;
+    const getWriter = vi.spyOn(WritableStream.prototype, 'getWriter').mockReturnValue({
+      write: vi.fn(async () => {
+        if (++writes > 1) throw closed;
+      }),
+      close: vi.fn(async () => { throw closed; })
+    } as unknown as WritableStreamDefaultWriter<any>);
+    const tasks: Promise<unknown>[] = [];
+    const worker = (await import('../src/worker')).default;
+    
+    try {
+      const response = await worker.fetch(new Request('https://example.com/v1/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-api-key': 'sk-ci-key' },
+        body: JSON.stringify({ model: 'claude-3-haiku', messages: [{ role: 'user', content: 'Hello!' }], max_tokens: 100, stream: true })
+      }), env, { waitUntil: (task: Promise<unknown>) => tasks.push(task) } as unknown as ExecutionContext);
+      await Promise.all(tasks);
+      expect(response.status).toBe(200);
+    } finally {
+      getWriter.mockRestore();
+    }
+    
+    // The 100 held back for max_tokens give way to the estimate of what was streamed
+    const { count } = await getRateLimitStore(env).get('ci:output-tokens', 24 * 60 * 60 * 1000);
+    expect(count).toBeGreaterThan(0);
+    expect(count).toBeLessThan(100);
+  });
+  
+  it('should hand streamed usage, estimated when upstream omits it, to the completion hook', async () => {
+    const written: string[] = [];
+    const writer = {
+      write: async (chunk: Uint8Array) => { written.push(Buffer.from(chunk).toString('utf8')); },
+      close: async () => undefined
+    } as unknown as WritableStreamDefaultWriter<any>;
+    const originalRequest: AnthropicRequest = { model: 'claude-3-haiku', messages: [{ role: 'user', content: 'Hi' }] };
+    const response = new Response(createChunkedBody([
+      'data: {"choices":[{"index":0,"delta":{"content":"Twelve chars"}}]}\n\n',
+      'data: [DONE]\n\n'
+    ]), { status: 200 });
+    
+    let completed: StreamState | null = null;
+    await processGeminiStream(response, writer, originalRequest, openAIProvider.createStreamParser({ model: 'm', messages: [] }), async state => {
+      completed = state;
+    });
+    
+    expect(completed!.outputTokens).toBe(0);
+    expect(completed!.estimatedOutputTokens).toBe(3);
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  isRetryableStatus,
+  getRetryOptions,
+  computeBackoffDelay,
+  callUpstreamWithRetry
+} from '../src/retry';
+import { processGeminiStream } from '../src/worker';
+import { openAIProvider } from '../src/providers';
+import { resetRoutingCache } from '../src/routing';
+import { AnthropicRequest, Env, RetryOptions, UpstreamRequest } from '../src/types';
+import { createChunkedBody, createMockUpstream } from './mock-upstream';
+
+const fastOptions: RetryOptions = { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 1000, timeoutMs: 1000 };
+
+const buildRequest = (model: string): UpstreamRequest => ({
+  url: `https://upstream.example/${model}`,
+  init: { method: 'POST', body: JSON.stringify({ model, messages: [] }) }
+});
+
+const failure = (status: number, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify({ error: { message: `failed with ${status}` } }), { status, headers });
+
+const success = (): Response => new Response(JSON.stringify({ ok: true }), { status: 200 });
+
+describe('Retry Policy', () => {
+  it('should retry timeouts, rate limits and server errors only', () => {
+    expect([408, 429, 500, 503, 529].every(isRetryableStatus)).toBe(true);
+    expect([400, 401, 403, 404, 413].some(isRetryableStatus)).toBe(false);
+  });
+  
+  it('should read overrides from env and ignore invalid values', () => {
+    const env: Env = {
+      GEMINI_API_KEY: 'test-api-key',
+      UPSTREAM_MAX_RETRIES: '4',
+      UPSTREAM_RETRY_BASE_MS: 'soon',
+      UPSTREAM_TIMEOUT_MS: '15000'
+    };
+    
+    expect(getRetryOptions(env)).toEqual({ ...DEFAULT_RETRY_OPTIONS, maxRetries: 4, timeoutMs: 15000 });
+    expect(getRetryOptions({ GEMINI_API_KEY: 'test-api-key' })).toEqual(DEFAULT_RETRY_OPTIONS);
+  });
+  
+  it('should back off exponentially with full jitter up to the cap', () => {
+    const options: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 100, maxDelayMs: 1000 };
+    const max = () => 0.9999;
+    
+    expect(computeBackoffDelay(0, options, null, max)).toBe(99);
+    expect(computeBackoffDelay(2, options, null, max)).toBe(399);
+    expect(computeBackoffDelay(6, options, null, max)).toBe(999);
+    expect(computeBackoffDelay(3, options, null, () => 0)).toBe(0);
+  });
+  
+  it('should honour retry-after and give up on waits beyond the cap', () => {
+    const options: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, maxDelayMs: 5000 };
+    
+    expect(computeBackoffDelay(0, options, '2')).toBe(2000);
+    expect(computeBackoffDelay(0, options, '30')).toBeNull();
+    expect(computeBackoffDelay(0, options, new Date(Date.now() + 60000).toUTCString())).toBeNull();
+  });
+});
+
+describe('Upstream Calls with Retry', () => {
+  it('should retry the same model until it succeeds', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(failure(503))
+      .mockResolvedValueOnce(failure(429))
+      .mockResolvedValueOnce(success());
+    vi.mocked(global.fetch).mockImplementation(fetchMock);
+    
+    const result = await callUpstreamWithRetry(['google/gemini-2.5-pro'], buildRequest, fastOptions);
+    
+    expect(result.response.ok).toBe(true);
+    expect(result.model).toBe('google/gemini-2.5-pro');
+    expect(result.attempts).toBe(3);
+  });
+  
+  it('should fail over to the next model once retries run out', async () => {
+    const fetchMock = vi.fn(async (url: string) => url.endsWith('gemini-2.5-pro') ? failure(503) : success());
+    vi.mocked(global.fetch).mockImplementation(fetchMock as any);
+    
+    const result = await callUpstreamWithRetry(['google/gemini-2.5-pro', 'google/gemini-2.5-flash'], buildRequest, fastOptions);
+    
+    expect(result.model).toBe('google/gemini-2.5-flash');
+    expect(result.attempts).toBe(4);
+    expect(fetchMock.mock.calls.map(call => call[0])).toEqual([
+      'https://upstream.example/google/gemini-2.5-pro',
+      'https://upstream.example/google/gemini-2.5-pro',
+      'https://upstream.example/google/gemini-2.5-pro',
+      'https://upstream.example/google/gemini-2.5-flash'
+    ]);
+  });
+  
+  it('should skip straight to the fallback when retry-after exceeds the cap', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(failure(429, { 'retry-after': '120' }))
+      .mockResolvedValueOnce(success());
+    vi.mocked(global.fetch).mockImplementation(fetchMock);
+    
+    const result = await callUpstreamWithRetry(['google/gemini-2.5-pro', 'google/gemini-2.5-flash'], buildRequest, fastOptions);
+    
+    expect(result.model).toBe('google/gemini-2.5-flash');
+    expect(result.attempts).toBe(2);
+  });
+  
+  it('should return non-retryable errors without retrying or failing over', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(failure(400));
+    vi.mocked(global.fetch).mockImplementation(fetchMock);
+    
+    const result = await callUpstreamWithRetry(['google/gemini-2.5-pro', 'google/gemini-2.5-flash'], buildRequest, fastOptions);
+    
+    expect(result.response.status).toBe(400);
+    expect(result.model).toBe('google/gemini-2.5-pro');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+  
+  it('should cancel the bodies of failed attempts it moves past', async () => {
+    const cancels = [vi.fn(async () => undefined), vi.fn(async () => undefined), vi.fn(async () => undefined)];
+    const fetchMock = vi.fn();
+    cancels.forEach(cancel => fetchMock.mockResolvedValueOnce(new Response({ cancel } as unknown as ReadableStream, { status: 503 })));
+    vi.mocked(global.fetch).mockImplementation(fetchMock);
+    
+    const result = await callUpstreamWithRetry(['google/gemini-2.5-pro'], buildRequest, fastOptions);
+    
+    expect(result.response.status).toBe(503);
+    expect(cancels.map(cancel => cancel.mock.calls.length)).toEqual([1, 1, 0]);
+  });
+  
+  it('should treat hung and failed connections as retryable', async () => {
+    const fetchMock = vi.fn()
+      .mockImplementationOnce(() => new Promise(() => undefined))
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce(success());
+    vi.mocked(global.fetch).mockImplementation(fetchMock);
+    
+    const result = await callUpstreamWithRetry(['google/gemini-2.5-pro'], buildRequest, { ...fastOptions, timeoutMs: 20 });
+    
+    expect(result.response.ok).toBe(true);
+    expect(result.attempts).toBe(3);
+  });
+  
+  it('should report the timeout when every attempt hangs', async () => {
+    vi.mocked(global.fetch).mockImplementation(() => new Promise(() => undefined));
+    
+    const result = await callUpstreamWithRetry(['google/gemini-2.5-pro'], buildRequest, { ...fastOptions, maxRetries: 0, timeoutMs: 20 });
+    const body = await result.response.json() as any;
+    
+    expect(result.response.status).toBe(504);
+    expect(body.error.message).toBe('Upstream request timed out after 20ms');
+  });
+});
+
+describe('Streaming Retries', () => {
+  const originalRequest: AnthropicRequest = { model: 'claude-3-opus', messages: [{ role: 'user', content: 'Hi' }] };
+  
+  it('should retry when the stream fails before its first event and replay the winner', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(createChunkedBody([
+        'data: {"error":{"code":503,"message":"overloaded"}}\n\n'
+      ]), { status: 200 }))
+      .mockResolvedValueOnce(new Response(createChunkedBody([
+        ': keep-alive\n\ndata: {"choices":[{"index":0,"delta":{"content":"Hel',
+        'lo"}}]}\n\n',
+        'data: {"choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}\n\ndata: [DONE]\n\n'
+      ]), { status: 200 }));
+    vi.mocked(global.fetch).mockImplementation(fetchMock);
+    
+    const result = await callUpstreamWithRetry(['google/gemini-2.5-pro'], buildRequest, fastOptions, true);
+    expect(result.attempts).toBe(2);
+    
+    const written: string[] = [];
+    const writer = {
+      write: async (chunk: Uint8Array) => { written.push(Buffer.from(chunk).toString('utf8')); },
+      close: async () => undefined
+    } as unknown as WritableStreamDefaultWriter<any>;
+    await processGeminiStream(result.response, writer, originalRequest, openAIProvider.createStreamParser({ model: result.model, messages: [] }));
+    
+    const events = written.join('').split('\n\n').filter(Boolean).map(event => JSON.parse(event.split('\n')[1].slice('data: '.length)));
+    expect(events.find(event => event.type === 'content_block_delta')?.delta?.text).toBe('Hello');
+    expect(events[events.length - 1].type).toBe('message_stop');
+  });
+  
+  it('should not retry once the first event has been read', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(createChunkedBody([
+      'data: {"choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\n',
+      'data: {"error":{"code":503,"message":"overloaded"}}\n\n'
+    ]), { status: 200 }));
+    vi.mocked(global.fetch).mockImplementation(fetchMock);
+    
+    const result = await callUpstreamWithRetry(['google/gemini-2.5-pro'], buildRequest, fastOptions, true);
+    
+    expect(result.response.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Fallback Models via the Worker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRoutingCache();
+  });
+  
+  it('should serve opus requests from the flash fallback and say so in a header', async () => {
+    const upstream = createMockUpstream([
+      { status: 503 },
+      { status: 503 },
+      { text: 'Hello from flash' }
+    ]);
+    vi.mocked(global.fetch).mockImplementation(upstream.fetch);
+    
+    const worker = (await import('../src/worker')).default;
+    const request = new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: 'claude-3-opus', messages: [{ role: 'user', content: 'Hello!' }], max_tokens: 100 })
+    });
+    
+    const env: Env = { GEMINI_API_KEY: 'test-api-key', UPSTREAM_MAX_RETRIES: '1', UPSTREAM_RETRY_BASE_MS: '0' };
+    const response = await worker.fetch(request, env, {} as ExecutionContext);
+    const body = await response.json() as any;
+    
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-upstream-model')).toBe('google/gemini-2.5-flash');
+    expect(body.content[0].text).toBe('Hello from flash');
+    expect(upstream.requests.map(recorded => recorded.body.model)).toEqual([
+      'google/gemini-2.5-pro',
+      'google/gemini-2.5-pro',
+      'google/gemini-2.5-flash'
+    ]);
+  });
+});
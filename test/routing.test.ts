@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_ROUTING_TABLE,
+  RoutingConfigError,
+  compileRoutingConfig,
+  parseRoutingConfig,
+  loadRoutingTable,
+  resetRoutingCache,
+  resolveModelRoute
+} from '../src/routing';
+import { convertAnthropicToGemini } from '../src/worker';
+import { Env, RoutingConfig } from '../src/types';
+
+const config: RoutingConfig = {
+  default: 'google/gemini-2.0-flash',
+  rules: [
+    { match: 'claude-opus-4-1', model: 'google/gemini-2.5-pro', max_tokens_cap: 4096 },
+    { match: 'claude-3-?-haiku*', model: 'google/gemini-2.5-flash-lite' },
+    { match: '/^claude-.*sonnet/i', model: 'google/gemini-2.5-flash', temperature_scale: 0.5 }
+  ]
+};
+
+describe('Route Resolution', () => {
+  const table = compileRoutingConfig(config);
+  
+  it('should match exact, glob and regex rules in order', () => {
+    expect(resolveModelRoute('claude-opus-4-1', table)).toEqual({
+      geminiModel: 'google/gemini-2.5-pro',
+      provider: 'openai',
+      matchedBy: 'exact',
+      rule: 'claude-opus-4-1',
+      maxTokensCap: 4096,
+      temperatureScale: undefined
+    });
+    expect(resolveModelRoute('claude-3-5-haiku-20241022', table).geminiModel).toBe('google/gemini-2.5-flash-lite');
+    expect(resolveModelRoute('claude-3-5-haiku-20241022', table).matchedBy).toBe('pattern');
+    expect(resolveModelRoute('CLAUDE-3-7-SONNET', table).geminiModel).toBe('google/gemini-2.5-flash');
+  });
+  
+  it('should fall back to the explicit default', () => {
+    expect(resolveModelRoute('claude-opus-4-1-20250805', table)).toEqual({
+      geminiModel: 'google/gemini-2.0-flash',
+      provider: 'openai',
+      matchedBy: 'default'
+    });
+  });
+
+  it('should pick the provider per rule with a configurable default', () => {
+    const mixed = compileRoutingConfig({
+      default: 'google/gemini-2.5-flash',
+      default_provider: 'google',
+      rules: [{ match: '*opus*', model: 'google/gemini-2.5-pro', provider: 'openai' }]
+    });
+    
+    expect(resolveModelRoute('claude-3-opus', mixed).provider).toBe('openai');
+    expect(resolveModelRoute('claude-3-haiku', mixed).provider).toBe('google');
+  });
+  
+  it('should treat glob metacharacters other than * and ? literally', () => {
+    const dotted = compileRoutingConfig({ default: 'x', rules: [{ match: 'claude-3.5-sonnet', model: 'y' }] });
+    
+    expect(resolveModelRoute('claude-3.5-sonnet', dotted).geminiModel).toBe('y');
+    expect(resolveModelRoute('claude-3x5-sonnet', dotted).geminiModel).toBe('x');
+  });
+  
+  it('should give stable results for regex rules with the global flag', () => {
+    const global = compileRoutingConfig({ default: 'x', rules: [{ match: '/opus/g', model: 'y' }] });
+    
+    expect(resolveModelRoute('claude-opus', global).geminiModel).toBe('y');
+    expect(resolveModelRoute('claude-opus', global).geminiModel).toBe('y');
+  });
+  
+  it('should keep the built-in family fallbacks', () => {
+    expect(resolveModelRoute('claude-unknown-opus', DEFAULT_ROUTING_TABLE).matchedBy).toBe('pattern');
+    expect(resolveModelRoute('unknown-model', DEFAULT_ROUTING_TABLE).geminiModel).toBe('google/gemini-2.5-flash');
+  });
+});
+
+describe('Route Parameter Overrides', () => {
+  const table = compileRoutingConfig(config);
+  
+  it('should cap max_tokens for the matched rule', () => {
+    const capped = convertAnthropicToGemini({
+      model: 'claude-opus-4-1',
+      messages: [{ role: 'user', content: 'Hello' }],
+      max_tokens: 32000
+    }, table);
+    const underCap = convertAnthropicToGemini({
+      model: 'claude-opus-4-1',
+      messages: [{ role: 'user', content: 'Hello' }],
+      max_tokens: 100
+    }, table);
+    
+    expect(capped.data?.max_tokens).toBe(4096);
+    expect(underCap.data?.max_tokens).toBe(100);
+  });
+  
+  it('should scale temperature for the matched rule', () => {
+    const result = convertAnthropicToGemini({
+      model: 'claude-3-7-sonnet',
+      messages: [{ role: 'user', content: 'Hello' }],
+      temperature: 1
+    }, table);
+    
+    expect(result.data?.model).toBe('google/gemini-2.5-flash');
+    expect(result.data?.temperature).toBe(0.5);
+  });
+});
+
+describe('Routing Config Validation', () => {
+  it.each([
+    ['not json', 'is not valid JSON'],
+    ['[]', 'must be a JSON object'],
+    ['{"rules":[]}', '"default" must name an upstream model'],
+    ['{"default":"m"}', '"rules" must be an array'],
+    ['{"default":"m","rules":[{"model":"x"}]}', 'rules[0].match must be a non-empty string'],
+    ['{"default":"m","rules":[{"match":"a","model":""}]}', 'rules[0].model must be a non-empty string'],
+    ['{"default":"m","rules":[{"match":"/(/","model":"x"}]}', 'rules[0].match is not a valid pattern'],
+    ['{"default":"m","default_provider":"azure","rules":[]}', '"default_provider" must be one of: openai, google'],
+    ['{"default":"m","rules":[{"match":"a","model":"x","provider":"bedrock"}]}', 'rules[0].provider must be one of: openai, google'],
+    ['{"default":"m","rules":[{"match":"a","model":"x","max_tokens_cap":0}]}', 'rules[0].max_tokens_cap must be a positive integer'],
+    ['{"default":"m","rules":[{"match":"a","model":"x","temperature_scale":"1"}]}', 'rules[0].temperature_scale must be a non-negative number'],
+    ['{"default":"m","rules":[{"match":"a","model":"x","fallbacks":"y"}]}', 'rules[0].fallbacks must be an array of upstream model names'],
+    ['{"default":"m","default_fallbacks":[""],"rules":[]}', '"default_fallbacks" must be an array of upstream model names']
+  ])('should reject %s', (raw, message) => {
+    expect(() => parseRoutingConfig(raw, 'MODEL_ROUTES')).toThrow(RoutingConfigError);
+    expect(() => parseRoutingConfig(raw, 'MODEL_ROUTES')).toThrow(message);
+  });
+});
+
+describe('Routing Config Loading', () => {
+  beforeEach(() => {
+    resetRoutingCache();
+  });
+  
+  it('should use the built-in table when nothing is configured', async () => {
+    expect(await loadRoutingTable({ GEMINI_API_KEY: 'key' })).toBe(DEFAULT_ROUTING_TABLE);
+  });
+  
+  it('should parse MODEL_ROUTES once per isolate', async () => {
+    const env: Env = { GEMINI_API_KEY: 'key', MODEL_ROUTES: JSON.stringify(config) };
+    
+    const first = await loadRoutingTable(env);
+    const second = await loadRoutingTable(env);
+    
+    expect(first).toBe(second);
+    expect(first.defaultModel).toBe('google/gemini-2.0-flash');
+  });
+  
+  it('should prefer the KV namespace and cache its value', async () => {
+    const get = vi.fn().mockResolvedValue(JSON.stringify(config));
+    const env = {
+      GEMINI_API_KEY: 'key',
+      MODEL_ROUTES: '{"default":"ignored","rules":[]}',
+      MODEL_ROUTES_KV: { get } as unknown as KVNamespace
+    };
+    
+    const table = await loadRoutingTable(env);
+    await loadRoutingTable(env);
+    
+    expect(table.defaultModel).toBe('google/gemini-2.0-flash');
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(get).toHaveBeenCalledWith('model-routes');
+  });
+  
+  it('should surface invalid configs as RoutingConfigError', async () => {
+    await expect(loadRoutingTable({ GEMINI_API_KEY: 'key', MODEL_ROUTES: '{"default":1}' }))
+      .rejects.toThrow('MODEL_ROUTES: "default" must name an upstream model');
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from 'vitest';
+import { sanitizeSchema, resolveRef } from '../src/schema';
+
+describe('Schema Sanitization', () => {
+  it('should leave schemas Gemini already accepts unchanged', () => {
+    const schema = {
+      type: 'object',
+      description: 'Search query',
+      properties: {
+        query: { type: 'string', minLength: 1 },
+        when: { type: 'string', format: 'date-time' },
+        limit: { type: 'integer', format: 'int32', minimum: 1, maximum: 50 },
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] }, maxItems: 5 }
+      },
+      required: ['query']
+    };
+    
+    expect(sanitizeSchema(schema)).toEqual({ schema, warnings: [] });
+  });
+  
+  it('should inline $defs and definitions refs, letting sibling keys win', () => {
+    const { schema, warnings } = sanitizeSchema({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        home: { $ref: '#/$defs/Address', description: 'Home address' },
+        work: { $ref: '#/definitions/Address' }
+      },
+      $defs: { Address: { type: 'object', description: 'An address', properties: { city: { type: 'string' } } } },
+      definitions: { Address: { type: 'object', properties: { zip: { type: 'string' } } } }
+    });
+    
+    expect(schema.properties.home).toEqual({ type: 'object', description: 'Home address', properties: { city: { type: 'string' } } });
+    expect(schema.properties.work).toEqual({ type: 'object', properties: { zip: { type: 'string' } } });
+    expect(schema.$defs).toBeUndefined();
+    expect(warnings).toEqual([]);
+  });
+  
+  it('should cut off recursive and unresolved refs with a warning', () => {
+    const { schema, warnings } = sanitizeSchema({
+      type: 'object',
+      properties: {
+        tree: { $ref: '#/$defs/Node' },
+        remote: { $ref: 'https://example.com/schema.json' }
+      },
+      $defs: { Node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/Node' } } } } }
+    });
+    
+    expect(schema.properties.tree.properties.children.items).toEqual({ type: 'object' });
+    expect(schema.properties.remote).toEqual({ type: 'object' });
+    expect(warnings).toEqual([
+      '#/properties/tree/properties/children/items: recursive $ref "#/$defs/Node" cut off; replaced with an empty object schema',
+      '#/properties/remote: $ref "https://example.com/schema.json" could not be resolved; replaced with an empty object schema'
+    ]);
+  });
+  
+  it.each([
+    ['a type array with null', { type: ['string', 'null'] }, { type: 'string', nullable: true }, []],
+    ['an anyOf with a null branch', { anyOf: [{ type: 'integer' }, { type: 'null' }] }, { type: 'integer', nullable: true }, []],
+    ['a oneOf of string constants', { oneOf: [{ const: 'asc' }, { const: 'desc' }] }, { type: 'string', enum: ['asc', 'desc'] }, []],
+    ['a const string', { const: 'fixed' }, { type: 'string', enum: ['fixed'] }, []],
+    [
+      'a type array with several types',
+      { type: ['string', 'number'] },
+      { type: 'string' },
+      ['#: type ["string","number"] narrowed to "string"']
+    ],
+    [
+      'an anyOf with several options',
+      { anyOf: [{ type: 'string' }, { type: 'number' }], description: 'An id' },
+      { type: 'string', description: 'An id' },
+      ['#: anyOf with 2 options narrowed to the first']
+    ],
+    [
+      'a non-string enum',
+      { type: 'integer', enum: [1, 2, 3] },
+      { type: 'integer', description: 'Allowed values: 1, 2, 3' },
+      ['#: non-string enum removed; allowed values moved to the description']
+    ],
+    ['an unknown format', { type: 'string', format: 'email' }, { type: 'string' }, ['#: format "email" is not supported; removed']],
+    ['a tuple', { type: 'array', items: [{ type: 'string' }, { type: 'number' }] }, { type: 'array', items: { type: 'string' } }, ['#: tuple items narrowed to the first item schema']]
+  ])('should rewrite %s', (_name, input, expected, expectedWarnings) => {
+    const { schema, warnings } = sanitizeSchema(input);
+    
+    expect(schema).toEqual(expected);
+    expect(warnings).toEqual(expectedWarnings);
+  });
+  
+  it('should merge allOf branches', () => {
+    const { schema } = sanitizeSchema({
+      allOf: [
+        { $ref: '#/$defs/Base' },
+        { type: 'object', properties: { extra: { type: 'boolean' } }, required: ['extra'] }
+      ],
+      $defs: { Base: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] } }
+    });
+    
+    expect(schema).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string' }, extra: { type: 'boolean' } },
+      required: ['id', 'extra']
+    });
+  });
+  
+  it('should strip unsupported keywords and stray required names, reporting each', () => {
+    const { schema, warnings } = sanitizeSchema({
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        mode: { type: 'string', default: 'fast', examples: ['fast', 'slow'] }
+      },
+      required: ['mode', 'missing']
+    });
+    
+    expect(schema).toEqual({ type: 'object', properties: { mode: { type: 'string' } }, required: ['mode'] });
+    expect(warnings).toEqual([
+      '#/properties/mode: default is not supported; removed',
+      '#/properties/mode: examples is not supported; removed',
+      '#: required "missing" not in properties; removed',
+      '#: additionalProperties is not supported; removed'
+    ]);
+  });
+  
+  it('should not modify the input schema', () => {
+    const input = { type: 'object', properties: { a: { type: ['string', 'null'], default: 'x' } } };
+    const copy = JSON.parse(JSON.stringify(input));
+    
+    sanitizeSchema(input);
+    
+    expect(input).toEqual(copy);
+  });
+  
+  it('should resolve JSON pointer escapes', () => {
+    const root = { $defs: { 'a/b': { type: 'string' } } };
+    
+    expect(resolveRef('#/$defs/a~1b', root)).toEqual({ type: 'string' });
+    expect(resolveRef('#/$defs/missing', root)).toBeNull();
+  });
+});
+
+describe('Schema Sanitization in Tool Conversion', () => {
+  it('should send sanitized parameters upstream and log what was lost', async () => {
+    const { convertAnthropicToGemini } = await import('../src/worker');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    
+    const result = convertAnthropicToGemini({
+      model: 'claude-3-haiku',
+      max_tokens: 100,
+      messages: [{ role: 'user', content: 'Hi' }],
+      tools: [{
+        name: 'lookup',
+        description: 'Look something up',
+        input_schema: {
+          type: 'object',
+          properties: { id: { type: ['string', 'null'], format: 'uuid' } },
+          additionalProperties: false
+        } as any
+      }]
+    });
+    
+    expect(result.data!.tools![0].function.parameters).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string', nullable: true } }
+    });
+    expect(warn).toHaveBeenCalledWith('Tool "lookup" schema #/properties/id: format "uuid" is not supported; removed');
+    expect(warn).toHaveBeenCalledWith('Tool "lookup" schema #: additionalProperties is not supported; removed');
+    warn.mockRestore();
+  });
+});
@@ -116,11 +116,40 @@ Object.assign(global, {
   },
 
   ReadableStream: class MockReadableStream {
+    private source?: UnderlyingSource;
+
+    constructor(source?: UnderlyingSource) {
+      this.source = source;
+    }
+
     getReader() {
+      const source = this.source;
+      if (!source?.pull) {
+        return {
+          read: vi.fn().mockResolvedValue({ done: true, value: undefined }),
+          releaseLock: vi.fn(),
+          cancel: vi.fn()
+        };
+      }
+
+      // Pull-based sources are drained one enqueued chunk at a time
+      const queue: any[] = [];
+      let closed = false;
+      const controller = {
+        enqueue: (chunk: any) => { queue.push(chunk); },
+        close: () => { closed = true; },
+        error: (reason: any) => { throw reason; }
+      } as unknown as ReadableStreamDefaultController;
+
       return {
-        read: vi.fn().mockResolvedValue({ done: true, value: undefined }),
+        read: async () => {
+          while (queue.length === 0 && !closed) {
+            await source.pull!(controller);
+          }
+          return queue.length > 0 ? { done: false, value: queue.shift() } : { done: true, value: undefined };
+        },
         releaseLock: vi.fn(),
-        cancel: vi.fn()
+        cancel: async (reason?: any) => source.cancel?.(reason)
       };
     }
   },
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, estimateMessageTokens, estimateRequestTokens } from '../src/tokenizer';
+import { GeminiRequest } from '../src/types';
+
+describe('Token Estimation', () => {
+  it('should estimate roughly four characters per token for Latin text', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('Hello, world!')).toBe(4);
+  });
+  
+  it('should count wide characters individually', () => {
+    expect(estimateTokens('你好世界')).toBe(4);
+    expect(estimateTokens('こんにちは abc')).toBe(5 + 1);
+  });
+  
+  it('should charge a fixed cost for images', () => {
+    const tokens = estimateMessageTokens({
+      role: 'user',
+      content: [
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+        { type: 'text', text: 'abcd' }
+      ]
+    });
+    
+    expect(tokens).toBe(4 + 258 + 1);
+  });
+  
+  it('should include tool calls in message estimates', () => {
+    const tokens = estimateMessageTokens({
+      role: 'assistant',
+      content: null,
+      tool_calls: [
+        { id: 'call_1', type: 'function', function: { name: 'calc', arguments: '{"a":1}' } }
+      ]
+    });
+    
+    expect(tokens).toBe(4 + 1 + 2);
+  });
+  
+  it('should grow when tools are attached to the request', () => {
+    const request: GeminiRequest = {
+      model: 'google/gemini-2.5-flash',
+      messages: [{ role: 'user', content: 'What is 2 + 3?' }]
+    };
+    
+    const withoutTools = estimateRequestTokens(request);
+    const withTools = estimateRequestTokens({
+      ...request,
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'calculator',
+            description: 'Perform basic arithmetic operations',
+            parameters: { type: 'object', properties: { a: { type: 'number' } } }
+          }
+        }
+      ]
+    });
+    
+    expect(withoutTools).toBe(3 + 4 + 4);
+    expect(withTools).toBeGreaterThan(withoutTools);
+  });
+});
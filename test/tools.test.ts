@@ -0,0 +1,236 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  UPSTREAM_TOOL_NAME_PATTERN,
+  collectToolNames,
+  createToolNameMap,
+  isMCPToolDefinition,
+  normalizeTool,
+  normalizeTools,
+  collectToolAnnotations
+} from '../src/tools';
+import { openAIProvider } from '../src/providers';
+import { convertAnthropicToGemini, convertGeminiToAnthropic, convertGeminiStreamChunk, createStreamState, finishGeminiStream } from '../src/worker';
+import { resetRoutingCache } from '../src/routing';
+import { AnthropicRequest, AnthropicTool, Env, MCPTool } from '../src/types';
+import { createMockUpstream } from './mock-upstream';
+
+const schema: AnthropicTool['input_schema'] = {
+  type: 'object',
+  properties: { path: { type: 'string' } },
+  required: ['path']
+};
+
+describe('Tool Normalization', () => {
+  it('should tell MCP definitions from Anthropic ones', () => {
+    expect(isMCPToolDefinition({ name: 'read_file', inputSchema: schema })).toBe(true);
+    expect(isMCPToolDefinition({ name: 'read_file', description: 'Read', input_schema: schema })).toBe(false);
+  });
+  
+  it('should keep Anthropic tools as they are', () => {
+    expect(normalizeTool({ name: 'read_file', description: 'Read a file', input_schema: schema })).toEqual({
+      name: 'read_file',
+      description: 'Read a file',
+      parameters: schema,
+      source: 'anthropic'
+    });
+  });
+  
+  it('should read inputSchema and keep MCP annotations', () => {
+    const tool: MCPTool = {
+      name: 'delete_file',
+      description: 'Delete a file',
+      inputSchema: schema,
+      annotations: { title: 'Delete File', readOnlyHint: false, destructiveHint: true }
+    };
+    
+    expect(normalizeTool(tool)).toEqual({
+      name: 'delete_file',
+      description: 'Delete a file',
+      parameters: schema,
+      source: 'mcp',
+      title: 'Delete File',
+      annotations: { title: 'Delete File', readOnlyHint: false, destructiveHint: true }
+    });
+  });
+  
+  it('should fall back to the title and an empty schema', () => {
+    const [titled, bare] = normalizeTools([
+      { name: 'list_files', title: 'List Files', inputSchema: undefined as unknown as MCPTool['inputSchema'] },
+      { name: 'ping', input_schema: undefined as unknown as AnthropicTool['input_schema'], description: '' }
+    ]);
+    
+    expect(titled).toMatchObject({ description: 'List Files', title: 'List Files', parameters: { type: 'object', properties: {} } });
+    expect(bare).toMatchObject({ description: '', parameters: { type: 'object', properties: {} }, source: 'anthropic' });
+  });
+});
+
+describe('Tool Name Mapping', () => {
+  it('should keep names Gemini accepts', () => {
+    const names = createToolNameMap(['get_weather', '_private', 'Search2']);
+    
+    expect(['get_weather', '_private', 'Search2'].map(names.toUpstream)).toEqual(['get_weather', '_private', 'Search2']);
+  });
+  
+  it.each([
+    ['github.create-issue'],
+    ['2fa_code'],
+    ['mcp__server__tool with spaces'],
+    ['x'.repeat(100)]
+  ])('should rewrite %s into a valid, reversible name', name => {
+    const names = createToolNameMap([name]);
+    const upstreamName = names.toUpstream(name);
+    
+    expect(upstreamName).toMatch(UPSTREAM_TOOL_NAME_PATTERN);
+    expect(upstreamName.length).toBeLessThanOrEqual(64);
+    expect(names.toClient(upstreamName)).toBe(name);
+    expect(createToolNameMap([name]).toUpstream(name)).toBe(upstreamName);
+  });
+  
+  it('should give names that sanitize alike different upstream names', () => {
+    const names = createToolNameMap(['a.b', 'a-b', 'a b']);
+    const upstreamNames = ['a.b', 'a-b', 'a b'].map(names.toUpstream);
+    
+    expect(new Set(upstreamNames).size).toBe(3);
+    expect(upstreamNames.map(names.toClient)).toEqual(['a.b', 'a-b', 'a b']);
+  });
+  
+  it('should not let a rewritten name take a valid name', () => {
+    const taken = createToolNameMap(['a.b']).toUpstream('a.b');
+    const names = createToolNameMap(['a.b', taken]);
+    
+    expect(names.toUpstream(taken)).toBe(taken);
+    expect(names.toUpstream('a.b')).not.toBe(taken);
+    expect(names.toClient(names.toUpstream('a.b'))).toBe('a.b');
+  });
+  
+  it('should pass unknown upstream names through', () => {
+    expect(createToolNameMap().toClient('made_up')).toBe('made_up');
+  });
+  
+  it('should collect names from tools, tool_choice and tool history', () => {
+    expect(collectToolNames({
+      model: 'claude-3-haiku',
+      tools: [{ name: 'a.b', description: '', input_schema: schema }],
+      tool_choice: { type: 'tool', name: 'c.d' },
+      messages: [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'e.f', input: {} }, { type: 'tool_use', id: 'toolu_2', name: 'a.b', input: {} }] }
+      ]
+    })).toEqual(['a.b', 'c.d', 'e.f']);
+  });
+});
+
+describe('Tool Names in Conversion', () => {
+  const request: AnthropicRequest = {
+    model: 'claude-3-haiku',
+    max_tokens: 100,
+    tools: [{ name: 'github.create-issue', description: 'Create an issue', input_schema: schema }],
+    tool_choice: { type: 'tool', name: 'github.create-issue' },
+    messages: [
+      { role: 'user', content: 'File it' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'github.create-issue', input: { path: 'a' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'done' }] }
+    ]
+  };
+  const upstreamName = createToolNameMap(['github.create-issue']).toUpstream('github.create-issue');
+  
+  it('should send the rewritten name in tools, tool_choice and history', () => {
+    const geminiRequest = convertAnthropicToGemini(request).data!;
+    
+    expect(geminiRequest.tools![0].function.name).toBe(upstreamName);
+    expect(geminiRequest.tool_choice).toEqual({ type: 'function', function: { name: upstreamName } });
+    expect(geminiRequest.messages[1].tool_calls![0].function.name).toBe(upstreamName);
+  });
+  
+  it('should restore the original name in tool_use blocks', () => {
+    const toolNames = createToolNameMap(collectToolNames(request));
+    const response = convertGeminiToAnthropic({
+      id: 'chatcmpl_1',
+      object: 'chat.completion',
+      created: 0,
+      model: 'google/gemini-2.5-flash-lite',
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: upstreamName, arguments: '{}' } }] },
+        finish_reason: 'tool_calls'
+      }]
+    }, request, toolNames);
+    
+    expect(response.data!.content[0]).toMatchObject({ type: 'tool_use', name: 'github.create-issue' });
+  });
+  
+  it('should restore the original name in streamed tool_use blocks', () => {
+    const state = createStreamState(request, createToolNameMap(collectToolNames(request)));
+    convertGeminiStreamChunk({
+      id: 'chunk_1',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'google/gemini-2.5-flash-lite',
+      choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: upstreamName, arguments: '{}' } }] } }]
+    }, state);
+    const start = finishGeminiStream(state).find(event => event.type === 'content_block_start');
+    
+    expect(start?.content_block).toMatchObject({ type: 'tool_use', name: 'github.create-issue' });
+  });
+  
+  it('should round-trip names through the worker', async () => {
+    resetRoutingCache();
+    const upstream = createMockUpstream({ toolCalls: [{ name: upstreamName, args: { path: 'b' } }] });
+    vi.mocked(global.fetch).mockImplementation(upstream.fetch);
+    const worker = (await import('../src/worker')).default;
+    const env: Env = { GEMINI_API_KEY: 'test-api-key' };
+    
+    const response = await worker.fetch(new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    }), env, {} as ExecutionContext);
+    const body = await response.json() as any;
+    
+    expect(upstream.requests[0].body.tools[0].function.name).toBe(upstreamName);
+    expect(body.content[0]).toMatchObject({ type: 'tool_use', name: 'github.create-issue', input: { path: 'b' } });
+  });
+});
+
+describe('Tool Annotations', () => {
+  const deleteFile: MCPTool = {
+    name: 'fs.delete-file',
+    inputSchema: schema,
+    annotations: { title: 'Delete File', destructiveHint: true }
+  };
+  const request: AnthropicRequest = {
+    model: 'claude-3-haiku',
+    max_tokens: 100,
+    messages: [{ role: 'user', content: 'Clean up' }],
+    tools: [{ name: 'read_file', description: 'Read a file', input_schema: schema }, deleteFile]
+  };
+  
+  it('should key annotations by the original tool name', () => {
+    expect(collectToolAnnotations(request.tools!)).toEqual({ 'fs.delete-file': { title: 'Delete File', destructiveHint: true } });
+    
+    const converted = convertAnthropicToGemini(request);
+    expect(converted.data!.tool_annotations).toEqual({ 'fs.delete-file': { title: 'Delete File', destructiveHint: true } });
+    expect(convertAnthropicToGemini({ ...request, tools: [request.tools![0]] }).data!.tool_annotations).toBeUndefined();
+  });
+  
+  it('should hand annotations to code reading the converted request but not upstream', async () => {
+    resetRoutingCache();
+    const upstream = createMockUpstream({ text: 'Done' });
+    vi.mocked(global.fetch).mockImplementation(upstream.fetch);
+    const buildRequest = vi.spyOn(openAIProvider, 'buildRequest');
+    const worker = (await import('../src/worker')).default;
+    
+    try {
+      await worker.fetch(new Request('https://example.com/v1/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      }), { GEMINI_API_KEY: 'test-api-key' } as Env, {} as ExecutionContext);
+      
+      expect(buildRequest.mock.calls[0][0].tool_annotations).toEqual({ 'fs.delete-file': { title: 'Delete File', destructiveHint: true } });
+      expect(upstream.requests[0].body.tool_annotations).toBeUndefined();
+    } finally {
+      buildRequest.mockRestore();
+    }
+  });
+});
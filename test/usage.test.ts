@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_MODEL_PRICES,
+  PriceTableError,
+  parsePriceTable,
+  getPriceTable,
+  estimateCost,
+  createMemoryUsageStore,
+  createKVUsageStore,
+  resetUsageStore,
+  getUsageStore,
+  getReportDays,
+  aggregateUsage
+} from '../src/usage';
+import { hashApiKey, resetAuthCache } from '../src/auth';
+import { resetRoutingCache } from '../src/routing';
+import { processGeminiStream } from '../src/worker';
+import { openAIProvider } from '../src/providers';
+import { Env, StreamState, UsageRecord } from '../src/types';
+import { createMockUpstream } from './mock-upstream';
+
+const usageRecord = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  timestamp: '2025-01-02T10:00:00.000Z',
+  client: 'ci',
+  model: 'claude-3-haiku',
+  upstream_model: 'google/gemini-2.5-flash-lite',
+  input_tokens: 1000,
+  output_tokens: 500,
+  latency_ms: 100,
+  status: 200,
+  stream: false,
+  ...overrides
+});
+
+// Minimal KV namespace supporting put with metadata and paged prefix listing
+const createKV = (pageSize = 2): KVNamespace => {
+  const entries = new Map<string, unknown>();
+  
+  return {
+    put: vi.fn(async (key: string, _value: string, options?: { metadata?: unknown }) => {
+      entries.set(key, options?.metadata);
+    }),
+    list: vi.fn(async ({ prefix, cursor }: { prefix: string; cursor?: string }) => {
+      const keys = [...entries.keys()].filter(key => key.startsWith(prefix)).sort();
+      const start = cursor ? Number(cursor) : 0;
+      const page = keys.slice(start, start + pageSize);
+      const complete = start + pageSize >= keys.length;
+      return {
+        keys: page.map(name => ({ name, metadata: entries.get(name) })),
+        list_complete: complete,
+        cursor: complete ? undefined : String(start + pageSize)
+      };
+    })
+  } as unknown as KVNamespace;
+};
+
+describe('Price Table', () => {
+  it('should merge MODEL_PRICES over the defaults', () => {
+    const prices = getPriceTable({ GEMINI_API_KEY: 'test-api-key', MODEL_PRICES: '{"gemini-exp":{"input":1,"output":2}}' });
+    
+    expect(prices['gemini-exp']).toEqual({ input: 1, output: 2 });
+    expect(prices['google/gemini-2.5-pro']).toEqual(DEFAULT_MODEL_PRICES['google/gemini-2.5-pro']);
+  });
+  
+  it('should price per million tokens and accept bare Google model names', () => {
+    expect(estimateCost('google/gemini-2.5-pro', 1_000_000, 100_000, DEFAULT_MODEL_PRICES)).toBeCloseTo(2.25);
+    expect(estimateCost('google/gemini-exp', 2_000_000, 0, { 'gemini-exp': { input: 1, output: 2 } })).toBe(2);
+    expect(estimateCost('unknown-model', 10, 10, DEFAULT_MODEL_PRICES)).toBeNull();
+  });
+  
+  it.each([
+    ['not json', 'MODEL_PRICES is not valid JSON'],
+    ['[]', 'MODEL_PRICES must be an object keyed by upstream model'],
+    ['{"gemini-exp":{"input":1}}', 'MODEL_PRICES["gemini-exp"] must have non-negative "input" and "output" prices'],
+    ['{"gemini-exp":{"input":-1,"output":2}}', 'MODEL_PRICES["gemini-exp"] must have non-negative "input" and "output" prices']
+  ])('should reject %s', (raw, message) => {
+    expect(() => parsePriceTable(raw)).toThrow(PriceTableError);
+    expect(() => parsePriceTable(raw)).toThrow(message);
+  });
+});
+
+describe('Usage Stores', () => {
+  it('should list memory records by day', async () => {
+    const store = createMemoryUsageStore();
+    await store.record(usageRecord());
+    await store.record(usageRecord({ timestamp: '2025-01-03T00:00:00.000Z' }));
+    
+    expect(await store.list(['2025-01-02'])).toHaveLength(1);
+    expect(await store.list(['2025-01-02', '2025-01-03'])).toHaveLength(2);
+  });
+  
+  it('should keep KV records as metadata under day-prefixed keys and page through them', async () => {
+    const kv = createKV();
+    const store = createKVUsageStore(kv);
+    
+    await store.record(usageRecord());
+    await store.record(usageRecord({ output_tokens: 1 }));
+    await store.record(usageRecord({ output_tokens: 2 }));
+    await store.record(usageRecord({ timestamp: '2025-01-05T00:00:00.000Z' }));
+    
+    expect(vi.mocked(kv.put).mock.calls[0][0]).toMatch(/^usage:2025-01-02:2025-01-02T10:00:00.000Z:/);
+    expect(vi.mocked(kv.put).mock.calls[0][2]).toMatchObject({ expirationTtl: 92 * 24 * 60 * 60 });
+    
+    const records = await store.list(['2025-01-02']);
+    expect(records).toHaveLength(3);
+    expect(kv.list).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Usage Aggregation', () => {
+  it('should expand inclusive date ranges and reject bad ones', () => {
+    expect(getReportDays('2024-12-31', '2025-01-02')).toEqual(['2024-12-31', '2025-01-01', '2025-01-02']);
+    expect(getReportDays('2025-01-02', '2025-01-01')).toBeNull();
+    expect(getReportDays('2025-1-2', '2025-01-02')).toBeNull();
+    expect(getReportDays('2025-01-01', '2025-06-01')).toBeNull();
+  });
+  
+  it('should group by day, key and model with costs and totals', () => {
+    const report = aggregateUsage([
+      usageRecord({ latency_ms: 100 }),
+      usageRecord({ latency_ms: 300, status: 529, input_tokens: 0, output_tokens: 0 }),
+      usageRecord({ client: 'batch', model: 'claude-3-opus', upstream_model: 'google/gemini-2.5-pro', input_tokens: 2000, output_tokens: 1000 }),
+      usageRecord({ timestamp: '2025-01-01T23:59:59.000Z', upstream_model: 'custom/model' })
+    ], '2025-01-01', '2025-01-02', DEFAULT_MODEL_PRICES);
+    
+    expect(report.data).toEqual([
+      {
+        date: '2025-01-01', client: 'ci', model: 'claude-3-haiku', upstream_model: 'custom/model',
+        requests: 1, errors: 0, input_tokens: 1000, output_tokens: 500, average_latency_ms: 100, estimated_cost_usd: null
+      },
+      {
+        date: '2025-01-02', client: 'batch', model: 'claude-3-opus', upstream_model: 'google/gemini-2.5-pro',
+        requests: 1, errors: 0, input_tokens: 2000, output_tokens: 1000, average_latency_ms: 100, estimated_cost_usd: 0.0125
+      },
+      {
+        date: '2025-01-02', client: 'ci', model: 'claude-3-haiku', upstream_model: 'google/gemini-2.5-flash-lite',
+        requests: 2, errors: 1, input_tokens: 1000, output_tokens: 500, average_latency_ms: 200, estimated_cost_usd: 0.0003
+      }
+    ]);
+    expect(report.totals).toEqual({ requests: 4, errors: 1, input_tokens: 4000, output_tokens: 2000, estimated_cost_usd: 0.0128 });
+  });
+});
+
+describe('Usage in the Worker', () => {
+  let env: Env;
+  
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    resetAuthCache();
+    resetRoutingCache();
+    resetUsageStore();
+    env = {
+      GEMINI_API_KEY: 'test-api-key',
+      ADMIN_API_KEY: 'sk-admin',
+      CLIENT_KEYS: JSON.stringify([{ name: 'ci', key_hash: await hashApiKey('sk-ci-key') }])
+    };
+  });
+  
+  const sendMessage = async (stream: boolean, ctx = {} as ExecutionContext): Promise<Response> => {
+    const worker = (await import('../src/worker')).default;
+    const request = new Request('https://example.com/v1/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': 'sk-ci-key' },
+      body: JSON.stringify({ model: 'claude-3-haiku', messages: [{ role: 'user', content: 'Hello!' }], max_tokens: 100, stream })
+    });
+    return worker.fetch(request, env, ctx);
+  };
+  
+  const getUsage = async (query: string, headers: Record<string, string> = { 'x-api-key': 'sk-admin' }): Promise<Response> => {
+    const worker = (await import('../src/worker')).default;
+    return worker.fetch(new Request(`https://example.com/admin/usage${query}`, { headers }), env, {} as ExecutionContext);
+  };
+  
+  it('should record streamed and non-streamed requests and report them to admins', async () => {
+    const upstream = createMockUpstream({ text: 'Hi there', usage: { input: 12, output: 40 } });
+    vi.mocked(global.fetch).mockImplementation(upstream.fetch);
+    const pending: Promise<unknown>[] = [];
+    const ctx = { waitUntil: (promise: Promise<unknown>) => { pending.push(promise); } } as unknown as ExecutionContext;
+    
+    expect((await sendMessage(false)).status).toBe(200);
+    expect((await sendMessage(true, ctx)).status).toBe(200);
+    await Promise.all(pending);
+    
+    const records = await getUsageStore(env).list([new Date().toISOString().slice(0, 10)]);
+    expect(records.map(record => [record.stream, record.input_tokens, record.output_tokens])).toEqual([[false, 12, 40], [true, 12, 40]]);
+    expect(records[0]).toMatchObject({ client: 'ci', model: 'claude-3-haiku', upstream_model: 'google/gemini-2.5-flash-lite', status: 200 });
+    
+    const response = await getUsage('?key=ci');
+    const report = await response.json() as any;
+    expect(response.status).toBe(200);
+    expect(report.totals).toMatchObject({ requests: 2, input_tokens: 24, output_tokens: 80 });
+    expect(report.data[0].estimated_cost_usd).toBe(0.000034);
+  });
+  
+  it('should stop reading upstream and still complete when the client disconnects', async () => {
+    // The client reads the events of the first chunk, then cancels the readable side
+    let writes = 0;
+    const closed = new TypeError('Invalid state: WritableStream is closed');
+    const writer = {
+      write: vi.fn(async () => {
+        if (++writes > 3) throw closed;
+      }),
+      close: vi.fn(async () => { throw closed; })
+    } as unknown as WritableStreamDefaultWriter<any>;
+    
+    let pulls = 0;
+    const cancel = vi.fn();
+    const body = new ReadableStream({
+      pull: controller => {
+        pulls++;
+        controller.enqueue(new TextEncoder().encode(`data: {"choices":[{"index":0,"delta":{"content":"Chunk ${pulls} "}}]}\n\n`));
+      },
+      cancel
+    });
+    
+    const onComplete = vi.fn(async (_state: StreamState) => undefined);
+    await processGeminiStream(
+      new Response(body, { status: 200 }),
+      writer,
+      { model: 'claude-3-haiku', max_tokens: 100, messages: [{ role: 'user', content: 'Hi' }] },
+      openAIProvider.createStreamParser({ model: 'm', messages: [] }),
+      onComplete
+    );
+    
+    expect(pulls).toBe(2);
+    expect(cancel).toHaveBeenCalled();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete.mock.calls[0][0].estimatedOutputTokens).toBeGreaterThan(0);
+  });
+  
+  it('should record upstream failures with their status', async () => {
+    vi.mocked(global.fetch).mockImplementation(createMockUpstream({ status: 400, errorBody: { error: { message: 'bad' } } }).fetch);
+    
+    expect((await sendMessage(false)).status).toBe(400);
+    
+    const [record] = await getUsageStore(env).list([new Date().toISOString().slice(0, 10)]);
+    expect(record).toMatchObject({ status: 400, input_tokens: 0, output_tokens: 0 });
+  });
+  
+  it('should only let the admin key read usage', async () => {
+    expect((await getUsage('', { 'x-api-key': 'sk-ci-key' })).status).toBe(401);
+    
+    delete env.ADMIN_API_KEY;
+    const disabled = await getUsage('');
+    const body = await disabled.json() as any;
+    expect(disabled.status).toBe(403);
+    expect(body.error.type).toBe('permission_error');
+  });
+  
+  it('should reject bad ranges and price tables', async () => {
+    const range = await getUsage('?from=2025-02-01&to=2025-01-01');
+    expect(range.status).toBe(400);
+    
+    env.MODEL_PRICES = '{"broken":{}}';
+    const prices = await getUsage('');
+    const body = await prices.json() as any;
+    expect(prices.status).toBe(500);
+    expect(body.error.type).toBe('configuration_error');
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { validateAnthropicRequest } from '../src/validation';
+import { AnthropicMessage, AnthropicRequest } from '../src/types';
+
+const request = (overrides: Record<string, unknown> = {}): AnthropicRequest => ({
+  model: 'claude-3-sonnet',
+  max_tokens: 1024,
+  messages: [{ role: 'user', content: 'Hello' }],
+  ...overrides
+} as AnthropicRequest);
+
+const withMessages = (...messages: unknown[]): AnthropicRequest => request({ messages });
+
+const toolUse = (id: string): AnthropicMessage => ({
+  role: 'assistant',
+  content: [{ type: 'tool_use', id, name: 'lookup', input: { q: 'cat' } }]
+});
+
+const toolResult = (toolUseId: string, content: unknown = 'A cat'): AnthropicMessage => ({
+  role: 'user',
+  content: [{ type: 'tool_result', tool_use_id: toolUseId, content } as AnthropicMessage['content'][number]]
+} as AnthropicMessage);
+
+describe('Anthropic Request Validation', () => {
+  it.each([
+    ['a plain request', request()],
+    ['a final assistant prefill', withMessages({ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello,' })],
+    ['an empty final assistant message', withMessages({ role: 'user', content: 'Hi' }, { role: 'assistant', content: [] })],
+    ['a tool round trip', withMessages({ role: 'user', content: 'Find a cat' }, toolUse('toolu_1'), toolResult('toolu_1'))],
+    ['tool results with text and image blocks', withMessages(
+      { role: 'user', content: 'Find a cat' },
+      toolUse('toolu_1'),
+      toolResult('toolu_1', [
+        { type: 'text', text: 'Found one' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }
+      ])
+    )],
+    ['url images', withMessages({ role: 'user', content: [{ type: 'image', source: { type: 'url', url: 'https://example.com/cat.png' } }] })],
+    ['assistant thinking and MCP blocks', withMessages(
+      { role: 'user', content: 'Hi' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'thinking', thinking: 'Use the server', signature: '' },
+          { type: 'mcp_tool_use', id: 'mcptoolu_1', name: 'search', server_name: 'docs', input: {} },
+          { type: 'mcp_tool_result', tool_use_id: 'mcptoolu_1', content: [{ type: 'text', text: 'Found' }] },
+          { type: 'text', text: 'Done' }
+        ]
+      }
+    )],
+    ['boundary sampling values', request({ temperature: 0, top_p: 1, max_tokens: 1, stop_sequences: ['END'] })],
+    ['MCP tool definitions', request({ tools: [{ name: 'search', inputSchema: { type: 'object', properties: {} } }] })]
+  ])('should accept %s', (_name, valid) => {
+    expect(validateAnthropicRequest(valid)).toEqual({ success: true });
+  });
+  
+  it.each([
+    ['max_tokens of zero', request({ max_tokens: 0 }), 'max_tokens: must be an integer of at least 1'],
+    ['fractional max_tokens', request({ max_tokens: 10.5 }), 'max_tokens: must be an integer of at least 1'],
+    ['temperature above 1', request({ temperature: 1.5 }), 'temperature: must be a number between 0 and 1'],
+    ['negative temperature', request({ temperature: -0.1 }), 'temperature: must be a number between 0 and 1'],
+    ['a string top_p', request({ top_p: '0.9' }), 'top_p: must be a number between 0 and 1'],
+    ['a whitespace stop sequence', request({ stop_sequences: ['END', ' '] }), 'stop_sequences.1: stop sequences must contain non-whitespace characters'],
+    ['a non-boolean stream', request({ stream: 'yes' }), 'stream: must be a boolean'],
+    ['an unknown role', withMessages({ role: 'system', content: 'Hi' }), 'messages.0.role: must be "user" or "assistant"'],
+    ['a non-object message', withMessages('Hi'), 'messages.0: must be an object'],
+    [
+      'consecutive user messages',
+      withMessages({ role: 'user', content: 'Hi' }, { role: 'user', content: 'Again' }),
+      'messages.1.role: roles must alternate between "user" and "assistant", but found multiple "user" roles in a row'
+    ],
+    [
+      'an empty user message',
+      withMessages({ role: 'user', content: '' }),
+      'messages.0.content: all messages must have non-empty content except for the optional final assistant message'
+    ],
+    [
+      'an empty assistant message before the end',
+      withMessages({ role: 'user', content: 'Hi' }, { role: 'assistant', content: [] }, { role: 'user', content: 'Well?' }),
+      'messages.1.content: all messages must have non-empty content except for the optional final assistant message'
+    ],
+    ['non-array content', withMessages({ role: 'user', content: { type: 'text', text: 'Hi' } }), 'messages.0.content: must be a string or an array of content blocks'],
+    ['an empty text block', withMessages({ role: 'user', content: [{ type: 'text', text: '' }] }), 'messages.0.content.0.text: text content blocks must be non-empty'],
+    ['a text block without text', withMessages({ role: 'user', content: [{ type: 'text' }] }), 'messages.0.content.0.text: must be a string'],
+    ['an unknown content type', withMessages({ role: 'user', content: [{ type: 'video', url: 'x' }] }), 'messages.0.content.0.type: unknown content type "video"'],
+    [
+      'an image with an unknown source',
+      withMessages({ role: 'user', content: [{ type: 'image', source: { type: 'file', file_id: 'f' } }] }),
+      'messages.0.content.0.source.type: must be "base64" or "url"'
+    ],
+    [
+      'a base64 image without data',
+      withMessages({ role: 'user', content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png' } }] }),
+      'messages.0.content.0.source.data: must be a non-empty string'
+    ],
+    [
+      'an image in an assistant message',
+      withMessages(
+        { role: 'user', content: 'Draw a cat' },
+        { role: 'assistant', content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }] }
+      ),
+      'messages.1.content.0.type: "image" blocks are not allowed in assistant messages'
+    ],
+    [
+      'tool_use in a user message',
+      withMessages({ role: 'user', content: [{ type: 'tool_use', id: 'toolu_1', name: 'lookup', input: {} }] }),
+      'messages.0.content.0.type: "tool_use" blocks are not allowed in user messages'
+    ],
+    [
+      'tool_use without an id',
+      withMessages({ role: 'user', content: 'Hi' }, { role: 'assistant', content: [{ type: 'tool_use', name: 'lookup', input: {} }] }),
+      'messages.1.content.0.id: must be a non-empty string'
+    ],
+    [
+      'tool_use with non-object input',
+      withMessages({ role: 'user', content: 'Hi' }, { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'lookup', input: '{}' }] }),
+      'messages.1.content.0.input: must be an object'
+    ],
+    [
+      'a tool_result without a matching tool_use',
+      withMessages({ role: 'user', content: 'Hi' }, toolUse('toolu_1'), toolResult('toolu_2')),
+      'messages.2.content.0.tool_use_id: no tool_use block with id "toolu_2" in the previous message'
+    ],
+    [
+      'a tool_result answering an older message',
+      withMessages(
+        { role: 'user', content: 'Hi' },
+        toolUse('toolu_1'),
+        toolResult('toolu_1'),
+        { role: 'assistant', content: 'Done' },
+        toolResult('toolu_1')
+      ),
+      'messages.4.content.0.tool_use_id: no tool_use block with id "toolu_1" in the previous message'
+    ],
+    [
+      'a tool_result with unsupported content',
+      withMessages({ role: 'user', content: 'Hi' }, toolUse('toolu_1'), toolResult('toolu_1', [{ type: 'tool_use', id: 'x' }])),
+      'messages.2.content.0.content.0.type: tool_result content must be "text" or "image" blocks'
+    ],
+    [
+      'thinking in a user message',
+      withMessages({ role: 'user', content: [{ type: 'thinking', thinking: 'Hmm' }] }),
+      'messages.0.content.0.type: "thinking" blocks are not allowed in user messages'
+    ],
+    ['non-array tools', request({ tools: { name: 'lookup' } }), 'tools: must be an array'],
+    ['a tool without a name', request({ tools: [{ input_schema: { type: 'object', properties: {} } }] }), 'tools.0.name: must be a non-empty string'],
+    [
+      'duplicate tool names',
+      request({ tools: [
+        { name: 'lookup', input_schema: { type: 'object', properties: {} } },
+        { name: 'lookup', input_schema: { type: 'object', properties: {} } }
+      ] }),
+      'tools.1.name: tool names must be unique, found "lookup" more than once'
+    ],
+    [
+      'a tool schema that is not an object schema',
+      request({ tools: [{ name: 'lookup', input_schema: { type: 'string' } }] }),
+      'tools.0.input_schema: must be a JSON schema with type "object"'
+    ]
+  ])('should reject %s', (_name, invalid, error) => {
+    expect(validateAnthropicRequest(invalid)).toEqual({ success: false, error });
+  });
+});
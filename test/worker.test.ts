@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, MockedFunction } from 'vitest';
 import {
   getGeminiModel,
+  listModelInfos,
+  getModelInfo,
+  paginateList,
   validateAnthropicRequest,
   convertAnthropicToGemini,
   convertGeminiToAnthropic,
@@ -8,6 +11,8 @@ import {
   convertAnthropicToolsToGemini,
   convertAnthropicToolChoice,
   convertGeminiStreamChunk,
+  createStreamState,
+  finishGeminiStream,
   createErrorResponse
 } from '../src/worker';
 import {
@@ -39,6 +44,72 @@ describe('Model Mapping', () => {
   });
 });
 
+describe('Model Listing', () => {
+  it('should list every mapped model with its upstream model', () => {
+    const models = listModelInfos();
+    const opus = models.find(model => model.id === 'claude-3-opus-20240229');
+    
+    expect(models).toHaveLength(12);
+    expect(opus).toEqual({
+      type: 'model',
+      id: 'claude-3-opus-20240229',
+      display_name: 'Claude 3 Opus',
+      created_at: '2024-02-29T00:00:00Z',
+      upstream_model: 'google/gemini-2.5-pro',
+      routed_by: 'exact'
+    });
+  });
+
+  it('should order models newest first', () => {
+    const models = listModelInfos();
+    const createdAt = models.map(model => model.created_at);
+    
+    expect(createdAt).toEqual([...createdAt].sort().reverse());
+    expect(models[0].created_at).toBe('2024-10-22T00:00:00Z');
+  });
+
+  it('should date undated aliases by their newest snapshot', () => {
+    expect(listModelInfos().find(model => model.id === 'claude-3.5-sonnet')?.created_at).toBe('2024-10-22T00:00:00Z');
+  });
+
+  it('should resolve family fallbacks but not the default route', () => {
+    expect(getModelInfo('claude-sonnet-4-20250514')).toMatchObject({
+      id: 'claude-sonnet-4-20250514',
+      display_name: 'Claude Sonnet 4',
+      created_at: '2025-05-14T00:00:00Z',
+      upstream_model: 'google/gemini-2.5-flash',
+      routed_by: 'pattern'
+    });
+    expect(getModelInfo('gpt-4o')).toBeNull();
+  });
+
+  it('should paginate with after_id and before_id', () => {
+    const models = listModelInfos();
+    const ids = models.map(model => model.id);
+    
+    const firstPage = paginateList(models, 5, null, null);
+    expect(firstPage?.data.map(model => model.id)).toEqual(ids.slice(0, 5));
+    expect(firstPage?.has_more).toBe(true);
+    expect(firstPage?.first_id).toBe(ids[0]);
+    expect(firstPage?.last_id).toBe(ids[4]);
+    
+    const lastPage = paginateList(models, 5, null, ids[9]);
+    expect(lastPage?.data.map(model => model.id)).toEqual(ids.slice(10));
+    expect(lastPage?.has_more).toBe(false);
+    
+    const previousPage = paginateList(models, 3, ids[5], null);
+    expect(previousPage?.data.map(model => model.id)).toEqual(ids.slice(2, 5));
+    expect(previousPage?.has_more).toBe(true);
+  });
+
+  it('should reject unknown or combined cursors', () => {
+    const models = listModelInfos();
+    
+    expect(paginateList(models, 5, null, 'missing')).toBeNull();
+    expect(paginateList(models, 5, models[3].id, models[1].id)).toBeNull();
+  });
+});
+
 describe('Request Validation', () => {
   it('should validate valid requests', () => {
     const validRequest: AnthropicRequest = {
@@ -70,6 +141,48 @@ describe('Request Validation', () => {
     expect(result.error).toBe('Missing or invalid messages field');
   });
 
+  it.each([
+    [{ type: 'sometimes' }, 'tool_choice.type must be one of "auto", "any", "none" or "tool"'],
+    ['tool', 'tool_choice.type must be one of "auto", "any", "none" or "tool"'],
+    [{ type: 'tool' }, 'tool_choice.name is required when tool_choice.type is "tool"']
+  ])('should reject tool_choice %j', (toolChoice, message) => {
+    const result = validateAnthropicRequest({
+      model: 'claude-3-sonnet',
+      messages: [{ role: 'user', content: 'Hello' }],
+      tool_choice: toolChoice as AnthropicRequest['tool_choice']
+    });
+    
+    expect(result).toEqual({ success: false, error: message });
+  });
+  
+  it.each([
+    [{ type: 'text' }],
+    [[{ type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } }]]
+  ])('should reject system %j', system => {
+    const result = validateAnthropicRequest({
+      model: 'claude-3-sonnet',
+      messages: [{ role: 'user', content: 'Hello' }],
+      system: system as unknown as AnthropicRequest['system']
+    });
+    
+    expect(result).toEqual({ success: false, error: 'system must be a string or an array of text blocks' });
+  });
+  
+  it.each([
+    [{ type: 'on' }, 'thinking.type must be "enabled" or "disabled"'],
+    [{ type: 'enabled', budget_tokens: 512 }, 'thinking.budget_tokens must be an integer of at least 1024'],
+    [{ type: 'enabled', budget_tokens: 2048 }, 'thinking.budget_tokens must be less than max_tokens']
+  ])('should reject thinking %j', (thinking, message) => {
+    const result = validateAnthropicRequest({
+      model: 'claude-3-sonnet',
+      max_tokens: 1024,
+      messages: [{ role: 'user', content: 'Hello' }],
+      thinking: thinking as AnthropicRequest['thinking']
+    });
+    
+    expect(result).toEqual({ success: false, error: message });
+  });
+  
   it('should reject requests with empty messages array', () => {
     const invalidRequest: AnthropicRequest = {
       model: 'claude-3-sonnet',
@@ -90,10 +203,10 @@ describe('Message Conversion', () => {
     };
     
     const result = convertAnthropicMessage(message, 0);
-    expect(result).toEqual({
+    expect(result).toEqual([{
       role: 'user',
       content: 'Hello, world!'
-    });
+    }]);
   });
 
   it('should convert assistant messages', () => {
@@ -103,10 +216,10 @@ describe('Message Conversion', () => {
     };
     
     const result = convertAnthropicMessage(message, 0);
-    expect(result).toEqual({
+    expect(result).toEqual([{
       role: 'assistant',
       content: 'Hello back!'
-    });
+    }]);
   });
 
   it('should handle multimodal content with text', () => {
@@ -119,10 +232,10 @@ describe('Message Conversion', () => {
     };
     
     const result = convertAnthropicMessage(message, 0);
-    expect(result).toEqual({
+    expect(result).toEqual([{
       role: 'user',
       content: 'First part\nSecond part'
-    });
+    }]);
   });
 
   it('should handle tool use content', () => {
@@ -139,7 +252,37 @@ describe('Message Conversion', () => {
     };
     
     const result = convertAnthropicMessage(message, 0);
-    expect(result?.content).toContain('[Tool Call: calculator({"operation":"add","a":1,"b":2})]');
+    expect(result).toEqual([{
+      role: 'assistant',
+      content: null,
+      tool_calls: [
+        {
+          id: 'tool_123',
+          type: 'function',
+          function: {
+            name: 'calculator',
+            arguments: '{"operation":"add","a":1,"b":2}'
+          }
+        }
+      ]
+    }]);
+  });
+
+  it('should keep assistant text alongside tool calls', () => {
+    const message: AnthropicMessage = {
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Let me check both.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+        { type: 'tool_use', id: 'toolu_2', name: 'get_weather', input: { city: 'Rome' } }
+      ]
+    };
+    
+    const result = convertAnthropicMessage(message, 0);
+    expect(result).toHaveLength(1);
+    expect(result[0].content).toBe('Let me check both.');
+    expect(result[0].tool_calls?.map(call => call.id)).toEqual(['toolu_1', 'toolu_2']);
+    expect(result[0].tool_calls?.[1].function.arguments).toBe('{"city":"Rome"}');
   });
 
   it('should handle tool result content', () => {
@@ -155,17 +298,85 @@ describe('Message Conversion', () => {
     };
     
     const result = convertAnthropicMessage(message, 0);
-    expect(result?.content).toContain('[Tool Result: Result: 3]');
+    expect(result).toEqual([{
+      role: 'tool',
+      tool_call_id: 'tool_123',
+      content: 'Result: 3'
+    }]);
   });
 
-  it('should return null for empty content', () => {
+  it('should emit one tool message per tool result before trailing text', () => {
+    const message: AnthropicMessage = {
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: '18C' }] },
+        { type: 'tool_result', tool_use_id: 'toolu_2', content: 'City not found', is_error: true },
+        { type: 'text', text: 'Which one is warmer?' }
+      ]
+    };
+    
+    const result = convertAnthropicMessage(message, 0);
+    expect(result).toEqual([
+      { role: 'tool', tool_call_id: 'toolu_1', content: '18C' },
+      { role: 'tool', tool_call_id: 'toolu_2', content: 'Error: City not found' },
+      { role: 'user', content: 'Which one is warmer?' }
+    ]);
+  });
+
+  it('should convert base64 images to image_url parts', () => {
+    const message: AnthropicMessage = {
+      role: 'user',
+      content: [
+        { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'aGVsbG8=' } },
+        { type: 'text', text: 'What is the total on this receipt?' }
+      ]
+    };
+    
+    const result = convertAnthropicMessage(message, 0);
+    expect(result).toEqual([{
+      role: 'user',
+      content: [
+        { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,aGVsbG8=' } },
+        { type: 'text', text: 'What is the total on this receipt?' }
+      ]
+    }]);
+  });
+
+  it('should keep images returned inside tool results', () => {
+    const message: AnthropicMessage = {
+      role: 'user',
+      content: [
+        {
+          type: 'tool_result',
+          tool_use_id: 'toolu_1',
+          content: [
+            { type: 'text', text: 'Screenshot captured' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw==' } }
+          ]
+        }
+      ]
+    };
+    
+    const result = convertAnthropicMessage(message, 0);
+    expect(result).toHaveLength(2);
+    expect(result[0].role).toBe('tool');
+    expect(result[0].content).toContain('Screenshot captured');
+    expect(result[1]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw==' } }
+      ]
+    });
+  });
+
+  it('should return no messages for empty content', () => {
     const message: AnthropicMessage = {
       role: 'user',
       content: ''
     };
     
     const result = convertAnthropicMessage(message, 0);
-    expect(result).toBeNull();
+    expect(result).toEqual([]);
   });
 });
 
@@ -208,15 +419,46 @@ describe('Tool Conversion', () => {
     ]);
   });
 
+  it('should convert MCP tool definitions passed in tools', () => {
+    const result = convertAnthropicToolsToGemini([
+      {
+        name: 'read_file',
+        description: 'Read a file',
+        inputSchema: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+        annotations: { readOnlyHint: true }
+      }
+    ]);
+    
+    expect(result).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'read_file',
+          description: 'Read a file',
+          parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] }
+        }
+      }
+    ]);
+  });
+  
   it('should convert tool choice options', () => {
     expect(convertAnthropicToolChoice('auto')).toBe('auto');
-    expect(convertAnthropicToolChoice('any')).toBe('auto');
+    expect(convertAnthropicToolChoice('any')).toBe('required');
+    expect(convertAnthropicToolChoice('none')).toBe('none');
     expect(convertAnthropicToolChoice({ type: 'tool', name: 'calculator' })).toEqual({
       type: 'function',
       function: { name: 'calculator' }
     });
     expect(convertAnthropicToolChoice(undefined)).toBeUndefined();
   });
+  
+  it.each([
+    [{ type: 'auto' as const }, 'auto'],
+    [{ type: 'any' as const, disable_parallel_tool_use: true }, 'required'],
+    [{ type: 'none' as const }, 'none']
+  ])('should convert tool choice object %j', (toolChoice, expected) => {
+    expect(convertAnthropicToolChoice(toolChoice)).toBe(expected);
+  });
 });
 
 describe('Request Conversion', () => {
@@ -299,6 +541,52 @@ describe('Request Conversion', () => {
     expect(result.data?.top_p).toBe(0.9);
     expect(result.data?.stop).toEqual(['stop1', 'stop2']);
   });
+  
+  it('should join block-form system prompts and record cache breakpoints', () => {
+    const result = convertAnthropicToGemini({
+      model: 'claude-3-sonnet',
+      tools: [{ name: 'lookup', description: 'Look up', input_schema: { type: 'object', properties: {} }, cache_control: { type: 'ephemeral' } }],
+      system: [
+        { type: 'text', text: 'You are a support agent.' },
+        { type: 'text', text: 'Policy manual ...', cache_control: { type: 'ephemeral', ttl: '1h' } }
+      ],
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'First question', cache_control: { type: 'ephemeral' } }] },
+        { role: 'assistant', content: 'First answer' },
+        { role: 'user', content: 'Second question' }
+      ]
+    });
+    
+    expect(result.data?.messages[0]).toEqual({ role: 'system', content: 'You are a support agent.\n\nPolicy manual ...' });
+    expect(result.data?.cache_breakpoints).toEqual([
+      { messageCount: 1, ttl: '1h' },
+      { messageCount: 2, ttl: '5m' }
+    ]);
+  });
+  
+  it('should leave cache breakpoints off when the request has none', () => {
+    expect(convertAnthropicToGemini({ model: 'claude-3-sonnet', system: 'Be brief.', messages: [{ role: 'user', content: 'Hi' }] }).data?.cache_breakpoints)
+      .toBeUndefined();
+  });
+  
+  it('should pass the thinking budget on and leave earlier thinking out of the history', () => {
+    const warn = vi.spyOn(console, 'warn');
+    const result = convertAnthropicToGemini({
+      model: 'claude-3-sonnet',
+      max_tokens: 4096,
+      thinking: { type: 'enabled', budget_tokens: 2048 },
+      messages: [
+        { role: 'user', content: 'Hello!' },
+        { role: 'assistant', content: [{ type: 'thinking', thinking: 'Greet back.', signature: 'sig' }, { type: 'text', text: 'Hi!' }] },
+        { role: 'user', content: 'How are you?' }
+      ]
+    });
+    
+    expect(result.data?.thinking_budget).toBe(2048);
+    expect(result.data?.messages[1]).toEqual({ role: 'assistant', content: 'Hi!' });
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
 });
 
 describe('Response Conversion', () => {
@@ -381,7 +669,7 @@ describe('Response Conversion', () => {
     expect(result.data?.content).toEqual([
       {
         type: 'tool_use',
-        tool_use_id: 'call_123',
+        id: 'call_123',
         name: 'calculator',
         input: { operation: 'add', a: 1, b: 2 }
       }
@@ -389,6 +677,21 @@ describe('Response Conversion', () => {
     expect(result.data?.stop_reason).toBe('tool_use');
   });
 
+  it('should return reasoning as a thinking block before the answer', () => {
+    const result = convertGeminiToAnthropic({
+      id: 'resp_123',
+      object: 'chat.completion',
+      created: 1234567890,
+      model: 'google/gemini-2.5-flash',
+      choices: [{ index: 0, message: { role: 'assistant', content: '4', reasoning_content: '2 + 2 is 4.' }, finish_reason: 'stop' }]
+    }, { model: 'claude-3-sonnet', messages: [{ role: 'user', content: '2 + 2?' }] });
+    
+    expect(result.data?.content).toEqual([
+      { type: 'thinking', thinking: '2 + 2 is 4.', signature: '' },
+      { type: 'text', text: '4' }
+    ]);
+  });
+
   it('should handle error responses', () => {
     const geminiResponse: GeminiResponse = {
       id: 'resp_123',
@@ -433,29 +736,43 @@ describe('Response Conversion', () => {
 });
 
 describe('Stream Chunk Conversion', () => {
-  it('should convert text delta chunks', () => {
-    const geminiChunk: GeminiStreamChunk = {
-      id: 'chunk_123',
-      object: 'chat.completion.chunk',
-      created: 1234567890,
-      model: 'google/gemini-2.5-flash',
-      choices: [
-        {
-          index: 0,
-          delta: {
-            content: 'Hello'
-          }
-        }
-      ]
-    };
+  const originalRequest: AnthropicRequest = {
+    model: 'claude-3-sonnet',
+    messages: [{ role: 'user', content: 'Hi' }]
+  };
+
+  const chunk = (choice: Partial<GeminiStreamChunk['choices'][number]>, extra: Partial<GeminiStreamChunk> = {}): GeminiStreamChunk => ({
+    id: 'chunk_123',
+    object: 'chat.completion.chunk',
+    created: 1234567890,
+    model: 'google/gemini-2.5-flash',
+    choices: [{ index: 0, ...choice }],
+    ...extra
+  });
+
+  it('should open the message and a text block on the first text delta', () => {
+    const state = createStreamState(originalRequest);
+    const events = convertGeminiStreamChunk(chunk({ delta: { content: 'Hello' } }), state);
     
-    const originalRequest: AnthropicRequest = {
+    expect(events.map(event => event.type)).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta'
+    ]);
+    expect(events[0].message).toMatchObject({
+      id: state.messageId,
+      type: 'message',
+      role: 'assistant',
+      content: [],
       model: 'claude-3-sonnet',
-      messages: [{ role: 'user', content: 'Hi' }]
-    };
-    
-    const result = convertGeminiStreamChunk(geminiChunk, originalRequest);
-    expect(result).toEqual({
+      stop_reason: null
+    });
+    expect(events[1]).toEqual({
+      type: 'content_block_start',
+      index: 0,
+      content_block: { type: 'text', text: '' }
+    });
+    expect(events[2]).toEqual({
       type: 'content_block_delta',
       index: 0,
       delta: {
@@ -465,88 +782,217 @@ describe('Stream Chunk Conversion', () => {
     });
   });
 
-  it('should convert tool call chunks', () => {
-    const geminiChunk: GeminiStreamChunk = {
-      id: 'chunk_123',
-      object: 'chat.completion.chunk',
-      created: 1234567890,
-      model: 'google/gemini-2.5-flash',
-      choices: [
-        {
-          index: 0,
-          delta: {
-            tool_calls: [
-              {
-                id: 'call_123',
-                type: 'function',
-                function: {
-                  name: 'calculator',
-                  arguments: '{"a":1}'
-                }
-              }
-            ]
+  it('should continue the open text block without restarting it', () => {
+    const state = createStreamState(originalRequest);
+    convertGeminiStreamChunk(chunk({ delta: { content: 'Hello' } }), state);
+    const events = convertGeminiStreamChunk(chunk({ delta: { content: ' there' } }), state);
+    
+    expect(events).toEqual([
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' there' } }
+    ]);
+  });
+
+  it('should send a tool_use block whole, carrying the call id and name, when the stream finishes', () => {
+    const state = createStreamState(originalRequest);
+    const events = convertGeminiStreamChunk(chunk({
+      delta: {
+        tool_calls: [
+          {
+            id: 'call_123',
+            type: 'function',
+            function: {
+              name: 'calculator',
+              arguments: '{"a":'
+            }
           }
+        ]
+      }
+    }), state);
+    events.push(...convertGeminiStreamChunk(chunk({ delta: { tool_calls: [{ function: { arguments: '1}' } }] } }), state));
+    
+    expect(events.map(event => event.type)).toEqual(['message_start']);
+    expect(finishGeminiStream(state).slice(0, 3)).toEqual([
+      {
+        type: 'content_block_start',
+        index: 0,
+        content_block: { type: 'tool_use', id: 'call_123', name: 'calculator', input: {} }
+      },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: {
+          type: 'input_json_delta',
+          partial_json: '{"a":1}'
         }
-      ]
-    };
+      },
+      { type: 'content_block_stop', index: 0 }
+    ]);
+  });
+
+  it('should close the text block before the tool calls that followed it', () => {
+    const state = createStreamState(originalRequest);
+    convertGeminiStreamChunk(chunk({ delta: { content: 'Let me calculate.' } }), state);
+    expect(convertGeminiStreamChunk(chunk({
+      delta: {
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'calculator', arguments: '' } }]
+      }
+    }), state)).toEqual([]);
     
-    const originalRequest: AnthropicRequest = {
-      model: 'claude-3-sonnet',
-      messages: [{ role: 'user', content: 'Calculate' }]
-    };
+    expect(finishGeminiStream(state).slice(0, 3)).toEqual([
+      { type: 'content_block_stop', index: 0 },
+      {
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', id: 'call_1', name: 'calculator', input: {} }
+      },
+      { type: 'content_block_stop', index: 1 }
+    ]);
+  });
+
+  it('should stream parallel tool calls as separate indexed blocks', () => {
+    const state = createStreamState(originalRequest);
+    const events = [
+      chunk({ delta: { tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 1, id: 'call_b', type: 'function', function: { name: 'get_time', arguments: '{"tz":' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }, { index: 1, function: { arguments: '"CET"}' } }] } }),
+      chunk({ finish_reason: 'tool_calls' })
+    ].flatMap(geminiChunk => convertGeminiStreamChunk(geminiChunk, state));
+    events.push(...finishGeminiStream(state));
     
-    const result = convertGeminiStreamChunk(geminiChunk, originalRequest);
-    expect(result).toEqual({
-      type: 'content_block_delta',
-      index: 0,
-      delta: {
-        type: 'input_json_delta',
-        partial_json: '{"a":1}'
+    const starts = events.filter(event => event.type === 'content_block_start');
+    expect(starts).toEqual([
+      { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'call_a', name: 'get_weather', input: {} } },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'call_b', name: 'get_time', input: {} } }
+    ]);
+    
+    const argumentsByBlock = (index: number): string => events
+      .filter(event => event.type === 'content_block_delta' && event.index === index)
+      .map(event => event.delta?.partial_json)
+      .join('');
+    expect(JSON.parse(argumentsByBlock(0))).toEqual({ city: 'Paris' });
+    expect(JSON.parse(argumentsByBlock(1))).toEqual({ tz: 'CET' });
+    expect(events.find(event => event.type === 'message_delta')?.delta?.stop_reason).toBe('tool_use');
+  });
+
+  it('should send interleaved tool calls one whole block at a time', () => {
+    const state = createStreamState(originalRequest);
+    const events = [
+      chunk({ delta: { tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 1, id: 'call_b', type: 'function', function: { name: 'get_time', arguments: '' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 1, function: { arguments: '{"tz":' } }] } }),
+      chunk({ delta: { content: 'Checking.' } }),
+      chunk({ delta: { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 1, function: { arguments: '"CET"}' } }] } }),
+      chunk({ finish_reason: 'tool_calls' })
+    ].flatMap(geminiChunk => convertGeminiStreamChunk(geminiChunk, state));
+    events.push(...finishGeminiStream(state));
+    
+    // No block starts before the previous one has stopped
+    let open: number | null = null;
+    events.forEach(event => {
+      if (event.type === 'content_block_start') {
+        expect(open).toBeNull();
+        open = event.index!;
+      } else if (event.type === 'content_block_delta') {
+        expect(event.index).toBe(open);
+      } else if (event.type === 'content_block_stop') {
+        expect(event.index).toBe(open);
+        open = null;
       }
     });
+    
+    expect(events.slice(1).map(event => [event.type, event.index])).toEqual([
+      ['content_block_start', 0],
+      ['content_block_delta', 0],
+      ['content_block_stop', 0],
+      ['content_block_start', 1],
+      ['content_block_delta', 1],
+      ['content_block_stop', 1],
+      ['content_block_start', 2],
+      ['content_block_delta', 2],
+      ['content_block_stop', 2],
+      ['message_delta', undefined],
+      ['message_stop', undefined]
+    ]);
+    expect(events.filter(event => event.delta?.type === 'input_json_delta').map(event => event.delta?.partial_json))
+      .toEqual(['{"city":"Paris"}', '{"tz":"CET"}']);
+  });
+  
+  it('should treat a new call id on a reused index as a new tool call', () => {
+    const state = createStreamState(originalRequest);
+    convertGeminiStreamChunk(chunk({ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'lookup', arguments: '{}' } }] } }), state);
+    convertGeminiStreamChunk(chunk({ delta: { tool_calls: [{ index: 0, id: 'call_b', function: { name: 'lookup', arguments: '{}' } }] } }), state);
+    
+    expect(finishGeminiStream(state).filter(event => event.type === 'content_block_start')).toEqual([
+      { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'call_a', name: 'lookup', input: {} } },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'call_b', name: 'lookup', input: {} } }
+    ]);
   });
 
-  it('should handle finish reason chunks', () => {
-    const geminiChunk: GeminiStreamChunk = {
-      id: 'chunk_123',
-      object: 'chat.completion.chunk',
-      created: 1234567890,
-      model: 'google/gemini-2.5-flash',
-      choices: [
-        {
-          index: 0,
-          finish_reason: 'stop'
-        }
-      ]
-    };
+  it('should only stream the first tool call when parallel tool use is disabled', () => {
+    const state = createStreamState({ ...originalRequest, tool_choice: { type: 'auto', disable_parallel_tool_use: true } });
+    const events = [
+      chunk({ delta: { tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '{"city":' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 1, id: 'call_b', type: 'function', function: { name: 'get_time', arguments: '{"tz":' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }, { index: 1, function: { arguments: '"CET"}' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 0, id: 'call_c', type: 'function', function: { name: 'lookup', arguments: '{}' } }] } }),
+      chunk({ delta: { tool_calls: [{ index: 0, function: { arguments: '' } }] } })
+    ].flatMap(geminiChunk => convertGeminiStreamChunk(geminiChunk, state));
+    events.push(...finishGeminiStream(state));
     
-    const originalRequest: AnthropicRequest = {
-      model: 'claude-3-sonnet',
-      messages: [{ role: 'user', content: 'Hi' }]
-    };
+    expect(events.filter(event => event.type === 'content_block_start').map(event => event.content_block?.id)).toEqual(['call_a']);
+    expect(events.filter(event => event.type === 'content_block_delta').map(event => event.delta?.partial_json).join('')).toBe('{"city":"Paris"}');
+  });
+  
+  it('should defer the stop reason until the stream finishes', () => {
+    const state = createStreamState(originalRequest);
+    convertGeminiStreamChunk(chunk({ delta: { content: 'Hi' } }), state);
+    const events = convertGeminiStreamChunk(chunk({ finish_reason: 'length' }), state);
+    expect(events).toEqual([]);
     
-    const result = convertGeminiStreamChunk(geminiChunk, originalRequest);
-    expect(result).toEqual({
-      type: 'message_stop'
-    });
+    convertGeminiStreamChunk({
+      ...chunk({}),
+      choices: [],
+      usage: { prompt_tokens: 12, completion_tokens: 7, total_tokens: 19 }
+    }, state);
+    
+    expect(finishGeminiStream(state)).toEqual([
+      { type: 'content_block_stop', index: 0 },
+      {
+        type: 'message_delta',
+        delta: { stop_reason: 'max_tokens', stop_sequence: null },
+        usage: { input_tokens: 12, output_tokens: 7 }
+      },
+      { type: 'message_stop' }
+    ]);
+    expect(finishGeminiStream(state)).toEqual([]);
   });
 
-  it('should return null for empty chunks', () => {
-    const geminiChunk: GeminiStreamChunk = {
-      id: 'chunk_123',
-      object: 'chat.completion.chunk',
-      created: 1234567890,
-      model: 'google/gemini-2.5-flash',
-      choices: []
-    };
+  it('should report estimated output tokens when upstream sends no usage', () => {
+    const state = createStreamState(originalRequest);
+    convertGeminiStreamChunk(chunk({ delta: { content: 'Twelve chars' } }), state);
+    convertGeminiStreamChunk(chunk({ finish_reason: 'stop' }), state);
     
-    const originalRequest: AnthropicRequest = {
-      model: 'claude-3-sonnet',
-      messages: [{ role: 'user', content: 'Hi' }]
-    };
+    const messageDelta = finishGeminiStream(state).find(event => event.type === 'message_delta');
+    expect(messageDelta?.usage?.output_tokens).toBe(3);
+  });
+  
+  it('should emit a complete message for an empty stream', () => {
+    const state = createStreamState(originalRequest);
+    const events = finishGeminiStream(state);
+    
+    expect(events.map(event => event.type)).toEqual(['message_start', 'message_delta', 'message_stop']);
+    expect(events[1].delta?.stop_reason).toBe('end_turn');
+  });
+
+  it('should only emit message_start for chunks without choices', () => {
+    const state = createStreamState(originalRequest);
+    const geminiChunk: GeminiStreamChunk = { ...chunk({}), choices: [] };
     
-    const result = convertGeminiStreamChunk(geminiChunk, originalRequest);
-    expect(result).toBeNull();
+    expect(convertGeminiStreamChunk(geminiChunk, state).map(event => event.type)).toEqual(['message_start']);
+    expect(convertGeminiStreamChunk(geminiChunk, state)).toEqual([]);
   });
 });
 